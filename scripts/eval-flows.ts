@@ -0,0 +1,71 @@
+/**
+ * Evaluates the AI flows against their golden datasets and compares prompt versions.
+ *
+ *   npm run eval:flows -- [flow ...]
+ *
+ * Flows are `summarize-sip`, `generate-clean-title`, `summarize-discussion` and
+ * `explain-sip-eli5`; all of them run by default, on the model AI_PROVIDER/AI_MODEL select.
+ * Each run is saved as `<reports dir>/<flow>/v<prompt version>.<model>.json` (reports dir:
+ * SIPVIEW_EVAL_REPORTS_DIR, default `.sipview-evals`) and printed next to the saved runs of the
+ * other prompt versions. To compare a prompt edit, run once, bump the task's entry in
+ * `src/ai/prompt_versions.ts`, edit the prompt and run again.
+ */
+import 'dotenv/config';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { EVALUATED_FLOWS } from '../src/ai/evals/flows';
+import { loadEvalCases, runFlowEval, saveFlowEvalReport, loadFlowEvalReports, type FlowEvalReport } from '../src/ai/evals/report';
+
+const DATASET_DIR = path.resolve('src/data/evals');
+const REPORTS_DIR = path.resolve(process.env.SIPVIEW_EVAL_REPORTS_DIR || '.sipview-evals');
+
+function percent(score: number): string {
+  return `${(score * 100).toFixed(1)}%`;
+}
+
+function printFailures(report: FlowEvalReport) {
+  for (const caseReport of report.cases) {
+    if (caseReport.error) {
+      console.log(`    ✗ ${caseReport.id}: flow threw: ${caseReport.error}`);
+      continue;
+    }
+    for (const check of caseReport.checks.filter(check => !check.passed)) {
+      console.log(`    ✗ ${caseReport.id}: ${check.name}${check.detail ? ` (${check.detail})` : ''}`);
+    }
+  }
+}
+
+async function main() {
+  const requested = process.argv.slice(2);
+  const unknown = requested.filter(name => !EVALUATED_FLOWS.some(flow => flow.name === name));
+  if (unknown.length) {
+    console.error(`Unknown flow(s): ${unknown.join(', ')}. Available: ${EVALUATED_FLOWS.map(flow => flow.name).join(', ')}`);
+    process.exit(1);
+  }
+  const flows = requested.length ? EVALUATED_FLOWS.filter(flow => requested.includes(flow.name)) : EVALUATED_FLOWS;
+  const bannedTerms = JSON.parse(await fs.readFile(path.join(DATASET_DIR, 'banned-terms.json'), 'utf8')) as string[];
+
+  for (const flow of flows) {
+    const cases = await loadEvalCases(flow, DATASET_DIR);
+    console.log(`\n${flow.name}: running ${cases.length} case(s)...`);
+    const report = await runFlowEval(flow, cases, bannedTerms);
+    const savedTo = await saveFlowEvalReport(report, REPORTS_DIR);
+    console.log(`  v${report.promptVersion} on ${report.model}: ${percent(report.score)} (${report.passedCases}/${report.totalCases} cases fully passed), saved to ${path.relative(process.cwd(), savedTo)}`);
+    printFailures(report);
+
+    const saved = await loadFlowEvalReports(flow.name, REPORTS_DIR);
+    if (saved.length > 1) {
+      console.log('  Saved runs:');
+      for (const previous of saved) {
+        const current = previous.promptVersion === report.promptVersion && previous.model === report.model ? ' <- this run' : '';
+        console.log(`    v${previous.promptVersion} ${previous.model}: ${percent(previous.score)} (${previous.passedCases}/${previous.totalCases}), ${previous.ranAt}${current}`);
+      }
+    }
+  }
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
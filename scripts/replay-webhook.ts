@@ -0,0 +1,50 @@
+/**
+ * Replays a recorded GitHub webhook delivery against a running SipView instance.
+ *
+ *   npm run webhook:replay -- src/data/fixtures/webhooks/pull_request.synchronize.json [url]
+ *
+ * Recordings are `{ "event": "<x-github-event>", "payload": { ... } }`. The payload is signed
+ * with GITHUB_WEBHOOK_SECRET exactly as GitHub would sign it. The URL defaults to the local
+ * dev server.
+ */
+import 'dotenv/config';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { signWebhookPayload, SIGNATURE_HEADER, EVENT_HEADER, DELIVERY_HEADER } from '../src/lib/github_webhooks';
+
+const DEFAULT_WEBHOOK_URL = 'http://localhost:9002/api/github/webhook';
+
+async function main() {
+  const [recordingPath, url = DEFAULT_WEBHOOK_URL] = process.argv.slice(2);
+  if (!recordingPath) {
+    console.error('Usage: npm run webhook:replay -- <recording.json> [url]');
+    process.exit(1);
+  }
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('GITHUB_WEBHOOK_SECRET must be set to sign the replayed delivery.');
+    process.exit(1);
+  }
+
+  const recording = JSON.parse(await fs.readFile(recordingPath, 'utf8'));
+  const rawBody = JSON.stringify(recording.payload);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [EVENT_HEADER]: recording.event,
+      [DELIVERY_HEADER]: `replay-${randomUUID()}`,
+      [SIGNATURE_HEADER]: signWebhookPayload(secret, rawBody),
+    },
+    body: rawBody,
+  });
+
+  console.log(`${response.status} ${response.statusText}`);
+  console.log(await response.text());
+  process.exit(response.ok ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -4,3 +4,4 @@ import './flows/summarize-sip-flow';
 import './flows/eli5-sip-flow';
 import './flows/generate-clean-title-flow';
 import './flows/summarize-discussion-flow';
+import './flows/answer-sip-question-flow';
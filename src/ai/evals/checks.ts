@@ -0,0 +1,122 @@
+
+import type { z } from 'genkit';
+
+/**
+ * Properties an AI flow's output is expected to have for one golden case. Text properties apply
+ * to every text field of the output (e.g. each of the three summary points) and are skipped when
+ * the case expects the flow to fall back, since fallback texts are fixed strings.
+ */
+export interface EvalExpectations {
+  fallback?: boolean; // The flow should give up on this input (default: it should answer)
+  sentences?: { min?: number; max?: number };
+  paragraphs?: { min?: number; max?: number };
+  length?: { min?: number; max?: number }; // Characters
+  noProposalReferences?: boolean; // No "SIP", "PR" or "pull request" in the text
+  noBannedTerms?: boolean; // None of the jargon in `src/data/evals/banned-terms.json`
+  mentionsAny?: string[]; // At least one of these appears somewhere in the output, case-insensitively
+}
+
+export interface EvalCase<TInput = unknown> {
+  id: string;
+  description?: string;
+  input: TInput;
+  expect: EvalExpectations;
+}
+
+export interface CheckResult {
+  name: string;
+  passed: boolean;
+  detail?: string; // Why the check failed
+}
+
+const PROPOSAL_REFERENCE_PATTERNS = [/\bSIPs?\b/i, /\bPRs?\b/, /\bpull requests?\b/i];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Sentences in `text`: runs ending in `.`, `!` or `?` before whitespace, plus an unterminated tail. */
+export function countSentences(text: string): number {
+  const trimmed = text.trim();
+  if (!trimmed) return 0;
+  return trimmed.split(/(?<=[.!?])\s+/).filter(sentence => /\w/.test(sentence)).length;
+}
+
+export function countParagraphs(text: string): number {
+  return text.split(/\n\s*\n/).filter(paragraph => paragraph.trim()).length;
+}
+
+function rangeCheck(name: string, values: number[], range: { min?: number; max?: number }): CheckResult {
+  const outside = values.filter(value => (range.min !== undefined && value < range.min) || (range.max !== undefined && value > range.max));
+  return {
+    name,
+    passed: outside.length === 0,
+    detail: outside.length ? `got ${values.join(', ')}; expected ${range.min ?? 0}-${range.max ?? '∞'}` : undefined,
+  };
+}
+
+function schemaCheck(name: string, schema: z.ZodTypeAny, value: unknown): CheckResult {
+  const result = schema.safeParse(value);
+  return {
+    name,
+    passed: result.success,
+    detail: result.success ? undefined : result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; '),
+  };
+}
+
+/**
+ * Runs every check `expect` asks for against one flow output. The output is always validated
+ * against the flow's output schema, and the fallback expectation is always checked.
+ */
+export function runChecks(
+  output: unknown,
+  expect: EvalExpectations,
+  { outputSchema, texts, isFallback, bannedTerms }: {
+    outputSchema: z.ZodTypeAny;
+    texts: string[];
+    isFallback: boolean;
+    bannedTerms: string[];
+  },
+): CheckResult[] {
+  const checks: CheckResult[] = [schemaCheck('output matches schema', outputSchema, output)];
+
+  const expectsFallback = expect.fallback ?? false;
+  checks.push({
+    name: expectsFallback ? 'falls back' : 'answers without falling back',
+    passed: isFallback === expectsFallback,
+    detail: isFallback === expectsFallback ? undefined : `output: ${JSON.stringify(output)}`,
+  });
+  if (expectsFallback) {
+    return checks;
+  }
+
+  if (expect.sentences) {
+    checks.push(rangeCheck('sentence count', texts.map(countSentences), expect.sentences));
+  }
+  if (expect.paragraphs) {
+    checks.push(rangeCheck('paragraph count', texts.map(countParagraphs), expect.paragraphs));
+  }
+  if (expect.length) {
+    checks.push(rangeCheck('length', texts.map(text => text.trim().length), expect.length));
+  }
+  if (expect.noProposalReferences) {
+    const found = texts.flatMap(text => PROPOSAL_REFERENCE_PATTERNS.flatMap(pattern => text.match(pattern)?.[0] ?? []));
+    checks.push({ name: 'no proposal references', passed: found.length === 0, detail: found.length ? `mentions ${found.join(', ')}` : undefined });
+  }
+  if (expect.noBannedTerms) {
+    const joined = texts.join('\n');
+    const found = bannedTerms.filter(term => new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i').test(joined));
+    checks.push({ name: 'no banned terms', passed: found.length === 0, detail: found.length ? `uses ${found.join(', ')}` : undefined });
+  }
+  if (expect.mentionsAny?.length) {
+    const joined = texts.join('\n').toLowerCase();
+    const mentioned = expect.mentionsAny.some(term => joined.includes(term.toLowerCase()));
+    checks.push({ name: 'mentions the subject', passed: mentioned, detail: mentioned ? undefined : `none of ${expect.mentionsAny.join(', ')}` });
+  }
+  return checks;
+}
+
+/** Share of passed checks, 0-1. A case with no checks scores 0 rather than a misleading 1. */
+export function scoreChecks(checks: CheckResult[]): number {
+  return checks.length ? checks.filter(check => check.passed).length / checks.length : 0;
+}
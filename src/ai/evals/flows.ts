@@ -0,0 +1,85 @@
+
+import type { z } from 'genkit';
+import type { AiTask } from '@/ai/prompt_versions';
+import {
+  SummarizeSipInputSchema,
+  AiSummaryOutputSchema,
+  USER_REQUESTED_FALLBACK_AI_SUMMARY,
+  GenerateCleanTitleInputSchema,
+  GenerateCleanTitleOutputSchema,
+  SummarizeDiscussionInputSchema,
+  SummarizeDiscussionOutputSchema,
+  NO_COMMENTS_DISCUSSION_SUMMARY,
+  MINIMAL_DISCUSSION_SUMMARY,
+  isFailedDiscussionSummary,
+  Eli5SipInputSchema,
+  Eli5SipOutputSchema,
+  FALLBACK_ELI5_MESSAGE,
+  FAILED_ELI5_MESSAGE_PREFIX,
+} from '@/ai/flow-schemas';
+import { summarizeSipContentStructured } from '@/ai/flows/summarize-sip-flow';
+import { generateCleanSipTitle } from '@/ai/flows/generate-clean-title-flow';
+import { summarizeDiscussion } from '@/ai/flows/summarize-discussion-flow';
+import { explainSipEli5 } from '@/ai/flows/eli5-sip-flow';
+
+/** An AI flow as the evaluation harness sees it. Its golden cases live in `src/data/evals/<name>.json`. */
+export interface EvaluatedFlow<TInput = any, TOutput = any> {
+  name: string;
+  task: AiTask; // Whose prompt version the report is filed under
+  inputSchema: z.ZodType<TInput>;
+  outputSchema: z.ZodType<TOutput>;
+  run: (input: TInput) => Promise<TOutput>;
+  texts: (output: TOutput) => string[]; // The text fields the text checks apply to
+  isFallback: (output: TOutput, input: TInput) => boolean;
+}
+
+function defineEvaluatedFlow<TInput, TOutput>(flow: EvaluatedFlow<TInput, TOutput>): EvaluatedFlow<TInput, TOutput> {
+  return flow;
+}
+
+/**
+ * The flows are called directly rather than through the AI output cache, so an edited prompt is
+ * evaluated even before its version is bumped.
+ */
+export const EVALUATED_FLOWS: EvaluatedFlow[] = [
+  defineEvaluatedFlow({
+    name: 'summarize-sip',
+    task: 'summarizeSip',
+    inputSchema: SummarizeSipInputSchema,
+    outputSchema: AiSummaryOutputSchema,
+    run: summarizeSipContentStructured,
+    texts: output => [output.whatItIs, output.whatItChanges, output.whyItMatters],
+    isFallback: output => output.whatItIs === USER_REQUESTED_FALLBACK_AI_SUMMARY.whatItIs,
+  }),
+  defineEvaluatedFlow({
+    name: 'generate-clean-title',
+    task: 'generateCleanTitle',
+    inputSchema: GenerateCleanTitleInputSchema,
+    outputSchema: GenerateCleanTitleOutputSchema,
+    run: generateCleanSipTitle,
+    texts: output => [output.cleanTitle],
+    // The flow falls back to the original title. A model echoing an already clean title is
+    // indistinguishable, so golden cases use original titles that need rewording.
+    isFallback: (output, input) => output.cleanTitle === input.originalTitle,
+  }),
+  defineEvaluatedFlow({
+    name: 'summarize-discussion',
+    task: 'summarizeDiscussion',
+    inputSchema: SummarizeDiscussionInputSchema,
+    outputSchema: SummarizeDiscussionOutputSchema,
+    run: summarizeDiscussion,
+    texts: output => [output.summary],
+    isFallback: output => isFailedDiscussionSummary(output.summary)
+      || output.summary === NO_COMMENTS_DISCUSSION_SUMMARY
+      || output.summary === MINIMAL_DISCUSSION_SUMMARY,
+  }),
+  defineEvaluatedFlow({
+    name: 'explain-sip-eli5',
+    task: 'explainSipEli5',
+    inputSchema: Eli5SipInputSchema,
+    outputSchema: Eli5SipOutputSchema,
+    run: explainSipEli5,
+    texts: output => [output.eli5Explanation],
+    isFallback: output => output.eli5Explanation === FALLBACK_ELI5_MESSAGE || output.eli5Explanation.startsWith(FAILED_ELI5_MESSAGE_PREFIX),
+  }),
+];
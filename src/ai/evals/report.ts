@@ -0,0 +1,107 @@
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PROMPT_VERSIONS } from '@/ai/prompt_versions';
+import { resolveAiProvider } from '@/ai/providers';
+import type { EvaluatedFlow } from '@/ai/evals/flows';
+import { runChecks, scoreChecks, type CheckResult, type EvalCase } from '@/ai/evals/checks';
+
+export interface CaseReport {
+  id: string;
+  score: number; // 0-1, share of passed checks
+  checks: CheckResult[];
+  output?: unknown;
+  error?: string; // The flow threw; the case scores 0
+  durationMs: number;
+}
+
+export interface FlowEvalReport {
+  flow: string;
+  promptVersion: number;
+  model: string;
+  ranAt: string; // ISO
+  score: number; // 0-1, mean of the case scores
+  passedCases: number; // Cases that passed every check
+  totalCases: number;
+  cases: CaseReport[];
+}
+
+/** Golden cases of `flow`, each input validated against the flow's input schema. */
+export async function loadEvalCases(flow: EvaluatedFlow, datasetDir: string): Promise<EvalCase[]> {
+  const datasetPath = path.join(datasetDir, `${flow.name}.json`);
+  const cases = JSON.parse(await fs.readFile(datasetPath, 'utf8')) as EvalCase[];
+  for (const evalCase of cases) {
+    const parsed = flow.inputSchema.safeParse(evalCase.input);
+    if (!parsed.success) {
+      throw new Error(`Golden case "${evalCase.id}" in ${datasetPath} has an invalid input: ${parsed.error.message}`);
+    }
+  }
+  return cases;
+}
+
+/** The text fields of `output`, tolerating outputs that do not match the schema (that check fails on its own). */
+function outputTexts(flow: EvaluatedFlow, output: unknown): string[] {
+  try {
+    return flow.texts(output).filter((text: unknown): text is string => typeof text === 'string');
+  } catch {
+    return [];
+  }
+}
+
+/** Runs `flow` on each case in turn (one model call at a time keeps rate limits out of the scores). */
+export async function runFlowEval(flow: EvaluatedFlow, cases: EvalCase[], bannedTerms: string[]): Promise<FlowEvalReport> {
+  const caseReports: CaseReport[] = [];
+  for (const evalCase of cases) {
+    const startedAt = Date.now();
+    try {
+      const output = await flow.run(evalCase.input);
+      const checks = runChecks(output, evalCase.expect, {
+        outputSchema: flow.outputSchema,
+        texts: outputTexts(flow, output),
+        isFallback: flow.isFallback(output, evalCase.input),
+        bannedTerms,
+      });
+      caseReports.push({ id: evalCase.id, score: scoreChecks(checks), checks, output, durationMs: Date.now() - startedAt });
+    } catch (error) {
+      caseReports.push({
+        id: evalCase.id,
+        score: 0,
+        checks: [],
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+      });
+    }
+  }
+  return {
+    flow: flow.name,
+    promptVersion: PROMPT_VERSIONS[flow.task],
+    model: resolveAiProvider().model,
+    ranAt: new Date().toISOString(),
+    score: caseReports.length ? caseReports.reduce((sum, report) => sum + report.score, 0) / caseReports.length : 0,
+    passedCases: caseReports.filter(report => report.score === 1).length,
+    totalCases: caseReports.length,
+    cases: caseReports,
+  };
+}
+
+function reportFileName(promptVersion: number, model: string): string {
+  return `v${promptVersion}.${model.replace(/[^a-zA-Z0-9.-]+/g, '_')}.json`;
+}
+
+/** Saves `report` as `<reportsDir>/<flow>/v<version>.<model>.json`, replacing the previous run of that version and model. */
+export async function saveFlowEvalReport(report: FlowEvalReport, reportsDir: string): Promise<string> {
+  const filePath = path.join(reportsDir, report.flow, reportFileName(report.promptVersion, report.model));
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(report, null, 2));
+  return filePath;
+}
+
+/** Every saved report of `flow`, by prompt version then model. */
+export async function loadFlowEvalReports(flow: string, reportsDir: string): Promise<FlowEvalReport[]> {
+  const flowDir = path.join(reportsDir, flow);
+  const fileNames = await fs.readdir(flowDir).catch(() => [] as string[]);
+  const reports = await Promise.all(fileNames
+    .filter(fileName => fileName.endsWith('.json'))
+    .map(async fileName => JSON.parse(await fs.readFile(path.join(flowDir, fileName), 'utf8')) as FlowEvalReport));
+  return reports.sort((a, b) => a.promptVersion - b.promptVersion || a.model.localeCompare(b.model));
+}
@@ -0,0 +1,95 @@
+/**
+ * @fileOverview Input and output schemas of the AI flows, and the fallback outputs they return
+ * when the model cannot answer.
+ *
+ * Flow modules are `'use server'` and may only export async functions, so everything the flows
+ * share with their callers and with the evaluation harness (`src/ai/evals`) lives here.
+ */
+
+import {z} from 'genkit';
+import type { AiSummary } from '@/types/sip';
+
+export const SummarizeSipInputSchema = z.object({
+  sipBody: z.string().describe('The full markdown body of the Sui Improvement Proposal or the body of a Pull Request.').optional(),
+  abstractOrDescription: z.string().describe('A pre-existing abstract or description from the SIP frontmatter, or the SIP title, or a Pull Request title.').optional(),
+});
+
+export const AiSummaryOutputSchema = z.object({
+  whatItIs: z.string().describe("A 1-sentence explanation of what the proposal is."),
+  whatItChanges: z.string().describe("A 1-sentence explanation of what the proposal changes or introduces."),
+  whyItMatters: z.string().describe("A 1-sentence explanation of why this proposal is important or beneficial."),
+});
+
+export const INSUFFICIENT_INFO_MESSAGE = "Insufficient information to summarize this aspect.";
+export const USER_REQUESTED_FALLBACK_AI_SUMMARY: AiSummary = {
+  whatItIs: "No summary available yet.",
+  whatItChanges: "-",
+  whyItMatters: "-",
+};
+
+export const GenerateCleanTitleInputSchema = z.object({
+  originalTitle: z.string().describe('The original title of the Sui Improvement Proposal.'),
+  context: z.string().describe('Sufficient context about the SIP (e.g., summary, abstract, body snippet) for the AI to understand its purpose.'),
+  proposalType: z.string().optional().describe('The type of proposal, e.g., "Standard Track", "Informational".'),
+});
+
+export const GenerateCleanTitleOutputSchema = z.object({
+  cleanTitle: z.string().min(5).max(50).describe('The generated clean title, ideally 2-4 words, max 50 chars. It should summarize the proposal and EXCLUDE "SIP" and proposal numbers.'),
+});
+
+const CommentSchema = z.object({
+  author: z.string().describe('The GitHub username of the commenter.'),
+  body: z.string().describe('The text content of the comment.'),
+});
+
+export const SummarizeDiscussionInputSchema = z.object({
+  sipTitle: z.string().describe('The title of the Sui Improvement Proposal for context.'),
+  comments: z.array(CommentSchema).describe('An array of comments from the GitHub discussion. Each comment includes the author and body text. Bodies may be truncated for brevity.'),
+});
+
+export const SummarizeDiscussionOutputSchema = z.object({
+  summary: z.string().describe('A concise, plain English summary of the key discussion points (concerns, clarifications, approvals, decision drivers). Aim for 2-4 sentences. If comments are not substantial, this should be indicated.'),
+});
+
+export const NO_COMMENTS_DISCUSSION_SUMMARY = "No comments were available to summarize for this proposal.";
+export const MINIMAL_DISCUSSION_SUMMARY = "The discussion appears to be minimal or too brief to provide a detailed summary.";
+export const EMPTY_RESPONSE_DISCUSSION_SUMMARY = "Could not automatically summarize discussion points at this time due to an unexpected AI response.";
+export const FAILED_DISCUSSION_SUMMARY_PREFIX = "Failed to generate discussion summary.";
+
+/** Whether a discussion summary is one the flow fell back to because the model gave no usable answer. */
+export function isFailedDiscussionSummary(summary: string | undefined): boolean {
+  return !summary?.trim() || summary === EMPTY_RESPONSE_DISCUSSION_SUMMARY || summary.startsWith(FAILED_DISCUSSION_SUMMARY_PREFIX);
+}
+
+export const Eli5SipInputSchema = z.object({
+  title: z.string().describe('The title of the Sui Improvement Proposal.'),
+  proposalContext: z.string().describe('The summary, abstract, or main descriptive content of the SIP. This should provide enough context for the ELI5 explanation.'),
+});
+
+export const Eli5SipOutputSchema = z.object({
+  eli5Explanation: z.string().describe('The ELI5 explanation in two short paragraphs. It should answer: What is it doing? Why should I care?'),
+});
+
+export const FALLBACK_ELI5_MESSAGE = "I'm not sure how to explain this one in a super simple way with the information I have!";
+export const FAILED_ELI5_MESSAGE_PREFIX = "Sorry, I had trouble simplifying this right now.";
+
+const PassageSchema = z.object({
+  id: z.string().describe('The passage ID to cite, e.g. "section:motivation" or "comment:123".'),
+  label: z.string().describe('The section heading, "PR description" or the comment author.'),
+  text: z.string().describe('The passage text.'),
+});
+
+export const AnswerSipQuestionInputSchema = z.object({
+  sipTitle: z.string().describe('The title of the Sui Improvement Proposal.'),
+  question: z.string().describe("The reader's question about the proposal."),
+  passages: z.array(PassageSchema).describe('The sections of the proposal, its PR description and its discussion comments.'),
+});
+
+export const AnswerSipQuestionOutputSchema = z.object({
+  answer: z.string().describe('A plain English answer of 1-4 sentences, based only on the passages.'),
+  answered: z.boolean().describe('False if the passages do not contain the answer.'),
+  citedPassageIds: z.array(z.string()).describe('IDs of the passages the answer is based on.'),
+});
+
+export const NO_PASSAGES_ANSWER = "This proposal has no text or discussion to answer questions from yet.";
+export const FAILED_ANSWER_PREFIX = "Could not answer this question right now.";
@@ -0,0 +1,76 @@
+
+'use server';
+/**
+ * @fileOverview AI flow to answer a question about a SIP from its sections, PR description and discussion.
+ *
+ * - answerSipQuestion - A function that answers a question and names the passages the answer is based on.
+ * - AnswerSipQuestionInput - The input type for the answerSipQuestion function.
+ * - AnswerSipQuestionOutput - The output type for the answerSipQuestion function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {AnswerSipQuestionInputSchema, AnswerSipQuestionOutputSchema, NO_PASSAGES_ANSWER, FAILED_ANSWER_PREFIX} from '@/ai/flow-schemas';
+
+export type AnswerSipQuestionInput = z.infer<typeof AnswerSipQuestionInputSchema>;
+export type AnswerSipQuestionOutput = z.infer<typeof AnswerSipQuestionOutputSchema>;
+
+export async function answerSipQuestion(input: AnswerSipQuestionInput): Promise<AnswerSipQuestionOutput> {
+  if (input.passages.length === 0) {
+    return { answer: NO_PASSAGES_ANSWER, answered: false, citedPassageIds: [] };
+  }
+  return answerSipQuestionFlow(input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'answerSipQuestionPrompt',
+  input: {schema: AnswerSipQuestionInputSchema},
+  output: {schema: AnswerSipQuestionOutputSchema},
+  prompt: `You answer questions about a Sui Improvement Proposal (SIP) for developers who have not read it.
+The proposal is titled: "{{sipTitle}}"
+
+Below are the passages of the proposal: its sections, its pull request description and the comments from its discussion. Each passage starts with its ID in square brackets.
+
+{{#each passages}}
+[{{id}}] {{label}}
+{{{text}}}
+---
+{{/each}}
+
+Question: {{{question}}}
+
+Answer the question using ONLY the passages above:
+- Answer directly in 1-4 sentences of plain English. For yes/no questions such as "does this affect X?", start with yes, no or "not directly".
+- In "citedPassageIds", list the IDs of every passage your answer relies on, most important first. Only use IDs shown above.
+- If the passages do not answer the question, set "answered" to false, say briefly what the proposal does cover instead, and cite nothing. Do not guess or use outside knowledge.
+- When comments disagree with the proposal text, say so and cite both.
+Do not use Markdown formatting in your answer.
+`,
+});
+
+const answerSipQuestionFlow = ai.defineFlow(
+  {
+    name: 'answerSipQuestionFlow',
+    inputSchema: AnswerSipQuestionInputSchema,
+    outputSchema: AnswerSipQuestionOutputSchema,
+  },
+  async (input): Promise<AnswerSipQuestionOutput> => {
+    try {
+      const {output} = await prompt(input);
+      if (!output || !output.answer?.trim()) {
+        console.warn("AI prompt for answerSipQuestionFlow returned no answer. Returning a default message.");
+        return { answer: `${FAILED_ANSWER_PREFIX} The AI returned an empty response.`, answered: false, citedPassageIds: [] };
+      }
+      // Models occasionally invent IDs; keep only citations that point at a real passage
+      const knownIds = new Set(input.passages.map(passage => passage.id));
+      const citedPassageIds = [...new Set(output.citedPassageIds || [])].filter(id => knownIds.has(id));
+      if (output.answered && citedPassageIds.length === 0) {
+        console.warn(`[answerSipQuestionFlow] Answer to "${input.question}" cites no known passage.`);
+      }
+      return { answer: output.answer.trim(), answered: output.answered, citedPassageIds };
+    } catch (error) {
+      console.error("Error during answerSipQuestionFlow execution:", error);
+      return { answer: `${FAILED_ANSWER_PREFIX} Error: ${error instanceof Error ? error.message : 'Unknown error'}`, answered: false, citedPassageIds: [] };
+    }
+  }
+);
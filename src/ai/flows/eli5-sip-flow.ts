@@ -10,20 +10,11 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {Eli5SipInputSchema, Eli5SipOutputSchema, FALLBACK_ELI5_MESSAGE, FAILED_ELI5_MESSAGE_PREFIX} from '@/ai/flow-schemas';
 
-const Eli5SipInputSchema = z.object({
-  title: z.string().describe('The title of the Sui Improvement Proposal.'),
-  proposalContext: z.string().describe('The summary, abstract, or main descriptive content of the SIP. This should provide enough context for the ELI5 explanation.'),
-});
 export type Eli5SipInput = z.infer<typeof Eli5SipInputSchema>;
-
-const Eli5SipOutputSchema = z.object({
-  eli5Explanation: z.string().describe('The ELI5 explanation in two short paragraphs. It should answer: What is it doing? Why should I care?'),
-});
 export type Eli5SipOutput = z.infer<typeof Eli5SipOutputSchema>;
 
-const FALLBACK_ELI5_MESSAGE = "I'm not sure how to explain this one in a super simple way with the information I have!";
-
 export async function explainSipEli5(input: Eli5SipInput): Promise<Eli5SipOutput> {
   if (!input.proposalContext || input.proposalContext.trim().length < 10) {
     // If context is too short (e.g. just a title or very brief description), it might be hard for LLM
@@ -66,7 +57,7 @@ const explainSipEli5Flow = ai.defineFlow(
       return output;
     } catch (error) {
       console.error("Error during explainSipEli5Flow execution:", error);
-      return { eli5Explanation: `Sorry, I had trouble simplifying this right now. Please try again later. (Error: ${error instanceof Error ? error.message : 'Unknown'})` };
+      return { eli5Explanation: `${FAILED_ELI5_MESSAGE_PREFIX} Please try again later. (Error: ${error instanceof Error ? error.message : 'Unknown'})` };
     }
   }
 );
@@ -10,17 +10,9 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {GenerateCleanTitleInputSchema, GenerateCleanTitleOutputSchema} from '@/ai/flow-schemas';
 
-const GenerateCleanTitleInputSchema = z.object({
-  originalTitle: z.string().describe('The original title of the Sui Improvement Proposal.'),
-  context: z.string().describe('Sufficient context about the SIP (e.g., summary, abstract, body snippet) for the AI to understand its purpose.'),
-  proposalType: z.string().optional().describe('The type of proposal, e.g., "Standard Track", "Informational".'),
-});
 export type GenerateCleanTitleInput = z.infer<typeof GenerateCleanTitleInputSchema>;
-
-const GenerateCleanTitleOutputSchema = z.object({
-  cleanTitle: z.string().min(5).max(50).describe('The generated clean title, ideally 2-4 words, max 50 chars. It should summarize the proposal and EXCLUDE "SIP" and proposal numbers.'),
-});
 export type GenerateCleanTitleOutput = z.infer<typeof GenerateCleanTitleOutputSchema>;
 
 export async function generateCleanSipTitle(input: GenerateCleanTitleInput): Promise<GenerateCleanTitleOutput> {
@@ -10,29 +10,24 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {
+  SummarizeDiscussionInputSchema,
+  SummarizeDiscussionOutputSchema,
+  NO_COMMENTS_DISCUSSION_SUMMARY,
+  MINIMAL_DISCUSSION_SUMMARY,
+  EMPTY_RESPONSE_DISCUSSION_SUMMARY,
+  FAILED_DISCUSSION_SUMMARY_PREFIX,
+} from '@/ai/flow-schemas';
 
-const CommentSchema = z.object({
-  author: z.string().describe('The GitHub username of the commenter.'),
-  body: z.string().describe('The text content of the comment.'),
-});
-
-const SummarizeDiscussionInputSchema = z.object({
-  sipTitle: z.string().describe('The title of the Sui Improvement Proposal for context.'),
-  comments: z.array(CommentSchema).describe('An array of comments from the GitHub discussion. Each comment includes the author and body text. Bodies may be truncated for brevity.'),
-});
 export type SummarizeDiscussionInput = z.infer<typeof SummarizeDiscussionInputSchema>;
-
-const SummarizeDiscussionOutputSchema = z.object({
-  summary: z.string().describe('A concise, plain English summary of the key discussion points (concerns, clarifications, approvals, decision drivers). Aim for 2-4 sentences. If comments are not substantial, this should be indicated.'),
-});
 export type SummarizeDiscussionOutput = z.infer<typeof SummarizeDiscussionOutputSchema>;
 
 export async function summarizeDiscussion(input: SummarizeDiscussionInput): Promise<SummarizeDiscussionOutput> {
   if (!input.comments || input.comments.length === 0) {
-    return { summary: "No comments were available to summarize for this proposal." };
+    return { summary: NO_COMMENTS_DISCUSSION_SUMMARY };
   }
   if (input.comments.length < 2 && input.comments[0]?.body.length < 50) {
-      return { summary: "The discussion appears to be minimal or too brief to provide a detailed summary."};
+      return { summary: MINIMAL_DISCUSSION_SUMMARY };
   }
   return summarizeDiscussionFlow(input);
 }
@@ -75,12 +70,12 @@ const summarizeDiscussionFlow = ai.defineFlow(
       const {output} = await prompt(input);
       if (!output || !output.summary || output.summary.trim() === "") {
         console.warn("AI prompt for summarizeDiscussionFlow returned empty or no summary. Returning a default message.");
-        return { summary: "Could not automatically summarize discussion points at this time due to an unexpected AI response." };
+        return { summary: EMPTY_RESPONSE_DISCUSSION_SUMMARY };
       }
       return output;
     } catch (error) {
       console.error("Error during summarizeDiscussionFlow execution:", error);
-      return { summary: `Failed to generate discussion summary. Error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      return { summary: `${FAILED_DISCUSSION_SUMMARY_PREFIX} Error: ${error instanceof Error ? error.message : 'Unknown error'}` };
     }
   }
 );
@@ -10,29 +10,12 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {SummarizeSipInputSchema, AiSummaryOutputSchema, INSUFFICIENT_INFO_MESSAGE, USER_REQUESTED_FALLBACK_AI_SUMMARY} from '@/ai/flow-schemas';
 import type { AiSummary as AiSummaryType } from '@/types/sip';
 
-const SummarizeSipInputSchema = z.object({
-  sipBody: z.string().describe('The full markdown body of the Sui Improvement Proposal or the body of a Pull Request.').optional(),
-  abstractOrDescription: z.string().describe('A pre-existing abstract or description from the SIP frontmatter, or the SIP title, or a Pull Request title.').optional(),
-});
 export type SummarizeSipInput = z.infer<typeof SummarizeSipInputSchema>;
-
-const AiSummaryOutputSchema = z.object({
-  whatItIs: z.string().describe("A 1-sentence explanation of what the proposal is."),
-  whatItChanges: z.string().describe("A 1-sentence explanation of what the proposal changes or introduces."),
-  whyItMatters: z.string().describe("A 1-sentence explanation of why this proposal is important or beneficial."),
-});
 export type AiSummary = z.infer<typeof AiSummaryOutputSchema>;
 
-const INSUFFICIENT_INFO_MESSAGE = "Insufficient information to summarize this aspect.";
-const USER_REQUESTED_FALLBACK_AI_SUMMARY: AiSummaryType = {
-  whatItIs: "No summary available yet.",
-  whatItChanges: "-",
-  whyItMatters: "-",
-};
-
-
 export async function summarizeSipContentStructured(input: SummarizeSipInput): Promise<AiSummaryType> {
   // Check if content is too minimal (e.g. less than a few words)
   const bodyLength = input.sipBody?.trim().length || 0;
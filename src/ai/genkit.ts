@@ -1,7 +1,9 @@
 import {genkit} from 'genkit';
-import {googleAI} from '@genkit-ai/googleai';
+import {resolveAiProvider} from '@/ai/providers';
+
+const provider = resolveAiProvider(); // Selected with AI_PROVIDER, see src/ai/providers.ts
 
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-1.5-flash-latest', // Updated model
+  plugins: provider.plugins,
+  model: provider.model,
 });
@@ -0,0 +1,116 @@
+/**
+ * @fileOverview Deterministic stand-in model for running SipView and its flows offline.
+ *
+ * - fakeModelPlugin - A Genkit plugin registering the `fake/sipview` model and `fake/sipview-embedder`.
+ * - FAKE_MODEL_NAME - The model's registry name.
+ * - FAKE_EMBEDDER_NAME - The embedder's registry name.
+ *
+ * The model never touches the network. It answers every request with a canned value that
+ * satisfies the requested output schema, derived from a hash of the prompt so the same prompt
+ * always gets the same answer and different prompts get distinguishable ones. The embedder hashes
+ * words into a fixed number of dimensions, so texts sharing words come out similar; it matches
+ * words, not meaning.
+ */
+
+import { genkitPlugin } from 'genkit/plugin';
+import type { GenerateRequest, GenerateResponseData } from 'genkit/model';
+import { createHash } from 'crypto';
+
+export const FAKE_MODEL_NAME = 'fake/sipview';
+export const FAKE_EMBEDDER_NAME = 'fake/sipview-embedder';
+
+const FAKE_EMBEDDING_DIMENSIONS = 256;
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  minItems?: number;
+  anyOf?: JsonSchema[];
+};
+
+/** "whatItChanges" -> "What it changes" */
+function humanize(propertyName: string): string {
+  const words = propertyName.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function cannedString(label: string, digest: string, schema: JsonSchema): string {
+  let text = `${label} (offline answer ${digest.slice(0, 6)}).`;
+  if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+    text = `${label} ${digest}`.slice(0, schema.maxLength).trim();
+  }
+  while (schema.minLength !== undefined && text.length < schema.minLength) {
+    text += ` ${digest}`;
+  }
+  return schema.maxLength !== undefined ? text.slice(0, schema.maxLength) : text;
+}
+
+/** The simplest value that validates against `schema`, with strings labelled after their property. */
+function cannedValue(schema: JsonSchema | undefined, label: string, digest: string): unknown {
+  if (!schema) return cannedString(label, digest, {});
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+  if (schema.anyOf && schema.anyOf.length > 0) return cannedValue(schema.anyOf[0], label, digest);
+  const type = Array.isArray(schema.type) ? schema.type.find(candidate => candidate !== 'null') : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([name, propertySchema]) =>
+        [name, cannedValue(propertySchema, humanize(name), digest)]
+      ));
+    case 'array':
+      return Array.from({ length: Math.max(schema.minItems ?? 1, 1) }, () => cannedValue(schema.items, label, digest));
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return cannedString(label, digest, schema);
+  }
+}
+
+function promptText(request: GenerateRequest): string {
+  return request.messages.flatMap(message => message.content.map(part => part.text || '')).join('\n');
+}
+
+/** Bag of words hashed into a unit vector. Words are cut to their first 6 letters as a crude stemmer. */
+function hashedEmbedding(text: string): number[] {
+  const vector = new Array<number>(FAKE_EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []) {
+    const digest = createHash('md5').update(word.slice(0, 6)).digest();
+    vector[digest.readUInt16BE(0) % FAKE_EMBEDDING_DIMENSIONS] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+export function fakeModelPlugin() {
+  return genkitPlugin('fake', async ai => {
+    ai.defineModel({
+      name: FAKE_MODEL_NAME,
+      label: 'SipView offline fake model',
+      supports: { multiturn: true, systemRole: true, output: ['text', 'json'], constrained: 'all' },
+    }, async (request): Promise<GenerateResponseData> => {
+      const digest = createHash('sha256').update(promptText(request)).digest('hex').slice(0, 12);
+      const text = request.output?.schema
+        ? JSON.stringify(cannedValue(request.output.schema as JsonSchema, 'Response', digest))
+        : cannedString('This is a canned response from the offline fake model', digest, {});
+      return {
+        message: { role: 'model', content: [{ text }] },
+        finishReason: 'stop',
+      };
+    });
+    ai.defineEmbedder({
+      name: FAKE_EMBEDDER_NAME,
+      info: { label: 'SipView offline fake embedder', dimensions: FAKE_EMBEDDING_DIMENSIONS, supports: { input: ['text'] } },
+    }, async documents => ({
+      embeddings: documents.map(document => ({ embedding: hashedEmbedding(document.text) })),
+    }));
+  });
+}
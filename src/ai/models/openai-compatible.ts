@@ -0,0 +1,117 @@
+/**
+ * @fileOverview Genkit model backed by any OpenAI-compatible chat completions endpoint.
+ *
+ * - openAICompatiblePlugin - A Genkit plugin registering `openai-compatible/<model>` and, if set, the embedder `openai-compatible/<embeddingModel>`.
+ * - OpenAICompatibleOptions - The endpoint, models and optional API key.
+ *
+ * Meant for local servers such as Ollama, llama.cpp or vLLM. Structured output is requested
+ * with a `json_schema` response format, and the schema is also spelled out in a system message
+ * for servers that ignore response formats.
+ */
+
+import { genkitPlugin } from 'genkit/plugin';
+import type { GenerateResponseData, MessageData } from 'genkit/model';
+
+const REQUEST_TIMEOUT_MS = 120000; // Local models can be slow on a cold start
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  embeddingModel?: string; // Served by the endpoint's `/embeddings`, e.g. nomic-embed-text
+  apiKey?: string;
+}
+
+interface EmbeddingsResponse {
+  data: Array<{ embedding: number[]; index: number }>;
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{ message: { content: string | null }; finish_reason: string | null }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+const FINISH_REASONS: Record<string, GenerateResponseData['finishReason']> = {
+  stop: 'stop',
+  length: 'length',
+  content_filter: 'blocked',
+};
+
+function toChatMessage(message: MessageData) {
+  return {
+    role: message.role === 'model' ? 'assistant' : message.role,
+    content: message.content.map(part => part.text || '').join(''),
+  };
+}
+
+export function openAICompatibleModelName(model: string): string {
+  return `openai-compatible/${model}`;
+}
+
+export function openAICompatiblePlugin({ baseUrl, model, embeddingModel, apiKey }: OpenAICompatibleOptions) {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const embeddingsEndpoint = `${baseUrl.replace(/\/+$/, '')}/embeddings`;
+  const headers = {
+    'Content-Type': 'application/json',
+    ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+  };
+  return genkitPlugin('openai-compatible', async ai => {
+    ai.defineModel({
+      name: openAICompatibleModelName(model),
+      label: `OpenAI-compatible endpoint - ${model}`,
+      supports: { multiturn: true, systemRole: true, output: ['text', 'json'], constrained: 'all' },
+    }, async (request): Promise<GenerateResponseData> => {
+      const schema = request.output?.schema;
+      const messages = request.messages.map(toChatMessage);
+      if (schema) {
+        messages.unshift({ role: 'system', content: `Respond only with a JSON object that conforms to this JSON schema:\n${JSON.stringify(schema)}` });
+      }
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: request.config?.temperature,
+          max_tokens: request.config?.maxOutputTokens,
+          response_format: schema ? { type: 'json_schema', json_schema: { name: 'output', schema } } : undefined,
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible endpoint ${endpoint} failed: ${response.status} ${response.statusText}. Body: ${(await response.text()).slice(0, 500)}`);
+      }
+      const completion = await response.json() as ChatCompletionResponse;
+      const choice = completion.choices?.[0];
+      if (!choice) {
+        throw new Error(`OpenAI-compatible endpoint ${endpoint} returned no choices.`);
+      }
+      return {
+        message: { role: 'model', content: [{ text: choice.message.content || '' }] },
+        finishReason: FINISH_REASONS[choice.finish_reason || 'stop'] || 'other',
+        usage: {
+          inputTokens: completion.usage?.prompt_tokens,
+          outputTokens: completion.usage?.completion_tokens,
+        },
+      };
+    });
+
+    if (embeddingModel) {
+      ai.defineEmbedder({
+        name: openAICompatibleModelName(embeddingModel),
+        info: { label: `OpenAI-compatible endpoint - ${embeddingModel}`, supports: { input: ['text'] } },
+      }, async documents => {
+        const response = await fetch(embeddingsEndpoint, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ model: embeddingModel, input: documents.map(document => document.text) }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          throw new Error(`OpenAI-compatible endpoint ${embeddingsEndpoint} failed: ${response.status} ${response.statusText}. Body: ${(await response.text()).slice(0, 500)}`);
+        }
+        const { data } = await response.json() as EmbeddingsResponse;
+        return { embeddings: [...data].sort((a, b) => a.index - b.index).map(item => ({ embedding: item.embedding })) };
+      });
+    }
+  });
+}
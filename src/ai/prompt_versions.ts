@@ -0,0 +1,15 @@
+
+/**
+ * Version of each AI task's prompt. It is part of the key AI outputs are cached under, so bump an
+ * entry whenever its prompt, schema or post-processing changes: only that task's cached outputs
+ * are then regenerated.
+ */
+export const PROMPT_VERSIONS = {
+  summarizeSip: 1,
+  generateCleanTitle: 1,
+  summarizeDiscussion: 1,
+  explainSipEli5: 1,
+  answerSipQuestion: 1,
+} as const;
+
+export type AiTask = keyof typeof PROMPT_VERSIONS;
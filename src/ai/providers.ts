@@ -0,0 +1,72 @@
+/**
+ * @fileOverview Registry of the model providers SipView's Genkit flows can run on.
+ *
+ * - resolveAiProvider - The provider selected by `AI_PROVIDER`, with its plugins, default model and embedder.
+ * - AiProviderId - The known provider IDs.
+ *
+ * Providers:
+ * - `googleai` (default): Gemini through Google AI. Needs `GOOGLE_API_KEY`.
+ * - `openai-compatible`: any OpenAI-compatible endpoint, e.g. a local Ollama server. Set
+ *   `OPENAI_COMPATIBLE_BASE_URL` and, if needed, `OPENAI_COMPATIBLE_API_KEY`.
+ * - `fake`: a deterministic offline model returning schema-valid canned outputs.
+ * `AI_MODEL` picks the provider's model, e.g. `gemini-1.5-pro` or `qwen2.5:7b`, and `AI_EMBEDDING_MODEL`
+ * its embedding model, e.g. `nomic-embed-text`. The fake provider has one of each. `AI_SEARCH_MIN_SCORE`
+ * overrides the similarity a semantic search match needs, which depends on the embedding model.
+ */
+
+import type { GenkitPlugin } from 'genkit/plugin';
+import { googleAI } from '@genkit-ai/googleai';
+import { fakeModelPlugin, FAKE_MODEL_NAME, FAKE_EMBEDDER_NAME } from '@/ai/models/fake-model';
+import { openAICompatiblePlugin, openAICompatibleModelName } from '@/ai/models/openai-compatible';
+
+export interface AiProvider {
+  id: AiProviderId;
+  plugins: GenkitPlugin[];
+  model: string; // Registry name of the model flows run on, e.g. "googleai/gemini-1.5-flash-latest"
+  embedder: string; // Registry name of the embedder semantic search runs on, e.g. "googleai/text-embedding-004"
+  minSearchScore: number; // Cosine similarity below which the embedder's matches are unrelated text
+}
+
+const AI_PROVIDERS = {
+  'googleai': () => ({
+    plugins: [googleAI()],
+    model: `googleai/${process.env.AI_MODEL || 'gemini-1.5-flash-latest'}`,
+    embedder: `googleai/${process.env.AI_EMBEDDING_MODEL || 'text-embedding-004'}`,
+    minSearchScore: 0.5,
+  }),
+  'openai-compatible': () => {
+    const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1';
+    const model = process.env.AI_MODEL || 'llama3.1';
+    const embeddingModel = process.env.AI_EMBEDDING_MODEL || 'nomic-embed-text';
+    return {
+      plugins: [openAICompatiblePlugin({ baseUrl, model, embeddingModel, apiKey: process.env.OPENAI_COMPATIBLE_API_KEY })],
+      model: openAICompatibleModelName(model),
+      embedder: openAICompatibleModelName(embeddingModel),
+      minSearchScore: 0.45,
+    };
+  },
+  'fake': () => ({
+    plugins: [fakeModelPlugin()],
+    model: FAKE_MODEL_NAME,
+    embedder: FAKE_EMBEDDER_NAME,
+    minSearchScore: 0.05, // Word-hash vectors of a short query and a long passage overlap little
+  }),
+} satisfies Record<string, () => Omit<AiProvider, 'id'>>;
+
+export type AiProviderId = keyof typeof AI_PROVIDERS;
+
+let resolvedProvider: AiProvider | null = null;
+
+export function resolveAiProvider(): AiProvider {
+  if (!resolvedProvider) {
+    let id = (process.env.AI_PROVIDER || 'googleai').toLowerCase() as AiProviderId;
+    if (!(id in AI_PROVIDERS)) {
+      console.warn(`Unknown AI_PROVIDER '${id}'. Falling back to googleai.`);
+      id = 'googleai';
+    }
+    const provider = AI_PROVIDERS[id]();
+    const minSearchScore = process.env.AI_SEARCH_MIN_SCORE ? Number(process.env.AI_SEARCH_MIN_SCORE) : NaN;
+    resolvedProvider = { id, ...provider, minSearchScore: Number.isFinite(minSearchScore) ? minSearchScore : provider.minSearchScore };
+  }
+  return resolvedProvider;
+}
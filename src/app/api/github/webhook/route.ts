@@ -0,0 +1,62 @@
+
+import { NextResponse, after } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import {
+  verifyWebhookSignature,
+  SIGNATURE_HEADER,
+  EVENT_HEADER,
+  DELIVERY_HEADER,
+} from '@/lib/github_webhooks';
+import { planGitHubWebhook } from '@/lib/sips_webhooks';
+
+const LIST_PAGE_PATHS = ['/', '/recent', '/topics'];
+
+export async function POST(request: Request) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('GitHub webhook: GITHUB_WEBHOOK_SECRET is not set. Rejecting delivery.');
+    return NextResponse.json({ error: 'Webhook secret not configured' }, { status: 503 });
+  }
+
+  const rawBody = await request.text();
+  const deliveryId = request.headers.get(DELIVERY_HEADER) || 'unknown';
+  if (!verifyWebhookSignature(secret, rawBody, request.headers.get(SIGNATURE_HEADER))) {
+    console.warn(`GitHub webhook: Invalid signature for delivery ${deliveryId}.`);
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  const event = request.headers.get(EVENT_HEADER);
+  if (!event) {
+    return NextResponse.json({ error: `Missing ${EVENT_HEADER} header` }, { status: 400 });
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: 'Payload is not valid JSON' }, { status: 400 });
+  }
+
+  const plan = await planGitHubWebhook(event, payload);
+  if (!plan.handled) {
+    console.log(`GitHub webhook: Delivery ${deliveryId} (${event}) ignored: ${plan.reason}.`);
+    return NextResponse.json({ event, deliveryId, handled: false, reason: plan.reason });
+  }
+
+  // GitHub gives up on deliveries after 10 seconds, so the refresh runs after the response.
+  after(async () => {
+    try {
+      const sipIds = await plan.apply();
+      console.log(`GitHub webhook: Delivery ${deliveryId} (${event}) affected ${sipIds.length} SIPs.`);
+      for (const sipId of sipIds) {
+        revalidatePath(`/sips/${sipId}`);
+      }
+      if (plan.datasetChanged) {
+        LIST_PAGE_PATHS.forEach(path => revalidatePath(path));
+      }
+    } catch (error) {
+      console.error(`GitHub webhook: Delivery ${deliveryId} (${event}) failed.`, error);
+    }
+  });
+  return NextResponse.json({ event, deliveryId, handled: true, datasetChanged: plan.datasetChanged }, { status: 202 });
+}
@@ -0,0 +1,46 @@
+
+import { NextResponse } from 'next/server';
+import { answerQuestionAboutSip } from '@/lib/sips';
+import { createRateLimiter, clientAddress } from '@/lib/rate_limit';
+
+const MAX_QUESTION_LENGTH = 500; // As the question box allows
+const askLimiter = createRateLimiter({ limit: 10, windowMs: 60 * 1000 }); // Questions per client and minute
+
+interface SipAskRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * `POST /api/sips/:id/ask` with `{ "question": "..." }` answers a question about the SIP, with
+ * citations. Every new question costs a model call, so clients are rate limited; repeated
+ * questions are answered from the stored AI outputs.
+ */
+export async function POST(request: Request, { params }: SipAskRouteContext) {
+  const { id } = await params;
+  const retryAfterSeconds = askLimiter.take(clientAddress(request));
+  if (retryAfterSeconds > 0) {
+    return NextResponse.json(
+      { error: `Too many questions. Try again in ${retryAfterSeconds} seconds.` },
+      { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } },
+    );
+  }
+  const body = await request.json().catch(() => null);
+  const question = typeof body?.question === 'string' ? body.question.trim() : '';
+  if (question.length < 3) {
+    return NextResponse.json({ error: 'Ask a question of at least 3 characters.' }, { status: 400 });
+  }
+  if (question.length > MAX_QUESTION_LENGTH) {
+    return NextResponse.json({ error: `Ask a question of at most ${MAX_QUESTION_LENGTH} characters.` }, { status: 400 });
+  }
+
+  try {
+    const answer = await answerQuestionAboutSip(id, question);
+    if (!answer) {
+      return NextResponse.json({ error: `SIP ${id} not found` }, { status: 404 });
+    }
+    return NextResponse.json(answer);
+  } catch (error) {
+    console.error(`Answering a question about SIP ${id} failed:`, error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to answer the question.' }, { status: 502 });
+  }
+}
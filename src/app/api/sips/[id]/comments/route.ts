@@ -0,0 +1,21 @@
+
+import { NextResponse } from 'next/server';
+import { getSipComments } from '@/lib/sips';
+
+interface SipCommentsRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** `GET /api/sips/:id/comments?page=2&perPage=15` returns one page of the SIP's PR discussion. */
+export async function GET(request: Request, { params }: SipCommentsRouteContext) {
+  const { id } = await params;
+  const searchParams = new URL(request.url).searchParams;
+  const page = Number(searchParams.get('page') || '1');
+  const perPage = searchParams.get('perPage') ? Number(searchParams.get('perPage')) : undefined;
+
+  const commentPage = await getSipComments(id, page, perPage);
+  if (!commentPage) {
+    return NextResponse.json({ error: `SIP ${id} not found` }, { status: 404 });
+  }
+  return NextResponse.json(commentPage);
+}
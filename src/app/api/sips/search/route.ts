@@ -0,0 +1,40 @@
+
+import { NextResponse } from 'next/server';
+import { searchSips } from '@/lib/sips';
+import { createRateLimiter, clientAddress } from '@/lib/rate_limit';
+
+const MAX_QUERY_LENGTH = 500;
+const searchLimiter = createRateLimiter({ limit: 30, windowMs: 60 * 1000 }); // Searches per client and minute
+const CACHE_CONTROL = 'public, max-age=60, s-maxage=300'; // Complete results only; the dataset refreshes every few minutes
+
+/**
+ * `GET /api/sips/search?q=reduce+storage+costs&limit=20` ranks SIPs by semantic similarity to the
+ * query. Every new query is embedded by the model, so clients are rate limited and complete
+ * results are cacheable.
+ */
+export async function GET(request: Request) {
+  const retryAfterSeconds = searchLimiter.take(clientAddress(request));
+  if (retryAfterSeconds > 0) {
+    return NextResponse.json(
+      { error: `Too many searches. Try again in ${retryAfterSeconds} seconds.` },
+      { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } },
+    );
+  }
+  const searchParams = new URL(request.url).searchParams;
+  const query = searchParams.get('q')?.trim() || '';
+  if (!query) {
+    return NextResponse.json({ error: 'Missing search query `q`.' }, { status: 400 });
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json({ error: `Search queries are limited to ${MAX_QUERY_LENGTH} characters.` }, { status: 400 });
+  }
+  const limit = searchParams.get('limit') ? Number(searchParams.get('limit')) : undefined;
+
+  try {
+    const response = await searchSips(query, limit);
+    return NextResponse.json(response, response.indexing ? undefined : { headers: { 'Cache-Control': CACHE_CONTROL } });
+  } catch (error) {
+    console.error(`Semantic search for "${query}" failed:`, error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Semantic search failed.' }, { status: 502 });
+  }
+}
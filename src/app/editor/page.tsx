@@ -0,0 +1,38 @@
+import { getAllSips } from '@/lib/sips';
+import { isGenericProposalId } from '@/lib/sip_repositories';
+import SipEditorView, { type SipNumberCollision } from '@/components/SipEditorView';
+import type { Metadata } from 'next';
+import type { SIP } from '@/types/sip';
+
+export const revalidate = 60; // Revalidate data every 60 seconds
+
+export const metadata: Metadata = {
+  title: 'Editor View - SipView',
+};
+
+export default async function SipEditorPage() {
+  const sips: SIP[] = await getAllSips();
+
+  const collisionsById = new Map<string, SIP[]>();
+  for (const sip of sips) {
+    if (!sip.conflict) continue;
+    collisionsById.set(sip.conflict.claimedId, [...(collisionsById.get(sip.conflict.claimedId) || []), sip]);
+  }
+  const collisions: SipNumberCollision[] = Array.from(collisionsById, ([claimedId, claimants]) => ({
+    claimedId,
+    sips: claimants.sort((a, b) => (a.id === claimedId ? -1 : b.id === claimedId ? 1 : a.id.localeCompare(b.id))),
+  }));
+  const orphanedSips = sips.filter(sip => isGenericProposalId(sip.id));
+
+  return (
+    <div className="w-full space-y-8">
+      <div>
+        <h1 className="font-headline text-4xl font-bold tracking-tight">Editor View</h1>
+        <p className="text-lg text-muted-foreground mt-2">
+          SIP number collisions and proposals without a number, so competing drafts are not lost.
+        </p>
+      </div>
+      <SipEditorView collisions={collisions} orphanedSips={orphanedSips} />
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { Skeleton } from "@/components/ui/skeleton";
+
+export default function GraphLoading() {
+  return (
+    <div className="w-full space-y-8">
+      {/* Header Skeleton */}
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-1/2 rounded-lg" />
+        <Skeleton className="h-6 w-3/4 rounded-lg" />
+      </div>
+
+      {/* Filter Skeleton */}
+      <Skeleton className="h-10 w-full md:w-1/2 rounded-lg" />
+
+      {/* Graph Skeleton */}
+      <Skeleton className="w-full aspect-[3/2] rounded-lg" />
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { getAllSips } from '@/lib/sips';
+import { groupSipsByTopic, TOPIC_CATEGORIES, type TopicCategory } from '@/lib/sips_categorization';
+import { buildRelationEdges } from '@/lib/sip_references';
+import SipGraphClient, { type SipGraphNode } from '@/components/SipGraphClient';
+import type { Metadata } from 'next';
+import type { SIP } from '@/types/sip';
+
+export const revalidate = 300; // Revalidate data every 5 minutes
+
+export const metadata: Metadata = {
+  title: 'Dependency Graph - SipView',
+};
+
+export default async function SipGraphPage() {
+  const sips: SIP[] = await getAllSips();
+  const topicsBySipId = new Map<string, TopicCategory[]>();
+  for (const [topic, topicSips] of groupSipsByTopic(sips)) {
+    topicSips.forEach(sip => topicsBySipId.set(sip.id, [...(topicsBySipId.get(sip.id) || []), topic]));
+  }
+  const nodes: SipGraphNode[] = sips.map(sip => ({
+    id: sip.id,
+    title: sip.cleanTitle || sip.title,
+    status: sip.status,
+    topics: topicsBySipId.get(sip.id) || [],
+  }));
+
+  return (
+    <div className="w-full space-y-8 animate-in fade-in-0 duration-500 ease-out">
+      <div>
+        <h1 className="font-headline text-4xl font-bold tracking-tight">Dependency Graph</h1>
+        <p className="text-lg text-muted-foreground mt-2">
+          How proposals require, supersede and mention each other. Click a proposal to open it.
+        </p>
+      </div>
+      <SipGraphClient nodes={nodes} edges={buildRelationEdges(sips)} topicOrder={TOPIC_CATEGORIES} />
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { Skeleton } from "@/components/ui/skeleton";
+
+export default function LintLoading() {
+  return (
+    <div className="w-full space-y-8">
+      {/* Header Skeleton */}
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-1/2 rounded-lg" />
+        <Skeleton className="h-6 w-3/4 rounded-lg" />
+      </div>
+
+      {/* Filter Skeleton */}
+      <Skeleton className="h-12 w-full rounded-lg" />
+
+      {/* Report Card Skeletons */}
+      <div className="space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="border bg-card rounded-lg shadow-sm p-6 space-y-3">
+            <Skeleton className="h-5 w-1/2 rounded" />
+            <Skeleton className="h-4 w-5/6 rounded" />
+            <Skeleton className="h-4 w-2/3 rounded" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { getAllSips } from '@/lib/sips';
+import SipLintReportClient from '@/components/SipLintReportClient';
+import type { Metadata } from 'next';
+import type { SIP } from '@/types/sip';
+
+export const revalidate = 60; // Revalidate data every 60 seconds
+
+export const metadata: Metadata = {
+  title: 'Metadata Lint Report - SipView',
+};
+
+export default async function SipLintPage() {
+  const sips: SIP[] = await getAllSips();
+  const checkedSips = sips.filter(sip => sip.lintIssues !== undefined);
+  const sipsWithIssues = checkedSips.filter(sip => sip.lintIssues!.length > 0);
+
+  return (
+    <div className="w-full space-y-8">
+      <div>
+        <h1 className="font-headline text-4xl font-bold tracking-tight">Metadata Lint Report</h1>
+        <p className="text-lg text-muted-foreground mt-2">
+          Frontmatter problems across all SIP files, so authoring mistakes can be fixed before merge.
+        </p>
+      </div>
+      <SipLintReportClient sips={sipsWithIssues} checkedCount={checkedSips.length} />
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
-import { getAllSips } from '@/lib/sips';
+import { getAllSips, getSipRepositories, getSipSyncStatus } from '@/lib/sips';
 import SipTableClient from '@/components/SipTableClient';
-import type { SIP } from '@/types/sip';
+import SipSyncStatus from '@/components/SipSyncStatus';
 
 export const revalidate = 60; // Revalidate data every 60 seconds
 
 export default async function HomePage() {
-  const sips: SIP[] = await getAllSips();
+  const [sips, repositories] = await Promise.all([getAllSips(), getSipRepositories()]);
+  const syncStatus = await getSipSyncStatus(); // After getAllSips, which may have started a refresh
 
   return (
     <div className="w-full space-y-8 animate-in fade-in-0 duration-500 ease-out">
@@ -14,8 +15,9 @@ export default async function HomePage() {
         <p className="text-lg text-muted-foreground mt-2">
           Browse, search, and explore all SIPs in the Sui ecosystem.
         </p>
+        <SipSyncStatus status={syncStatus} className="mt-2" />
       </div>
-      <SipTableClient sips={sips} />
+      <SipTableClient sips={sips} repositories={repositories} />
     </div>
   );
 }
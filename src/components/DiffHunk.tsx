@@ -0,0 +1,114 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Highlight, themes, type Token } from 'prism-react-renderer';
+import { useTheme } from 'next-themes';
+import { cn } from '@/lib/utils';
+
+interface DiffHunkProps {
+  hunk: string;
+  filePath?: string; // Picks the syntax highlighting; hunks of unknown file types are shown as plain text
+  maxCollapsedLines?: number; // Lines shown (from the end, where the comment points) until expanded
+}
+
+interface HunkLine {
+  kind: 'header' | 'added' | 'removed' | 'context';
+  text: string;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+  codeIndex?: number; // Line of the hunk's code (the hunk without headers and +/- markers)
+}
+
+// Prism grammars bundled with prism-react-renderer, by file extension. Move reads well as Rust.
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  md: 'markdown', markdown: 'markdown',
+  move: 'rust', rs: 'rust',
+  ts: 'typescript', tsx: 'tsx', js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript',
+  json: 'json', yaml: 'yaml', yml: 'yaml',
+  py: 'python', go: 'go', sql: 'sql', graphql: 'graphql', css: 'css',
+  html: 'markup', xml: 'markup', svg: 'markup',
+  c: 'c', h: 'c', cpp: 'cpp', hpp: 'cpp', swift: 'swift', kt: 'kotlin',
+};
+
+function languageOf(filePath: string | undefined): string | null {
+  const extension = filePath?.split('/').pop()?.split('.').slice(1).pop()?.toLowerCase();
+  return (extension && LANGUAGE_BY_EXTENSION[extension]) || null;
+}
+
+function parseHunk(hunk: string): HunkLine[] {
+  let oldLine = 0;
+  let newLine = 0;
+  let codeIndex = 0;
+  return hunk.split('\n').map((text): HunkLine => {
+    const header = text.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (header) {
+      oldLine = Number(header[1]);
+      newLine = Number(header[2]);
+      return { kind: 'header', text };
+    }
+    if (text.startsWith('+')) return { kind: 'added', text, newLineNumber: newLine++, codeIndex: codeIndex++ };
+    if (text.startsWith('-')) return { kind: 'removed', text, oldLineNumber: oldLine++, codeIndex: codeIndex++ };
+    return { kind: 'context', text, oldLineNumber: oldLine++, newLineNumber: newLine++, codeIndex: codeIndex++ };
+  });
+}
+
+const lineClasses: Record<HunkLine['kind'], string> = {
+  header: 'bg-primary/10 text-primary/80',
+  added: 'bg-green-500/15 text-green-800 dark:text-green-300',
+  removed: 'bg-red-500/15 text-red-800 dark:text-red-300',
+  context: 'text-foreground/80',
+};
+
+/**
+ * Renders a unified diff hunk with line numbers, +/- highlighting and syntax highlighting by the
+ * file's extension, collapsed to its tail. The code is highlighted as one piece, so constructs
+ * spanning lines (fenced blocks, comments) keep their colours.
+ */
+export default function DiffHunk({ hunk, filePath, maxCollapsedLines = 8 }: DiffHunkProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { resolvedTheme } = useTheme();
+  const lines = useMemo(() => parseHunk(hunk), [hunk]);
+  const code = useMemo(() => lines.filter(line => line.codeIndex !== undefined).map(line => line.text.slice(1)).join('\n'), [lines]);
+  const language = languageOf(filePath);
+  const hiddenLineCount = isExpanded ? 0 : Math.max(0, lines.length - maxCollapsedLines);
+  const visibleLines = lines.slice(hiddenLineCount);
+
+  const renderLines = (codeTokens: Token[][] | null, getTokenProps?: (input: { token: Token }) => React.HTMLAttributes<HTMLSpanElement>) => (
+    visibleLines.map((line, index) => {
+      const tokens = line.codeIndex !== undefined ? codeTokens?.[line.codeIndex] : undefined;
+      return (
+        <div key={index} className={cn('flex', lineClasses[line.kind])}>
+          <span className="w-9 shrink-0 select-none pr-1 text-right text-muted-foreground/60">{line.oldLineNumber ?? ''}</span>
+          <span className="w-9 shrink-0 select-none pr-2 text-right text-muted-foreground/60">{line.newLineNumber ?? ''}</span>
+          <span className="whitespace-pre-wrap break-words pr-2">
+            {tokens && getTokenProps ? (
+              <>
+                {line.text.charAt(0) || ' '}
+                {tokens.map((token, tokenIndex) => <span key={tokenIndex} {...getTokenProps({ token })} />)}
+              </>
+            ) : (line.text || ' ')}
+          </span>
+        </div>
+      );
+    })
+  );
+
+  return (
+    <div className="overflow-x-auto rounded-md border bg-muted/20 font-mono text-xs">
+      {hiddenLineCount > 0 && (
+        <button
+          type="button"
+          onClick={() => setIsExpanded(true)}
+          className="w-full bg-muted/40 px-3 py-1 text-left text-muted-foreground hover:bg-muted/60"
+        >
+          Show {hiddenLineCount} more lines of context
+        </button>
+      )}
+      {language ? (
+        <Highlight code={code} language={language} theme={resolvedTheme === 'dark' ? themes.vsDark : themes.vsLight}>
+          {({ tokens, getTokenProps }) => <>{renderLines(tokens, getTokenProps)}</>}
+        </Highlight>
+      ) : renderLines(null)}
+    </div>
+  );
+}
@@ -3,9 +3,12 @@
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import type { Components } from 'react-markdown';
+import React from 'react';
+import { headingAnchor } from '@/lib/sip_passages';
 
 interface MarkdownRendererProps {
   content: string;
+  anchorHeadings?: boolean; // Give headings GitHub-style IDs, so answers can link to a section
 }
 
 // Custom components to style markdown elements with Tailwind CSS
@@ -40,10 +43,29 @@ const customComponents: Components = {
   td: ({node, ...props}) => <td className="border border-border px-4 py-2" {...props} />,
 };
 
-export default function MarkdownRenderer({ content }: MarkdownRendererProps) {
+function textContent(children: React.ReactNode): string {
+  return React.Children.toArray(children).map(child => {
+    if (typeof child === 'string' || typeof child === 'number') return String(child);
+    if (React.isValidElement<{ children?: React.ReactNode }>(child)) return textContent(child.props.children);
+    return '';
+  }).join('');
+}
+
+// Same anchors as the sections questions are answered from, see src/lib/sip_passages.ts
+const anchoredComponents: Components = {
+  ...customComponents,
+  h1: ({node, children, ...props}) => <h1 id={headingAnchor(textContent(children))} className="font-headline text-3xl font-bold mt-6 mb-4 scroll-mt-20" {...props}>{children}</h1>,
+  h2: ({node, children, ...props}) => <h2 id={headingAnchor(textContent(children))} className="font-headline text-2xl font-bold mt-5 mb-3 border-b pb-2 scroll-mt-20" {...props}>{children}</h2>,
+  h3: ({node, children, ...props}) => <h3 id={headingAnchor(textContent(children))} className="font-headline text-xl font-semibold mt-4 mb-2 scroll-mt-20" {...props}>{children}</h3>,
+  h4: ({node, children, ...props}) => <h4 id={headingAnchor(textContent(children))} className="font-headline text-lg font-semibold mt-3 mb-1 scroll-mt-20" {...props}>{children}</h4>,
+  h5: ({node, children, ...props}) => <h5 id={headingAnchor(textContent(children))} className="font-headline font-semibold mt-3 mb-1 scroll-mt-20" {...props}>{children}</h5>,
+  h6: ({node, children, ...props}) => <h6 id={headingAnchor(textContent(children))} className="font-headline font-semibold mt-3 mb-1 scroll-mt-20" {...props}>{children}</h6>,
+};
+
+export default function MarkdownRenderer({ content, anchorHeadings }: MarkdownRendererProps) {
   return (
     <div className="prose dark:prose-invert max-w-none">
-      <ReactMarkdown components={customComponents} remarkPlugins={[remarkGfm]}>
+      <ReactMarkdown components={anchorHeadings ? anchoredComponents : customComponents} remarkPlugins={[remarkGfm]}>
         {content}
       </ReactMarkdown>
     </div>
@@ -22,6 +22,9 @@ import { ArrowUpDown, Search, X, ExternalLink } from 'lucide-react';
 import { format, parseISO, isValid } from 'date-fns';
 import { getPrimaryTopicEmoji } from '@/lib/sips_categorization';
 import { cn } from '@/lib/utils';
+import SearchModeToggle from '@/components/SearchModeToggle';
+import SipSearchPassage from '@/components/SipSearchPassage';
+import { useSemanticSipSearch, type SipSearchMode } from '@/hooks/use-semantic-sip-search';
 import { getFriendlySipStatusLabel } from '@/lib/sips_utils';
 
 interface RecentlyUpdatedSipsClientProps {
@@ -89,6 +92,7 @@ export default function RecentlyUpdatedSipsClient({ sips: initialSips }: Recentl
   const router = useRouter();
   const [sips, setSips] = useState(initialSips);
   const [searchTerm, setSearchTerm] = useState('');
+  const [searchMode, setSearchMode] = useState<SipSearchMode>('keyword');
   // Default sort for this view is by 'updatedAt' descending
   const [sortKey, setSortKey] = useState<SortKey>('updatedAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
@@ -128,10 +132,13 @@ export default function RecentlyUpdatedSipsClient({ sips: initialSips }: Recentl
     }
   };
 
+  const semanticSearch = useSemanticSipSearch(searchTerm, searchMode === 'semantic');
+  const isSemanticQuery = searchMode === 'semantic' && searchTerm.trim() !== '';
+
   const filteredAndSortedSips = useMemo(() => {
     let filtered = sips.filter(sip => {
       const titleToSearch = sip.cleanTitle || sip.title;
-      const searchMatch =
+      const searchMatch = isSemanticQuery ? Boolean(semanticSearch.results?.has(sip.id)) :
         titleToSearch.toLowerCase().includes(searchTerm.toLowerCase()) ||
         sip.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
         sip.summary.toLowerCase().includes(searchTerm.toLowerCase());
@@ -141,7 +148,10 @@ export default function RecentlyUpdatedSipsClient({ sips: initialSips }: Recentl
       return searchMatch && statusMatch;
     });
 
-    if (sortKey) {
+    if (isSemanticQuery) {
+      // Semantic results are ranked by similarity; the column sort applies again in keyword mode
+      filtered.sort((a, b) => (semanticSearch.results?.get(b.id)?.score ?? 0) - (semanticSearch.results?.get(a.id)?.score ?? 0));
+    } else if (sortKey) {
       filtered.sort((a, b) => {
         let valA: any;
         let valB: any;
@@ -178,7 +188,7 @@ export default function RecentlyUpdatedSipsClient({ sips: initialSips }: Recentl
       });
     }
     return filtered;
-  }, [sips, searchTerm, sortKey, sortOrder, selectedStatuses, formatDate]);
+  }, [sips, searchTerm, sortKey, sortOrder, selectedStatuses, formatDate, isSemanticQuery, semanticSearch.results]);
 
   const renderSortIcon = (key: SortKey) => {
     if (sortKey === key) {
@@ -206,12 +216,13 @@ export default function RecentlyUpdatedSipsClient({ sips: initialSips }: Recentl
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
             <Input
               type="text"
-              placeholder="Search SIPs by ID, title, or summary..."
+              placeholder={searchMode === 'semantic' ? 'Describe what you are looking for, e.g. "reduce storage costs for objects"' : "Search SIPs by ID, title, or summary..."}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="pl-10 w-full shadow-sm"
             />
           </div>
+          <SearchModeToggle mode={searchMode} onModeChange={setSearchMode} isSearching={semanticSearch.isSearching} isIndexing={semanticSearch.isIndexing} error={semanticSearch.error} />
         </div>
 
         <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
@@ -277,6 +288,9 @@ export default function RecentlyUpdatedSipsClient({ sips: initialSips }: Recentl
                             <TableCell className="font-medium">
                               <span role="img" aria-label="topic icon" className="mr-2">{topicEmoji}</span>
                               {sip.cleanTitle || sip.title}
+                              {isSemanticQuery && semanticSearch.results?.get(sip.id) && (
+                                <SipSearchPassage sipId={sip.id} result={semanticSearch.results.get(sip.id)!} query={searchTerm} />
+                              )}
                             </TableCell>
                             <TableCell>
                               <StatusBadge status={sip.status} />
@@ -316,7 +330,7 @@ export default function RecentlyUpdatedSipsClient({ sips: initialSips }: Recentl
                   {filteredAndSortedSips.length === 0 && (
                     <TableRow>
                       <TableCell colSpan={5} className="text-center h-24 text-muted-foreground">
-                        No SIPs found matching your criteria.
+                        {isSemanticQuery && semanticSearch.isSearching ? "Searching..." : "No SIPs found matching your criteria."}
                       </TableCell>
                     </TableRow>
                   )}
@@ -0,0 +1,46 @@
+"use client";
+
+import type { SipSearchMode } from '@/hooks/use-semantic-sip-search';
+import { Button } from '@/components/ui/button';
+import { Sparkles, Type } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface SearchModeToggleProps {
+  mode: SipSearchMode;
+  onModeChange: (mode: SipSearchMode) => void;
+  isSearching?: boolean;
+  isIndexing?: boolean;
+  error?: string | null;
+}
+
+const MODES: Array<{ mode: SipSearchMode; label: string; icon: typeof Type; description: string }> = [
+  { mode: 'keyword', label: 'Keyword', icon: Type, description: 'Match words in the ID, title and summary' },
+  { mode: 'semantic', label: 'Semantic', icon: Sparkles, description: 'Rank proposals by meaning, including ones that use other words' },
+];
+
+/** Switches a SIP list between keyword filtering and semantic search, with the semantic search's progress. */
+export default function SearchModeToggle({ mode, onModeChange, isSearching, isIndexing, error }: SearchModeToggleProps) {
+  return (
+    <div className="flex items-center gap-3 shrink-0">
+      <div className="inline-flex rounded-md border shadow-sm" role="group" aria-label="Search mode">
+        {MODES.map(({ mode: option, label, icon: IconComponent, description }) => (
+          <Button
+            key={option}
+            type="button"
+            variant={mode === option ? "default" : "ghost"}
+            size="sm"
+            title={description}
+            aria-pressed={mode === option}
+            onClick={() => onModeChange(option)}
+            className={cn("rounded-none first:rounded-l-md last:rounded-r-md", mode === option && "bg-primary text-primary-foreground hover:bg-primary/90")}
+          >
+            <IconComponent className="mr-1.5 h-4 w-4" /> {label}
+          </Button>
+        ))}
+      </div>
+      {mode === 'semantic' && isSearching && <span className="text-xs text-muted-foreground animate-pulse">Searching...</span>}
+      {mode === 'semantic' && !isSearching && isIndexing && <span className="text-xs text-muted-foreground">Proposals are still being indexed; results may be incomplete.</span>}
+      {mode === 'semantic' && error && <span className="text-xs text-destructive">{error}</span>}
+    </div>
+  );
+}
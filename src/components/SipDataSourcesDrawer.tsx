@@ -0,0 +1,102 @@
+
+"use client";
+
+import type { SIP, SipProvenanceField, SipFieldOrigin } from '@/types/sip';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Database, FileCode, GitPullRequest } from 'lucide-react';
+import { format, parseISO, isValid } from 'date-fns';
+import React from 'react';
+
+interface SipDataSourcesDrawerProps {
+  sip: SIP;
+}
+
+const FIELD_LABELS: Record<SipProvenanceField, string> = {
+  title: 'Title',
+  status: 'Status',
+  summary: 'Summary',
+  body: 'Body',
+  createdAt: 'Created',
+  updatedAt: 'Updated',
+  mergedAt: 'Merged',
+  closedAt: 'Closed',
+  author: 'Author',
+  prNumber: 'PR number',
+  prUrl: 'Link',
+  filePath: 'File',
+  labels: 'Labels',
+  type: 'Type',
+};
+
+const DATE_FIELDS: SipProvenanceField[] = ['createdAt', 'updatedAt', 'mergedAt', 'closedAt'];
+
+function previewValue(sip: SIP, field: SipProvenanceField): string {
+  const value = sip[field];
+  if (DATE_FIELDS.includes(field) && typeof value === 'string') {
+    const date = parseISO(value);
+    return isValid(date) ? format(date, 'MMM d, yyyy') : value;
+  }
+  if (field === 'body' && typeof value === 'string') {
+    return `${value.trim().split(/\s+/).filter(Boolean).length} words`;
+  }
+  if (field === 'prNumber') return `#${value}`;
+  const text = Array.isArray(value) ? value.join(', ') : String(value);
+  return text.length > 80 ? `${text.substring(0, 77)}...` : text;
+}
+
+const OriginDetails: React.FC<{ origin: SipFieldOrigin }> = ({ origin }) => (
+  <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
+    <Badge variant="outline" className="capitalize">{origin.source.replace(/_/g, ' ')}</Badge>
+    {origin.prNumber && (
+      <span className="flex items-center gap-1"><GitPullRequest size={12} /> PR #{origin.prNumber}</span>
+    )}
+    {origin.filePath && (
+      <span className="flex items-center gap-1 min-w-0">
+        <FileCode size={12} className="shrink-0" /> <code className="bg-muted/50 px-1 py-0.5 rounded-sm break-all">{origin.filePath}</code>
+      </span>
+    )}
+    {origin.rule && <span className="italic">({origin.rule})</span>}
+  </div>
+);
+
+export default function SipDataSourcesDrawer({ sip }: SipDataSourcesDrawerProps) {
+  const provenance = sip.provenance || {};
+  const fields = (Object.keys(FIELD_LABELS) as SipProvenanceField[]).filter(field => provenance[field]);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Database className="mr-2 h-4 w-4" />
+          Data sources
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle className="font-headline">Data sources</SheetTitle>
+          <SheetDescription>
+            Which pull request or file supplied each field of {sip.id}, after merging every record found for it.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="h-[calc(100vh-10rem)] mt-4 pr-3">
+          {fields.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No source information was recorded for this proposal.</p>
+          ) : (
+            <dl className="space-y-4">
+              {fields.map(field => (
+                <div key={field} className="space-y-1 border-b pb-3 last:border-b-0">
+                  <dt className="text-sm font-semibold">{FIELD_LABELS[field]}</dt>
+                  <dd className="text-sm text-foreground/90 break-words">{previewValue(sip, field)}</dd>
+                  <dd><OriginDetails origin={provenance[field]!} /></dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,20 +1,30 @@
 
 "use client";
 
-import type { SIP, Comment as CommentType } from '@/types/sip';
+import type { SIP, Comment as CommentType, SipCommentPage } from '@/types/sip';
 import MarkdownRenderer from '@/components/MarkdownRenderer';
+import SipRevisionHistory from '@/components/SipRevisionHistory';
+import SipStatusHistory from '@/components/SipStatusHistory';
+import SipReviewPanel from '@/components/SipReviewPanel';
+import SipMetadataIssuesPanel from '@/components/SipMetadataIssuesPanel';
+import SipDataSourcesDrawer from '@/components/SipDataSourcesDrawer';
+import SipRelatedProposals from '@/components/SipRelatedProposals';
+import SipQuestionPanel from '@/components/SipQuestionPanel';
+import DiffHunk from '@/components/DiffHunk';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import StatusBadge from '@/components/icons/StatusBadge';
-import { ExternalLink, CalendarDays, GitMerge, FolderArchive, UserCircle, Hash, MessageSquare, FileCode, Brain, RefreshCcw, Info, Users } from 'lucide-react';
+import ConflictBadge from '@/components/icons/ConflictBadge';
+import { ExternalLink, CalendarDays, GitMerge, FolderArchive, UserCircle, Hash, MessageSquare, FileCode, Brain, RefreshCcw, Info, Users, Hourglass } from 'lucide-react';
 import { format, parseISO, isValid, formatDistanceToNow } from 'date-fns';
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import Link from 'next/link';
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { explainSipEli5, type Eli5SipInput } from '@/ai/flows/eli5-sip-flow';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { getCurrentStatusSince, getFriendlySipStatusLabel, buildDiscussionItems, type ReviewThread } from '@/lib/sips_utils';
 
 interface SipDetailClientProps {
   sip: SIP;
@@ -25,9 +35,10 @@ const USER_REQUESTED_FALLBACK_AI_SUMMARY_WHAT_IT_IS = "No summary available yet.
 
 interface CommentItemProps {
   comment: CommentType;
+  hideFilePath?: boolean; // Set inside review threads, which show the file above the diff hunk
 }
 
-const CommentItem: React.FC<CommentItemProps> = ({ comment }) => {
+const CommentItem: React.FC<CommentItemProps> = ({ comment, hideFilePath }) => {
   const [relativeDate, setRelativeDate] = useState<string>('Loading date...');
 
   useEffect(() => {
@@ -58,7 +69,7 @@ const CommentItem: React.FC<CommentItemProps> = ({ comment }) => {
             {relativeDate}
           </Link>
         </div>
-        {comment.filePath && (
+        {comment.filePath && !hideFilePath && (
           <div className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
             <FileCode size={14} />
             <span>
@@ -74,6 +85,30 @@ const CommentItem: React.FC<CommentItemProps> = ({ comment }) => {
   );
 };
 
+const ReviewThreadItem: React.FC<{ thread: ReviewThread }> = ({ thread }) => {
+  const { root, replies } = thread;
+  return (
+    <div className="border rounded-md shadow-sm bg-card">
+      <div className="flex items-center gap-1 px-4 pt-3 pb-2 text-xs text-muted-foreground">
+        <FileCode size={14} />
+        <code className="text-xs bg-muted/50 px-1 py-0.5 rounded-sm">{root.filePath}</code>
+        {root.line !== undefined && <span>line {root.line}</span>}
+        {replies.length > 0 && <span className="ml-auto">{replies.length} {replies.length === 1 ? 'reply' : 'replies'}</span>}
+      </div>
+      {root.diffHunk && (
+        <div className="px-4 pb-3">
+          <DiffHunk hunk={root.diffHunk} filePath={root.filePath} />
+        </div>
+      )}
+      <div className="space-y-3 px-4 pb-4">
+        {[root, ...replies].map(comment => (
+          <CommentItem key={comment.id} comment={comment} hideFilePath />
+        ))}
+      </div>
+    </div>
+  );
+};
+
 
 export default function SipDetailClient({ sip }: SipDetailClientProps) {
   const [isEli5Active, setIsEli5Active] = useState(false);
@@ -84,6 +119,11 @@ export default function SipDetailClient({ sip }: SipDetailClientProps) {
   const [formattedCreatedAt, setFormattedCreatedAt] = useState<string>(sip.createdAt || 'N/A');
   const [formattedUpdatedAt, setFormattedUpdatedAt] = useState<string>(sip.updatedAt || 'N/A');
   const [formattedMergedAt, setFormattedMergedAt] = useState<string>(sip.mergedAt || 'N/A');
+  const [timeInStatus, setTimeInStatus] = useState<string | null>(null);
+  const [loadedComments, setLoadedComments] = useState<CommentType[]>(sip.comments || []);
+  const [nextCommentPage, setNextCommentPage] = useState(2);
+  const [isLoadingComments, setIsLoadingComments] = useState(false);
+  const [commentsError, setCommentsError] = useState<string | null>(null);
 
   const formatDate = useCallback((dateString?: string) => {
     if (!dateString) return 'N/A';
@@ -108,6 +148,12 @@ export default function SipDetailClient({ sip }: SipDetailClientProps) {
     setFormattedMergedAt(formatDate(sip.mergedAt));
   }, [sip.mergedAt, formatDate]);
 
+  useEffect(() => {
+    const statusSince = getCurrentStatusSince(sip);
+    const date = statusSince ? parseISO(statusSince) : null;
+    setTimeInStatus(date && isValid(date) ? formatDistanceToNow(date) : null);
+  }, [sip]);
+
 
   const renderAiSummaryPoint = (label: string, text?: string) => {
     if (text && text !== INSUFFICIENT_AI_SUMMARY_ASPECT_MESSAGE && text.trim() !== "" && text.trim() !== "-") {
@@ -134,9 +180,38 @@ export default function SipDetailClient({ sip }: SipDetailClientProps) {
     sip.aiSummary.whatItChanges === "-" &&
     sip.aiSummary.whyItMatters === "-";
 
-  const showViewAllCommentsButton = sip.prNumber && 
-    ( (sip._rawIssueCommentCount !== undefined && sip._rawIssueCommentCount >= (sip._commentFetchLimit || 15)) ||
-      (sip._rawReviewCommentCount !== undefined && sip._rawReviewCommentCount >= (sip._commentFetchLimit || 15)) );
+  const totalCommentCount = (sip._rawIssueCommentCount || 0) + (sip._rawReviewCommentCount || 0);
+  const hasMoreComments = Boolean(sip.prNumber) && loadedComments.length < totalCommentCount;
+  const discussionItems = useMemo(() => buildDiscussionItems(loadedComments), [loadedComments]);
+
+  useEffect(() => {
+    setLoadedComments(sip.comments || []);
+    setNextCommentPage(2);
+    setCommentsError(null);
+  }, [sip.id, sip.comments]);
+
+  const handleLoadMoreComments = useCallback(async () => {
+    setIsLoadingComments(true);
+    setCommentsError(null);
+    try {
+      const perPage = sip._commentFetchLimit || 15;
+      const response = await fetch(`/api/sips/${encodeURIComponent(sip.id)}/comments?page=${nextCommentPage}&perPage=${perPage}`);
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+      const commentPage: SipCommentPage = await response.json();
+      setLoadedComments(previous => {
+        const seenIds = new Set(previous.map(comment => comment.id));
+        return [...previous, ...commentPage.comments.filter(comment => !seenIds.has(comment.id))];
+      });
+      setNextCommentPage(commentPage.page + 1);
+    } catch (error) {
+      console.error("Loading more comments failed:", error);
+      setCommentsError(error instanceof Error ? error.message : "Failed to load more comments.");
+    } finally {
+      setIsLoadingComments(false);
+    }
+  }, [sip.id, sip._commentFetchLimit, nextCommentPage]);
 
   const handleToggleEli5 = useCallback(async () => {
     if (!isEli5Active) { // Toggling to ON
@@ -208,6 +283,7 @@ export default function SipDetailClient({ sip }: SipDetailClientProps) {
           <div className="text-xs text-muted-foreground mt-2.5 space-y-2.5">
              <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
                 {sip.id && <span className="font-mono bg-muted px-2 py-1 rounded text-sm">{sip.id}</span>}
+                {sip.conflict && <ConflictBadge conflict={sip.conflict} />}
                 {sip.prNumber && (
                     <div className="flex items-center gap-1 text-sm">
                     <Hash size={14} />
@@ -236,30 +312,51 @@ export default function SipDetailClient({ sip }: SipDetailClientProps) {
                     <span>Merged: {formattedMergedAt}</span>
                     </div>
                 )}
+                {timeInStatus && (
+                    <div className="flex items-center gap-1">
+                    <Hourglass size={14} />
+                    <span>{getFriendlySipStatusLabel(sip.status)} for {timeInStatus}</span>
+                    </div>
+                )}
                 <div className="flex items-center gap-1 capitalize">
                     <FolderArchive size={14} />
                     <span>Source: {sip.source.replace(/_/g, ' ')}</span>
                 </div>
             </div>
+            {sip.conflict && (
+              <p className="text-sm text-orange-700 dark:text-orange-400">
+                {sip.conflict.claimedId} is also claimed by{' '}
+                {sip.conflict.competingIds.map((competingId, index) => (
+                  <React.Fragment key={competingId}>
+                    {index > 0 && ', '}
+                    <Link href={`/sips/${competingId}`} className="font-mono underline hover:no-underline">{competingId}</Link>
+                  </React.Fragment>
+                ))}
+                . An editor needs to assign distinct numbers.
+              </p>
+            )}
           </div>
           
-          {sip.prUrl && (
-            <div className="mt-4 flex justify-end">
-              <TooltipProvider delayDuration={100}>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button asChild variant="default" size="sm" className="bg-primary hover:bg-primary/90 text-primary-foreground">
-                      <a href={sip.prUrl} target="_blank" rel="noopener noreferrer">
-                        <MessageSquare className="mr-2 h-4 w-4" />
-                        Discuss on GitHub
-                      </a>
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Join the discussion on GitHub</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
+          {(sip.prUrl || sip.provenance) && (
+            <div className="mt-4 flex justify-end gap-2">
+              {sip.provenance && <SipDataSourcesDrawer sip={sip} />}
+              {sip.prUrl && (
+                <TooltipProvider delayDuration={100}>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button asChild variant="default" size="sm" className="bg-primary hover:bg-primary/90 text-primary-foreground">
+                        <a href={sip.prUrl} target="_blank" rel="noopener noreferrer">
+                          <MessageSquare className="mr-2 h-4 w-4" />
+                          Discuss on GitHub
+                        </a>
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Join the discussion on GitHub</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
             </div>
           )}
         </CardHeader>
@@ -314,7 +411,7 @@ export default function SipDetailClient({ sip }: SipDetailClientProps) {
 
         <CardContent className="pt-0"> 
           {sip.body && sip.body.trim() !== "" ? (
-            <MarkdownRenderer content={sip.body} />
+            <MarkdownRenderer content={sip.body} anchorHeadings />
           ) : (
             <div className="italic text-muted-foreground py-4">
               {sip.source === 'pull_request_only' 
@@ -346,6 +443,28 @@ export default function SipDetailClient({ sip }: SipDetailClientProps) {
         </Card>
       )}
 
+      <SipQuestionPanel sipId={sip.id} />
+
+      {sip.relatedProposals && sip.relatedProposals.length > 0 && (
+        <SipRelatedProposals sipId={sip.id} relatedProposals={sip.relatedProposals} />
+      )}
+
+      {sip.lintIssues && sip.lintIssues.length > 0 && (
+        <SipMetadataIssuesPanel issues={sip.lintIssues} filePath={sip.filePath} />
+      )}
+
+      {sip.statusHistory && sip.statusHistory.length > 0 && (
+        <SipStatusHistory statusHistory={sip.statusHistory} />
+      )}
+
+      {sip.filePath && sip.revisions && sip.revisions.length > 0 && (
+        <SipRevisionHistory revisions={sip.revisions} filePath={sip.filePath} />
+      )}
+
+      {sip.prNumber && sip.reviews !== undefined && (
+        <SipReviewPanel sip={sip} />
+      )}
+
       {sip.prNumber && (
         <Card className="shadow-lg w-full mt-6">
           <CardHeader>
@@ -358,18 +477,30 @@ export default function SipDetailClient({ sip }: SipDetailClientProps) {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {sip.comments && sip.comments.length > 0 ? (
+            {loadedComments.length > 0 ? (
               <div className="space-y-6">
-                {sip.comments.map((comment: CommentType) => (
-                  <CommentItem key={comment.id} comment={comment} />
+                {discussionItems.map(item => item.kind === 'thread' ? (
+                  <ReviewThreadItem key={`thread-${item.thread.root.id}`} thread={item.thread} />
+                ) : (
+                  <CommentItem key={item.comment.id} comment={item.comment} />
                 ))}
-                 {showViewAllCommentsButton && (
-                   <div className="text-center mt-4">
-                     <Button asChild variant="outline">
-                       <a href={sip.prUrl} target="_blank" rel="noopener noreferrer">
-                         View all comments on GitHub <ExternalLink className="ml-2 h-4 w-4" />
-                       </a>
+                 {commentsError && (
+                   <Alert variant="destructive">
+                     <Info className="h-4 w-4" />
+                     <AlertTitle>Error</AlertTitle>
+                     <AlertDescription>{commentsError}</AlertDescription>
+                   </Alert>
+                 )}
+                 {hasMoreComments && (
+                   <div className="text-center mt-4 space-y-2">
+                     <Button variant="outline" onClick={handleLoadMoreComments} disabled={isLoadingComments}>
+                       {isLoadingComments ? "Loading comments..." : `Load more comments (${totalCommentCount - loadedComments.length} remaining)`}
                      </Button>
+                     <div>
+                       <a href={sip.prUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-accent hover:underline">
+                         View the full discussion on GitHub
+                       </a>
+                     </div>
                    </div>
                  )}
               </div>
@@ -0,0 +1,112 @@
+import React from 'react';
+import type { SIP } from '@/types/sip';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
+import StatusBadge from '@/components/icons/StatusBadge';
+import { GitFork, FileQuestion, CheckCircle2 } from 'lucide-react';
+import { format, parseISO, isValid } from 'date-fns';
+
+export interface SipNumberCollision {
+  claimedId: string;
+  sips: SIP[]; // The proposal holding the ID first, then its competitors
+}
+
+interface SipEditorViewProps {
+  collisions: SipNumberCollision[];
+  orphanedSips: SIP[]; // SIPs whose ID was derived from the file name
+}
+
+function formatDate(dateString?: string): string {
+  if (!dateString) return 'N/A';
+  const date = parseISO(dateString);
+  return isValid(date) && date.getFullYear() > 1970 ? format(date, 'MMM d, yyyy') : 'N/A';
+}
+
+const ProposalTable: React.FC<{ sips: SIP[] }> = ({ sips }) => (
+  <div className="rounded-lg border overflow-hidden">
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[180px]">ID</TableHead>
+          <TableHead>Title</TableHead>
+          <TableHead className="w-[160px]">Status</TableHead>
+          <TableHead className="w-[120px]">Source</TableHead>
+          <TableHead className="w-[130px] text-right">Created</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sips.map(sip => (
+          <TableRow key={sip.id}>
+            <TableCell className="font-mono text-sm">
+              <Link href={`/sips/${sip.id}`} className="text-accent hover:underline">{sip.id}</Link>
+            </TableCell>
+            <TableCell>
+              <div className="font-medium">{sip.cleanTitle || sip.title}</div>
+              <div className="text-xs text-muted-foreground">
+                {sip.prNumber && <Link href={sip.prUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">PR #{sip.prNumber}</Link>}
+                {sip.prNumber && sip.filePath && ' · '}
+                {sip.filePath && <code>{sip.filePath}</code>}
+                {sip.author && <> · {sip.author}</>}
+              </div>
+            </TableCell>
+            <TableCell><StatusBadge status={sip.status} /></TableCell>
+            <TableCell className="text-sm text-muted-foreground capitalize">{sip.source.replace(/_/g, ' ')}</TableCell>
+            <TableCell className="text-right text-sm text-muted-foreground">{formatDate(sip.createdAt)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+const NothingToDo: React.FC<{ message: string }> = ({ message }) => (
+  <p className="flex items-center gap-2 text-sm text-muted-foreground">
+    <CheckCircle2 className="h-4 w-4 text-green-600" /> {message}
+  </p>
+);
+
+export default function SipEditorView({ collisions, orphanedSips }: SipEditorViewProps) {
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="font-headline text-2xl flex items-center gap-2">
+            <GitFork size={24} className="text-primary" /> Number Collisions
+          </CardTitle>
+          <CardDescription>
+            Proposals that claim the same SIP number, by frontmatter, file name or PR title. The first proposal keeps the ID; competing ones are listed under an ID suffixed with their PR number.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {collisions.length === 0 ? (
+            <NothingToDo message="No two proposals claim the same number." />
+          ) : collisions.map(collision => (
+            <div key={collision.claimedId} className="space-y-2">
+              <h3 className="font-mono text-sm font-semibold">{collision.claimedId} <span className="font-sans font-normal text-muted-foreground">· {collision.sips.length} proposals</span></h3>
+              <ProposalTable sips={collision.sips} />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="font-headline text-2xl flex items-center gap-2">
+            <FileQuestion size={24} className="text-primary" /> Orphaned IDs
+          </CardTitle>
+          <CardDescription>
+            Files whose SIP number could not be determined, so their ID was derived from the file name. Add a `sip` field to their frontmatter or rename the file.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {orphanedSips.length === 0 ? (
+            <NothingToDo message="Every proposal file has a SIP number." />
+          ) : (
+            <ProposalTable sips={orphanedSips} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
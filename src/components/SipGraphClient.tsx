@@ -0,0 +1,200 @@
+
+"use client";
+
+import type { SipStatus, SipRelationEdge } from '@/types/sip';
+import type { TopicCategory } from '@/lib/sips_categorization';
+import { layoutForceGraph } from '@/lib/graph_layout';
+import { statusConfig } from '@/components/icons/StatusBadge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { getFriendlySipStatusLabel } from '@/lib/sips_utils';
+import { useRouter } from 'next/navigation';
+import React, { useMemo, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+/** A SIP as drawn in the graph. */
+export interface SipGraphNode {
+  id: string;
+  title: string;
+  status: SipStatus;
+  topics: TopicCategory[];
+}
+
+interface SipGraphClientProps {
+  nodes: SipGraphNode[];
+  edges: SipRelationEdge[];
+  topicOrder: readonly TopicCategory[];
+}
+
+type EdgeType = SipRelationEdge['type'];
+
+const ALL_TOPICS = 'all';
+const CANVAS_WIDTH = 1200;
+const CANVAS_HEIGHT = 800;
+const NODE_RADIUS = 9;
+
+const edgeStyles: Record<EdgeType, { label: string; className: string; arrowClassName: string; dashArray?: string }> = {
+  requires: { label: 'Requires', className: 'stroke-primary', arrowClassName: 'fill-primary' },
+  replaces: { label: 'Supersedes', className: 'stroke-orange-500', arrowClassName: 'fill-orange-500', dashArray: '8 4' },
+  mentions: { label: 'Mentions', className: 'stroke-muted-foreground/60', arrowClassName: 'fill-muted-foreground/60', dashArray: '2 4' },
+};
+const EDGE_TYPES = Object.keys(edgeStyles) as EdgeType[];
+// One entry per node colour
+const STATUS_LEGEND: Array<{ status: SipStatus; label: string }> = [
+  { status: 'Draft', label: 'Draft' },
+  { status: 'Proposed', label: 'Proposed' },
+  { status: 'Accepted', label: 'Accepted, Live or Final' },
+  { status: 'Withdrawn', label: 'Withdrawn, Rejected, Archived or Closed' },
+];
+
+export default function SipGraphClient({ nodes, edges, topicOrder }: SipGraphClientProps) {
+  const router = useRouter();
+  const [selectedTopic, setSelectedTopic] = useState<string>(ALL_TOPICS);
+  const [enabledEdgeTypes, setEnabledEdgeTypes] = useState<Set<EdgeType>>(new Set(EDGE_TYPES));
+  const [hideUnconnected, setHideUnconnected] = useState(true);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  const { visibleNodes, visibleEdges } = useMemo(() => {
+    const topicNodes = selectedTopic === ALL_TOPICS ? nodes : nodes.filter(node => node.topics.includes(selectedTopic as TopicCategory));
+    const topicNodeIds = new Set(topicNodes.map(node => node.id));
+    const filteredEdges = edges.filter(edge => enabledEdgeTypes.has(edge.type) && topicNodeIds.has(edge.from) && topicNodeIds.has(edge.to));
+    const connectedIds = new Set(filteredEdges.flatMap(edge => [edge.from, edge.to]));
+    return {
+      visibleNodes: hideUnconnected ? topicNodes.filter(node => connectedIds.has(node.id)) : topicNodes,
+      visibleEdges: filteredEdges,
+    };
+  }, [nodes, edges, selectedTopic, enabledEdgeTypes, hideUnconnected]);
+
+  const positions = useMemo(
+    () => layoutForceGraph(visibleNodes.map(node => node.id), visibleEdges, { width: CANVAS_WIDTH, height: CANVAS_HEIGHT }),
+    [visibleNodes, visibleEdges]
+  );
+
+  const highlightedIds = useMemo(() => {
+    if (!hoveredId) return null;
+    const ids = new Set([hoveredId]);
+    visibleEdges.forEach(edge => {
+      if (edge.from === hoveredId) ids.add(edge.to);
+      if (edge.to === hoveredId) ids.add(edge.from);
+    });
+    return ids;
+  }, [hoveredId, visibleEdges]);
+
+  const toggleEdgeType = (type: EdgeType, enabled: boolean) => {
+    setEnabledEdgeTypes(previous => {
+      const next = new Set(previous);
+      if (enabled) next.add(type);
+      else next.delete(type);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center gap-4 flex-wrap">
+        <Select value={selectedTopic} onValueChange={setSelectedTopic}>
+          <SelectTrigger className="w-full md:w-[240px]" aria-label="Filter by topic">
+            <SelectValue placeholder="All topics" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TOPICS}>All topics</SelectItem>
+            {topicOrder.map(topic => <SelectItem key={topic} value={topic}>{topic}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-4">
+          {EDGE_TYPES.map(type => (
+            <div key={type} className="flex items-center gap-2">
+              <Checkbox id={`edge-${type}`} checked={enabledEdgeTypes.has(type)} onCheckedChange={checked => toggleEdgeType(type, checked === true)} />
+              <Label htmlFor={`edge-${type}`} className="text-sm">{edgeStyles[type].label}</Label>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="hide-unconnected" checked={hideUnconnected} onCheckedChange={setHideUnconnected} />
+          <Label htmlFor="hide-unconnected" className="text-sm">Hide proposals without relations</Label>
+        </div>
+      </div>
+
+      <Card className="shadow-lg">
+        <CardContent className="p-2">
+          {visibleNodes.length === 0 ? (
+            <p className="text-center text-muted-foreground py-16">No proposals with relations match these filters.</p>
+          ) : (
+            <svg viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Dependency graph of SIPs">
+              <defs>
+                {EDGE_TYPES.map(type => (
+                  <marker key={type} id={`arrow-${type}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z" className={edgeStyles[type].arrowClassName} />
+                  </marker>
+                ))}
+              </defs>
+              {visibleEdges.map(edge => {
+                const from = positions.get(edge.from);
+                const to = positions.get(edge.to);
+                if (!from || !to) return null;
+                const length = Math.max(Math.hypot(to.x - from.x, to.y - from.y), 1);
+                const endX = to.x - ((to.x - from.x) / length) * (NODE_RADIUS + 2);
+                const endY = to.y - ((to.y - from.y) / length) * (NODE_RADIUS + 2);
+                const dimmed = highlightedIds && !(highlightedIds.has(edge.from) && highlightedIds.has(edge.to));
+                return (
+                  <line
+                    key={`${edge.from}-${edge.to}`}
+                    x1={from.x} y1={from.y} x2={endX} y2={endY}
+                    className={cn(edgeStyles[edge.type].className, dimmed && 'opacity-20')}
+                    strokeWidth={1.5}
+                    strokeDasharray={edgeStyles[edge.type].dashArray}
+                    markerEnd={`url(#arrow-${edge.type})`}
+                  />
+                );
+              })}
+              {visibleNodes.map(node => {
+                const position = positions.get(node.id)!;
+                const dimmed = highlightedIds && !highlightedIds.has(node.id);
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${position.x}, ${position.y})`}
+                    className={cn('cursor-pointer', dimmed && 'opacity-30')}
+                    role="link"
+                    tabIndex={0}
+                    aria-label={`${node.id}: ${node.title}`}
+                    onClick={() => router.push(`/sips/${node.id}`)}
+                    onKeyDown={event => { if (event.key === 'Enter') router.push(`/sips/${node.id}`); }}
+                    onMouseEnter={() => setHoveredId(node.id)}
+                    onMouseLeave={() => setHoveredId(null)}
+                    onFocus={() => setHoveredId(node.id)}
+                    onBlur={() => setHoveredId(null)}
+                  >
+                    <title>{`${node.id} · ${getFriendlySipStatusLabel(node.status)}\n${node.title}`}</title>
+                    <circle r={NODE_RADIUS} className={cn(statusConfig[node.status]?.fillClass || 'fill-muted-foreground', 'stroke-background')} strokeWidth={2} />
+                    <text y={NODE_RADIUS + 12} textAnchor="middle" className="fill-foreground text-[11px] font-mono select-none">{node.id}</text>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2 text-xs text-muted-foreground">
+        {STATUS_LEGEND.map(({ status, label }) => (
+          <span key={status} className="flex items-center gap-1.5">
+            <svg width="12" height="12" aria-hidden="true"><circle cx="6" cy="6" r="5" className={statusConfig[status].fillClass} /></svg>
+            {label}
+          </span>
+        ))}
+        {EDGE_TYPES.map(type => (
+          <span key={type} className="flex items-center gap-1.5">
+            <svg width="24" height="8" aria-hidden="true">
+              <line x1="0" y1="4" x2="24" y2="4" className={edgeStyles[type].className} strokeWidth={1.5} strokeDasharray={edgeStyles[type].dashArray} />
+            </svg>
+            {edgeStyles[type].label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
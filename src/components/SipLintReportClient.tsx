@@ -0,0 +1,122 @@
+"use client";
+
+import type { SIP, SipLintSeverity } from '@/types/sip';
+import { useState, useMemo } from 'react';
+import Link from 'next/link';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import StatusBadge from '@/components/icons/StatusBadge';
+import { LintIssueRow, lintSeverityConfig } from '@/components/SipMetadataIssuesPanel';
+import { Search, CheckCircle2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface SipLintReportClientProps {
+  sips: SIP[]; // Only SIPs with at least one lint issue
+  checkedCount: number; // SIPs with a file, i.e. whose frontmatter was checked
+}
+
+type SeverityFilter = 'all' | SipLintSeverity;
+const severityFilters: SeverityFilter[] = ['all', 'error', 'warning'];
+
+export default function SipLintReportClient({ sips, checkedCount }: SipLintReportClientProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [severityFilter, setSeverityFilter] = useState<SeverityFilter>('all');
+
+  const totals = useMemo(() => {
+    const issues = sips.flatMap(sip => sip.lintIssues || []);
+    const errors = issues.filter(issue => issue.severity === 'error').length;
+    return { errors, warnings: issues.length - errors };
+  }, [sips]);
+
+  const filteredSips = useMemo(() => {
+    const lowerSearchTerm = searchTerm.toLowerCase();
+    return sips
+      .map(sip => ({
+        sip,
+        issues: (sip.lintIssues || []).filter(issue => severityFilter === 'all' || issue.severity === severityFilter),
+      }))
+      .filter(({ sip, issues }) =>
+        issues.length > 0 && (
+          !lowerSearchTerm ||
+          sip.id.toLowerCase().includes(lowerSearchTerm) ||
+          (sip.cleanTitle || sip.title).toLowerCase().includes(lowerSearchTerm) ||
+          (sip.filePath || '').toLowerCase().includes(lowerSearchTerm) ||
+          issues.some(issue => issue.field.toLowerCase().includes(lowerSearchTerm) || issue.code.includes(lowerSearchTerm))
+        )
+      );
+  }, [sips, searchTerm, severityFilter]);
+
+  const filterLabel = (filter: SeverityFilter) =>
+    filter === 'all' ? `All (${totals.errors + totals.warnings})` : `${lintSeverityConfig[filter].label}s (${filter === 'error' ? totals.errors : totals.warnings})`;
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Checked the frontmatter of {checkedCount} SIP files: {sips.length} with issues, {totals.errors} {totals.errors === 1 ? 'error' : 'errors'} and {totals.warnings} {totals.warnings === 1 ? 'warning' : 'warnings'} in total.
+      </p>
+
+      <div className="flex flex-col md:flex-row gap-4 md:items-center">
+        <div className="relative flex-grow">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+          <Input
+            type="text"
+            placeholder="Search by SIP, file or field..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10 w-full shadow-sm"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Filter issues by severity">
+          {severityFilters.map(filter => (
+            <Button
+              key={filter}
+              variant={severityFilter === filter ? "default" : "outline"}
+              onClick={() => setSeverityFilter(filter)}
+              className={cn(
+                "shadow-sm",
+                severityFilter === filter
+                  ? "bg-primary text-primary-foreground hover:bg-primary/90"
+                  : "hover:bg-accent hover:text-accent-foreground"
+              )}
+            >
+              {filterLabel(filter)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {filteredSips.length > 0 ? (
+        <div className="space-y-4">
+          {filteredSips.map(({ sip, issues }) => (
+            <Card key={sip.id} className="shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base font-medium flex flex-wrap items-center gap-2">
+                  <Link href={`/sips/${sip.id}`} className="hover:underline">
+                    <span className="font-mono text-sm mr-2">{sip.id}</span>{sip.cleanTitle || sip.title}
+                  </Link>
+                  <StatusBadge status={sip.status} />
+                </CardTitle>
+                {sip.filePath && (
+                  <CardDescription>
+                    <code className="text-xs bg-muted/50 px-1 py-0.5 rounded-sm">{sip.filePath}</code>
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-3">
+                  {issues.map((issue, index) => <LintIssueRow key={`${issue.field}-${issue.code}-${index}`} issue={issue} />)}
+                </ul>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center gap-2 py-12 text-muted-foreground">
+          <CheckCircle2 className="h-8 w-8 text-green-600" />
+          <p>{sips.length === 0 ? 'No metadata issues found. Every SIP file has valid frontmatter.' : 'No issues match your filters.'}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+
+"use client";
+
+import type { SipLintIssue, SipLintSeverity } from '@/types/sip';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { FileWarning, XCircle, AlertTriangle } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface SipMetadataIssuesPanelProps {
+  issues: SipLintIssue[];
+  filePath?: string;
+}
+
+export const lintSeverityConfig: Record<SipLintSeverity, { icon: LucideIcon; label: string; className: string }> = {
+  error: { icon: XCircle, label: 'Error', className: 'border-red-600/40 text-red-700 dark:text-red-400' },
+  warning: { icon: AlertTriangle, label: 'Warning', className: 'border-yellow-600/40 text-yellow-700 dark:text-yellow-400' },
+};
+
+export const LintIssueRow: React.FC<{ issue: SipLintIssue }> = ({ issue }) => {
+  const config = lintSeverityConfig[issue.severity];
+  const IconComponent = config.icon;
+  return (
+    <li className="flex flex-col gap-1 sm:flex-row sm:items-start sm:gap-3">
+      <Badge variant="outline" className={cn('w-fit gap-1 shrink-0', config.className)}>
+        <IconComponent className="h-3 w-3" /> {config.label}
+      </Badge>
+      <div className="min-w-0 text-sm">
+        <code className="text-xs bg-muted/50 px-1 py-0.5 rounded-sm mr-2">{issue.field}</code>
+        <span className="text-foreground/90">{issue.message}</span>
+        {issue.value !== undefined && (
+          <p className="text-xs text-muted-foreground mt-0.5 break-all">Found: <code>{issue.value}</code></p>
+        )}
+      </div>
+    </li>
+  );
+};
+
+export default function SipMetadataIssuesPanel({ issues, filePath }: SipMetadataIssuesPanelProps) {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  return (
+    <Card className="shadow-lg w-full mt-6">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl flex items-center gap-2">
+          <FileWarning size={24} className="text-primary" /> Metadata Issues
+        </CardTitle>
+        <CardDescription>
+          {errorCount} {errorCount === 1 ? 'error' : 'errors'} and {warningCount} {warningCount === 1 ? 'warning' : 'warnings'} in the frontmatter
+          {filePath && <> of <code className="text-xs bg-muted/50 px-1 py-0.5 rounded-sm">{filePath}</code></>}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-3">
+          {issues.map((issue, index) => <LintIssueRow key={`${issue.field}-${issue.code}-${index}`} issue={issue} />)}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
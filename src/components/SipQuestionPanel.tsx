@@ -0,0 +1,149 @@
+"use client";
+
+import type { SipAnswer, SipAnswerCitation, SipAnswerSourceKind } from '@/types/sip';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { MessageCircleQuestion, FileText, GitPullRequest, MessageSquare, Info } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+
+interface SipQuestionPanelProps {
+  sipId: string;
+}
+
+const SOURCE_ICONS: Record<SipAnswerSourceKind, LucideIcon> = {
+  section: FileText,
+  pr_description: GitPullRequest,
+  comment: MessageSquare,
+};
+
+const CitationLink: React.FC<{ citation: SipAnswerCitation }> = ({ citation }) => {
+  const IconComponent = SOURCE_ICONS[citation.kind];
+  const content = (
+    <>
+      <IconComponent size={12} className="shrink-0" />
+      <span className="truncate">{citation.label}</span>
+    </>
+  );
+  if (!citation.url) {
+    return <span className="inline-flex items-center gap-1 max-w-full text-muted-foreground">{content}</span>;
+  }
+  const isAnchor = citation.url.startsWith('#'); // A section of the proposal on this page
+  return (
+    <a
+      href={citation.url}
+      className="inline-flex items-center gap-1 max-w-full text-accent hover:underline"
+      {...(isAnchor ? {} : { target: '_blank', rel: 'noopener noreferrer' })}
+    >
+      {content}
+    </a>
+  );
+};
+
+const AnswerItem: React.FC<{ answer: SipAnswer }> = ({ answer }) => (
+  <li className="space-y-2 p-4 border rounded-md bg-muted/10 dark:bg-muted/20">
+    <p className="font-semibold text-foreground/90">{answer.question}</p>
+    <p className={answer.answered ? "text-sm text-foreground/80" : "text-sm italic text-muted-foreground"}>{answer.answer}</p>
+    {answer.citations.length > 0 && (
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+        <span className="text-muted-foreground">Sources:</span>
+        {answer.citations.map((citation, index) => (
+          <CitationLink key={`${citation.url || citation.label}-${index}`} citation={citation} />
+        ))}
+      </div>
+    )}
+  </li>
+);
+
+/** Question box for the detail page. Answers come from `/api/sips/:id/ask` and cite the sections and comments they use. */
+export default function SipQuestionPanel({ sipId }: SipQuestionPanelProps) {
+  const [question, setQuestion] = useState('');
+  const [answers, setAnswers] = useState<SipAnswer[]>([]);
+  const [isAsking, setIsAsking] = useState(false);
+  const [askError, setAskError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setQuestion('');
+    setAnswers([]);
+    setAskError(null);
+  }, [sipId]);
+
+  const handleAsk = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmedQuestion = question.trim();
+    if (!trimmedQuestion || isAsking) return;
+    setIsAsking(true);
+    setAskError(null);
+    try {
+      const response = await fetch(`/api/sips/${encodeURIComponent(sipId)}/ask`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: trimmedQuestion }),
+      });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.error || `Request failed with status ${response.status}`);
+      }
+      const answer: SipAnswer = await response.json();
+      setAnswers(previous => [answer, ...previous]);
+      setQuestion('');
+    } catch (error) {
+      console.error("Asking a question failed:", error);
+      setAskError(error instanceof Error ? error.message : "Failed to answer the question.");
+    } finally {
+      setIsAsking(false);
+    }
+  }, [sipId, question, isAsking]);
+
+  return (
+    <Card className="shadow-md w-full mt-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="font-headline text-xl flex items-center gap-2">
+          <MessageCircleQuestion size={20} className="text-primary" /> Ask About This Proposal
+        </CardTitle>
+        <CardDescription>
+          Answers come from the proposal text, its PR description and the discussion, with links to the parts they are based on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAsk} className="flex gap-2">
+          <Input
+            value={question}
+            onChange={event => setQuestion(event.target.value)}
+            placeholder="e.g. Does this affect existing wallets?"
+            maxLength={500}
+            disabled={isAsking}
+            aria-label="Question about this proposal"
+          />
+          <Button type="submit" disabled={isAsking || question.trim().length < 3}>
+            {isAsking ? "Asking..." : "Ask"}
+          </Button>
+        </form>
+        {askError && (
+          <Alert variant="destructive">
+            <Info className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{askError}</AlertDescription>
+          </Alert>
+        )}
+        {(isAsking || answers.length > 0) && (
+          <ul className="space-y-3">
+            {isAsking && (
+              <li className="space-y-2 p-4 border rounded-md">
+                <Skeleton className="h-4 w-1/2" />
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-2/3" />
+              </li>
+            )}
+            {answers.map((answer, index) => (
+              <AnswerItem key={`${answers.length - index}`} answer={answer} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,101 @@
+
+"use client";
+
+import type { SipRelatedProposal, SipRelationType, SipRelationOrigin } from '@/types/sip';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import StatusBadge from '@/components/icons/StatusBadge';
+import { Link2 } from 'lucide-react';
+import Link from 'next/link';
+import React from 'react';
+
+interface SipRelatedProposalsProps {
+  sipId: string;
+  relatedProposals: SipRelatedProposal[];
+}
+
+const OUTGOING_GROUP_LABELS: Record<SipRelationType, string> = {
+  requires: 'Requires',
+  replaces: 'Replaces',
+  superseded_by: 'Superseded by',
+  mentions: 'Mentions',
+};
+
+// Incoming rows show the other proposal, so labels describe what it says about this one.
+const INCOMING_RELATION_LABELS: Record<SipRelationType, string> = {
+  requires: 'requires this',
+  replaces: 'replaces this',
+  superseded_by: 'superseded by this',
+  mentions: 'mentions this',
+};
+
+const ORIGIN_LABELS: Record<SipRelationOrigin, string> = {
+  frontmatter: 'frontmatter',
+  body: 'proposal text',
+  pr_body: 'PR description',
+  comment: 'discussion',
+};
+
+const GROUP_ORDER: SipRelationType[] = ['superseded_by', 'replaces', 'requires', 'mentions'];
+
+const RelatedProposalRow: React.FC<{ proposal: SipRelatedProposal; note?: string }> = ({ proposal, note }) => (
+  <li className="flex flex-col gap-1 sm:flex-row sm:items-start sm:gap-3" style={{ paddingLeft: `${(proposal.depth - 1) * 1.25}rem` }}>
+    <div className="flex items-center gap-2 shrink-0">
+      <Link href={`/sips/${proposal.id}`} className="font-mono text-sm text-accent hover:underline">{proposal.id}</Link>
+      <StatusBadge status={proposal.status} />
+    </div>
+    <div className="min-w-0 text-sm">
+      <span className="text-foreground/90">{proposal.title}</span>
+      <p className="text-xs text-muted-foreground mt-0.5">
+        {note && <>{note} · </>}
+        from the {proposal.origins.map(origin => ORIGIN_LABELS[origin]).join(', ')}
+      </p>
+      {proposal.excerpt && proposal.depth === 1 && (
+        <p className="text-xs text-muted-foreground italic mt-0.5 break-words">&ldquo;{proposal.excerpt}&rdquo;</p>
+      )}
+    </div>
+  </li>
+);
+
+export default function SipRelatedProposals({ sipId, relatedProposals }: SipRelatedProposalsProps) {
+  const outgoing = relatedProposals.filter(proposal => proposal.direction === 'outgoing');
+  const incoming = relatedProposals.filter(proposal => proposal.direction === 'incoming');
+
+  return (
+    <Card className="shadow-lg w-full mt-6">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl flex items-center gap-2">
+          <Link2 size={24} className="text-primary" /> Related Proposals
+        </CardTitle>
+        <CardDescription>
+          Proposals {sipId} references and proposals that reference it, including requirements of its requirements.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {GROUP_ORDER.map(type => {
+          const group = outgoing.filter(proposal => proposal.type === type);
+          if (group.length === 0) return null;
+          return (
+            <div key={type}>
+              <h4 className="text-sm font-semibold mb-2">{OUTGOING_GROUP_LABELS[type]}</h4>
+              <ul className="space-y-3">
+                {group.map(proposal => (
+                  <RelatedProposalRow key={proposal.id} proposal={proposal} note={proposal.via ? `required via ${proposal.via}` : undefined} />
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+        {incoming.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Referenced by</h4>
+            <ul className="space-y-3">
+              {incoming.map(proposal => (
+                <RelatedProposalRow key={proposal.id} proposal={proposal} note={INCOMING_RELATION_LABELS[proposal.type]} />
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+
+"use client";
+
+import type { SIP, SipReview, SipReviewState } from '@/types/sip';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ShieldCheck, CheckCircle2, XCircle, MessageSquare, CircleSlash, Clock } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { formatDistanceToNow, parseISO, isValid } from 'date-fns';
+import Link from 'next/link';
+import React, { useState, useEffect, useMemo } from 'react';
+import { getSipReviewSummary } from '@/lib/sips_utils';
+import { cn } from '@/lib/utils';
+
+interface SipReviewPanelProps {
+  sip: SIP;
+}
+
+const reviewStateConfig: Record<SipReviewState, { icon: LucideIcon; label: string; className: string }> = {
+  APPROVED: { icon: CheckCircle2, label: 'Approved', className: 'border-green-600/40 text-green-700 dark:text-green-400' },
+  CHANGES_REQUESTED: { icon: XCircle, label: 'Changes requested', className: 'border-red-600/40 text-red-700 dark:text-red-400' },
+  COMMENTED: { icon: MessageSquare, label: 'Commented', className: 'text-muted-foreground' },
+  DISMISSED: { icon: CircleSlash, label: 'Dismissed', className: 'text-muted-foreground' },
+};
+
+const ReviewerRow: React.FC<{ review: SipReview }> = ({ review }) => {
+  const [relativeDate, setRelativeDate] = useState<string>('');
+  const config = reviewStateConfig[review.state];
+  const IconComponent = config.icon;
+
+  useEffect(() => {
+    const date = parseISO(review.submittedAt);
+    setRelativeDate(isValid(date) ? `${formatDistanceToNow(date)} ago` : 'Date N/A');
+  }, [review.submittedAt]);
+
+  return (
+    <li className="flex items-center gap-3">
+      <Avatar className="h-8 w-8 border">
+        <AvatarImage src={review.avatar} alt={`@${review.reviewer}`} data-ai-hint="user avatar" />
+        <AvatarFallback>{review.reviewer.charAt(0).toUpperCase()}</AvatarFallback>
+      </Avatar>
+      <Link href={`https://github.com/${review.reviewer}`} target="_blank" rel="noopener noreferrer" className="font-semibold text-sm text-accent hover:underline">
+        @{review.reviewer}
+      </Link>
+      <Badge variant="outline" className={cn('gap-1', config.className)}>
+        <IconComponent className="h-3 w-3" /> {config.label}
+      </Badge>
+      <Link href={review.htmlUrl} target="_blank" rel="noopener noreferrer" className="ml-auto text-xs text-muted-foreground hover:underline">
+        {relativeDate}
+      </Link>
+    </li>
+  );
+};
+
+export default function SipReviewPanel({ sip }: SipReviewPanelProps) {
+  const summary = useMemo(() => getSipReviewSummary(sip), [sip]);
+
+  return (
+    <Card className="shadow-lg w-full mt-6">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl flex items-center gap-2">
+          <ShieldCheck size={24} className="text-primary" /> Reviews
+        </CardTitle>
+        <CardDescription className="flex flex-wrap items-center gap-2">
+          <span>{summary.approvedBy.length} {summary.approvedBy.length === 1 ? 'approval' : 'approvals'}</span>
+          <span>·</span>
+          <span>{summary.changesRequestedBy.length} {summary.changesRequestedBy.length === 1 ? 'change request' : 'change requests'}</span>
+          {summary.awaitingReview && (
+            <Badge variant="secondary" className="gap-1"><Clock className="h-3 w-3" /> Awaiting review</Badge>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {summary.latestByReviewer.length > 0 ? (
+          <ul className="space-y-3">
+            {summary.latestByReviewer.map(review => <ReviewerRow key={review.reviewer} review={review} />)}
+          </ul>
+        ) : (
+          <p className="text-muted-foreground italic">No reviews have been submitted on Pull Request #{sip.prNumber} yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
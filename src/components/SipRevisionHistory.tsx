@@ -0,0 +1,170 @@
+
+"use client";
+
+import type { SipRevision } from '@/types/sip';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History, GitCommit, ArrowRight } from 'lucide-react';
+import { format, parseISO, isValid } from 'date-fns';
+import Link from 'next/link';
+import React, { useState, useEffect, useMemo } from 'react';
+import { diffSideBySide, type SideBySideDiffRow } from '@/lib/text_diff';
+import { cn } from '@/lib/utils';
+
+interface SipRevisionHistoryProps {
+  revisions: SipRevision[]; // Oldest first
+  filePath: string;
+}
+
+function revisionToMarkdown(revision: SipRevision): string {
+  const frontmatterLines = Object.entries(revision.frontmatter)
+    .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  return ['---', ...frontmatterLines, '---', revision.body.replace(/^\n+/, '')].join('\n');
+}
+
+function revisionStatus(revision: SipRevision): string | undefined {
+  return typeof revision.frontmatter.status === 'string' ? revision.frontmatter.status : undefined;
+}
+
+const RevisionDate: React.FC<{ date: string }> = ({ date }) => {
+  const [formatted, setFormatted] = useState<string>('');
+
+  useEffect(() => {
+    const parsed = parseISO(date);
+    setFormatted(isValid(parsed) ? format(parsed, 'MMM d, yyyy HH:mm') : 'Date N/A');
+  }, [date]);
+
+  return <span>{formatted}</span>;
+};
+
+const rowSideClasses: Record<SideBySideDiffRow['kind'], { left: string; right: string }> = {
+  unchanged: { left: '', right: '' },
+  added: { left: 'bg-muted/30', right: 'bg-green-500/15' },
+  removed: { left: 'bg-red-500/15', right: 'bg-muted/30' },
+  changed: { left: 'bg-red-500/15', right: 'bg-green-500/15' },
+  collapsed: { left: '', right: '' },
+};
+
+const DiffCell: React.FC<{ line?: { lineNumber: number; text: string }; className: string }> = ({ line, className }) => (
+  <div className={cn('flex min-w-0', className)}>
+    <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground/70">{line?.lineNumber ?? ''}</span>
+    <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">{line?.text ?? ''}</span>
+  </div>
+);
+
+export default function SipRevisionHistory({ revisions, filePath }: SipRevisionHistoryProps) {
+  const latestIndex = revisions.length - 1;
+  const [baseIndex, setBaseIndex] = useState<number>(Math.max(latestIndex - 1, 0));
+  const [targetIndex, setTargetIndex] = useState<number>(latestIndex);
+
+  useEffect(() => {
+    setBaseIndex(Math.max(latestIndex - 1, 0));
+    setTargetIndex(latestIndex);
+  }, [filePath, latestIndex]);
+
+  const diffRows = useMemo(() => {
+    const base = revisions[baseIndex];
+    const target = revisions[targetIndex];
+    if (!base || !target || baseIndex === targetIndex) return [];
+    return diffSideBySide(revisionToMarkdown(base), revisionToMarkdown(target));
+  }, [revisions, baseIndex, targetIndex]);
+
+  const selectRevision = (index: number) => {
+    setTargetIndex(index);
+    setBaseIndex(Math.max(index - 1, 0));
+  };
+
+  const revisionLabel = (revision: SipRevision, index: number) =>
+    `#${index + 1} · ${revision.sha.substring(0, 7)}${revisionStatus(revision) ? ` · ${revisionStatus(revision)}` : ''}`;
+
+  return (
+    <Card className="shadow-lg w-full mt-6">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl flex items-center gap-2">
+          <History size={24} className="text-primary" /> Revision History
+        </CardTitle>
+        <CardDescription>
+          {revisions.length} {revisions.length === 1 ? 'revision' : 'revisions'} of <code className="text-xs bg-muted/50 px-1 py-0.5 rounded-sm">{filePath}</code>. Select a revision to compare it with the one before it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {revisions.map((revision, index) => ({ revision, index })).reverse().map(({ revision, index }) => {
+            const status = revisionStatus(revision);
+            const previousStatus = index > 0 ? revisionStatus(revisions[index - 1]) : undefined;
+            const isSelected = index === targetIndex;
+            return (
+              <li key={revision.sha} className="ml-4">
+                <span className={cn('absolute -left-1.5 mt-2 h-3 w-3 rounded-full border border-background', isSelected ? 'bg-primary' : 'bg-muted-foreground/40')} />
+                <button
+                  type="button"
+                  onClick={() => selectRevision(index)}
+                  className={cn('w-full text-left rounded-md p-2 transition-colors hover:bg-muted/50', isSelected && 'bg-muted/60')}
+                >
+                  <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
+                    <RevisionDate date={revision.committedAt} />
+                    <span>·</span>
+                    <span>@{revision.author}</span>
+                    {status && status !== previousStatus && (
+                      <Badge variant="outline" className="text-xs">
+                        {previousStatus ? <>{previousStatus} <ArrowRight className="mx-1 h-3 w-3" /> {status}</> : status}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-foreground mt-0.5">{revision.message}</p>
+                </button>
+                <Link href={revision.htmlUrl} target="_blank" rel="noopener noreferrer" className="ml-2 inline-flex items-center gap-1 font-mono text-xs text-accent hover:underline">
+                  <GitCommit size={12} /> {revision.sha.substring(0, 7)}
+                </Link>
+              </li>
+            );
+          })}
+        </ol>
+
+        {revisions.length > 1 && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Select value={String(baseIndex)} onValueChange={value => setBaseIndex(Number(value))}>
+                <SelectTrigger className="w-[240px]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {revisions.map((revision, index) => (
+                    <SelectItem key={revision.sha} value={String(index)}>{revisionLabel(revision, index)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              <Select value={String(targetIndex)} onValueChange={value => setTargetIndex(Number(value))}>
+                <SelectTrigger className="w-[240px]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {revisions.map((revision, index) => (
+                    <SelectItem key={revision.sha} value={String(index)}>{revisionLabel(revision, index)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {baseIndex === targetIndex ? (
+              <p className="text-sm italic text-muted-foreground">Select two different revisions to compare.</p>
+            ) : diffRows.every(row => row.kind === 'unchanged' || row.kind === 'collapsed') ? (
+              <p className="text-sm italic text-muted-foreground">These revisions have identical content.</p>
+            ) : (
+              <div className="overflow-x-auto rounded-md border font-mono text-xs">
+                {diffRows.map((row, rowIndex) => row.kind === 'collapsed' ? (
+                  <div key={rowIndex} className="bg-muted/40 px-3 py-1 text-center text-muted-foreground">
+                    {row.hiddenLineCount} unchanged lines
+                  </div>
+                ) : (
+                  <div key={rowIndex} className="grid grid-cols-2 divide-x divide-border">
+                    <DiffCell line={row.left} className={rowSideClasses[row.kind].left} />
+                    <DiffCell line={row.right} className={rowSideClasses[row.kind].right} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
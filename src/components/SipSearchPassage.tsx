@@ -0,0 +1,46 @@
+"use client";
+
+import type { SipSearchResult } from '@/types/sip';
+import Link from 'next/link';
+import React, { useMemo } from 'react';
+
+interface SipSearchPassageProps {
+  sipId: string;
+  result: SipSearchResult;
+  query: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The passage a semantic search matched, linking to its section. Words of the query that occur in
+ * it are highlighted; a semantic match often shares none.
+ */
+export default function SipSearchPassage({ sipId, result, query }: SipSearchPassageProps) {
+  const parts = useMemo(() => {
+    const words = Array.from(new Set(query.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []));
+    if (words.length === 0) return [result.passage.excerpt];
+    return result.passage.excerpt.split(new RegExp(`(${words.map(escapeRegExp).join('|')})`, 'gi'));
+  }, [query, result.passage.excerpt]);
+
+  return (
+    <div className="mt-1.5 border-l-2 border-primary/40 bg-primary/5 pl-2 py-1 text-xs font-normal text-muted-foreground">
+      <Link
+        href={`/sips/${sipId}${result.passage.anchor ? `#${result.passage.anchor}` : ''}`}
+        onClick={(e) => e.stopPropagation()}
+        className="font-semibold text-foreground/80 hover:underline"
+      >
+        {result.passage.label}
+      </Link>
+      <span className="ml-1.5 tabular-nums opacity-60" title="Similarity to the query">{result.score.toFixed(2)}</span>
+      <p className="mt-0.5 leading-relaxed">
+        {parts.map((part, index) => index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200/70 dark:bg-yellow-500/30 text-foreground rounded-sm px-0.5">{part}</mark>
+          : <React.Fragment key={index}>{part}</React.Fragment>
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+
+"use client";
+
+import type { SipStatusTransition } from '@/types/sip';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import StatusBadge from '@/components/icons/StatusBadge';
+import { ArrowRight, Milestone } from 'lucide-react';
+import { format, parseISO, isValid, formatDistanceStrict } from 'date-fns';
+import Link from 'next/link';
+import React, { useState, useEffect } from 'react';
+
+interface SipStatusHistoryProps {
+  statusHistory: SipStatusTransition[]; // Oldest first
+}
+
+const causeLabels: Record<SipStatusTransition['cause'], string> = {
+  commit: 'Commit',
+  pr_opened: 'PR opened',
+  pr_merged: 'PR merged',
+  pr_closed: 'PR closed',
+};
+
+interface TransitionTiming {
+  date: string;
+  duration: string;
+}
+
+export default function SipStatusHistory({ statusHistory }: SipStatusHistoryProps) {
+  const [timings, setTimings] = useState<TransitionTiming[]>([]);
+
+  // Durations depend on the current time, so compute them on the client only.
+  useEffect(() => {
+    const now = new Date();
+    setTimings(statusHistory.map((transition, index) => {
+      const start = parseISO(transition.at);
+      const nextTransition = statusHistory[index + 1];
+      const end = nextTransition ? parseISO(nextTransition.at) : now;
+      if (!isValid(start) || !isValid(end)) {
+        return { date: 'Date N/A', duration: '' };
+      }
+      return {
+        date: format(start, 'MMM d, yyyy'),
+        duration: `${formatDistanceStrict(start, end)}${nextTransition ? '' : ' so far'}`,
+      };
+    }));
+  }, [statusHistory]);
+
+  return (
+    <Card className="shadow-lg w-full mt-6">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl flex items-center gap-2">
+          <Milestone size={24} className="text-primary" /> Status History
+        </CardTitle>
+        <CardDescription>
+          Status changes derived from the proposal's frontmatter and its pull request, with how long each status lasted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-3">
+          {statusHistory.map((transition, index) => (
+            <li key={`${transition.ref}-${index}`} className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+              <span className="w-28 shrink-0 text-muted-foreground">{timings[index]?.date}</span>
+              <div className="flex items-center gap-1.5">
+                {transition.from && (
+                  <>
+                    <StatusBadge status={transition.from} />
+                    <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                  </>
+                )}
+                <StatusBadge status={transition.to} />
+              </div>
+              <span className="text-xs text-muted-foreground">{timings[index]?.duration}</span>
+              <Link href={transition.url} target="_blank" rel="noopener noreferrer" className="ml-auto text-xs text-accent hover:underline">
+                {causeLabels[transition.cause]} {transition.cause === 'commit' ? transition.ref.substring(0, 7) : transition.ref}
+              </Link>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
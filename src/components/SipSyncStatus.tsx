@@ -0,0 +1,31 @@
+
+"use client";
+
+import type { SipSyncStatus as SipSyncStatusData } from '@/types/sip';
+import { formatDistanceToNow, parseISO, isValid } from 'date-fns';
+import { RefreshCw } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+interface SipSyncStatusProps {
+  status: SipSyncStatusData;
+  className?: string;
+}
+
+export default function SipSyncStatus({ status, className }: SipSyncStatusProps) {
+  const [relativeDate, setRelativeDate] = useState<string | null>(null);
+
+  // Computed after mount so the server and client render the same markup.
+  useEffect(() => {
+    const date = status.syncedAt ? parseISO(status.syncedAt) : null;
+    setRelativeDate(date && isValid(date) ? `${formatDistanceToNow(date)} ago` : null);
+  }, [status.syncedAt]);
+
+  return (
+    <p className={cn('flex items-center gap-1.5 text-xs text-muted-foreground', className)} title={status.syncedAt || undefined}>
+      <RefreshCw className={cn('h-3 w-3', status.refreshing && 'animate-spin')} aria-hidden="true" />
+      {status.syncedAt ? <>Last synced {relativeDate || '…'}</> : 'Not synced yet'}
+      {status.refreshing && <span>· refreshing in the background</span>}
+    </p>
+  );
+}
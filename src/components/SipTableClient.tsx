@@ -1,7 +1,7 @@
 
 "use client";
 
-import type { SIP, SipStatus } from '@/types/sip';
+import type { SIP, SipStatus, SipRepositoryInfo } from '@/types/sip';
 import { useState, useMemo, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { Input } from '@/components/ui/input';
@@ -17,19 +17,27 @@ import {
 import { Card, CardContent } from '@/components/ui/card';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import StatusBadge from '@/components/icons/StatusBadge'; // Import StatusBadge
-import { ArrowUpDown, Search, X, ExternalLink } from 'lucide-react';
-import { format, parseISO, isValid } from 'date-fns';
+import ConflictBadge from '@/components/icons/ConflictBadge';
+import { ArrowUpDown, Search, X, ExternalLink, Clock } from 'lucide-react';
+import { format, parseISO, isValid, formatDistanceToNowStrict } from 'date-fns';
 import { getPrimaryTopicEmoji } from '@/lib/sips_categorization';
 import { cn } from '@/lib/utils';
-import { getFriendlySipStatusLabel } from '@/lib/sips_utils';
+import SearchModeToggle from '@/components/SearchModeToggle';
+import SipSearchPassage from '@/components/SipSearchPassage';
+import { useSemanticSipSearch, type SipSearchMode } from '@/hooks/use-semantic-sip-search';
+import { getFriendlySipStatusLabel, getCurrentStatusSince, getSipReviewSummary } from '@/lib/sips_utils';
 
 
 interface SipTableClientProps {
   sips: SIP[];
+  repositories?: SipRepositoryInfo[]; // The repository filter is shown when there is more than one
 }
 
-type SortKey = keyof Pick<SIP, 'id' | 'title' | 'status' | 'updatedAt' | 'createdAt' | 'mergedAt' | 'cleanTitle'>;
+const ALL_REPOSITORIES = 'all';
+
+type SortKey = keyof Pick<SIP, 'id' | 'title' | 'status' | 'updatedAt' | 'createdAt' | 'mergedAt' | 'cleanTitle'> | 'statusSince';
 
 interface SipTableDisplayInfo {
   label: string;
@@ -86,14 +94,17 @@ const segmentToStatusesMap: Record<Exclude<FilterSegment, "All">, SipStatus[]> =
   "Rejected": ["Rejected", "Closed (unmerged)"],
 };
 
-export default function SipTableClient({ sips: initialSips }: SipTableClientProps) {
+export default function SipTableClient({ sips: initialSips, repositories = [] }: SipTableClientProps) {
   const router = useRouter();
   const [sips, setSips] = useState(initialSips);
   const [searchTerm, setSearchTerm] = useState('');
+  const [searchMode, setSearchMode] = useState<SipSearchMode>('keyword');
   const [sortKey, setSortKey] = useState<SortKey>('mergedAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [selectedStatuses, setSelectedStatuses] = useState<SipStatus[]>([]);
   const [activeFilterSegment, setActiveFilterSegment] = useState<FilterSegment>("All");
+  const [awaitingReviewOnly, setAwaitingReviewOnly] = useState(false);
+  const [selectedRepository, setSelectedRepository] = useState<string>(ALL_REPOSITORIES);
 
   useEffect(() => {
     setSips(initialSips);
@@ -122,24 +133,32 @@ export default function SipTableClient({ sips: initialSips }: SipTableClientProp
       setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
     } else {
       setSortKey(key);
-      setSortOrder(key === 'mergedAt' || key === 'updatedAt' || key === 'createdAt' ? 'desc' : 'asc');
+      setSortOrder(key === 'mergedAt' || key === 'updatedAt' || key === 'createdAt' ? 'desc' : 'asc'); // 'statusSince' asc = longest in status first
     }
   };
 
+  const semanticSearch = useSemanticSipSearch(searchTerm, searchMode === 'semantic');
+  const isSemanticQuery = searchMode === 'semantic' && searchTerm.trim() !== '';
+
   const filteredAndSortedSips = useMemo(() => {
     let filtered = sips.filter(sip => {
       const titleToSearch = sip.cleanTitle || sip.title;
-      const searchMatch =
+      const searchMatch = isSemanticQuery ? Boolean(semanticSearch.results?.has(sip.id)) :
         titleToSearch.toLowerCase().includes(searchTerm.toLowerCase()) ||
         sip.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
         sip.summary.toLowerCase().includes(searchTerm.toLowerCase());
 
       const statusMatch = selectedStatuses.length === 0 || selectedStatuses.includes(sip.status);
+      const reviewMatch = !awaitingReviewOnly || getSipReviewSummary(sip).awaitingReview;
+      const repositoryMatch = selectedRepository === ALL_REPOSITORIES || sip.repository === selectedRepository;
       
-      return searchMatch && statusMatch;
+      return searchMatch && statusMatch && reviewMatch && repositoryMatch;
     });
 
-    if (sortKey) {
+    if (isSemanticQuery) {
+      // Semantic results are ranked by similarity; the column sort applies again in keyword mode
+      filtered.sort((a, b) => (semanticSearch.results?.get(b.id)?.score ?? 0) - (semanticSearch.results?.get(a.id)?.score ?? 0));
+    } else if (sortKey) {
       filtered.sort((a, b) => {
         let valA: any;
         let valB: any;
@@ -150,12 +169,15 @@ export default function SipTableClient({ sips: initialSips }: SipTableClientProp
         } else if (sortKey === 'cleanTitle') {
             valA = a.cleanTitle || a.title;
             valB = b.cleanTitle || b.title;
+        } else if (sortKey === 'statusSince') {
+            valA = getCurrentStatusSince(a);
+            valB = getCurrentStatusSince(b);
         } else {
             valA = a[sortKey as keyof SIP];
             valB = b[sortKey as keyof SIP];
         }
         
-        if (sortKey === 'updatedAt' || sortKey === 'createdAt' || sortKey === 'mergedAt') {
+        if (sortKey === 'updatedAt' || sortKey === 'createdAt' || sortKey === 'mergedAt' || sortKey === 'statusSince') {
           const dateA = valA && isValid(parseISO(valA)) ? parseISO(valA).getTime() : (sortOrder === 'asc' ? Infinity : -Infinity);
           const dateB = valB && isValid(parseISO(valB)) ? parseISO(valB).getTime() : (sortOrder === 'asc' ? Infinity : -Infinity);
           return sortOrder === 'asc' ? dateA - dateB : dateB - dateA;
@@ -174,7 +196,7 @@ export default function SipTableClient({ sips: initialSips }: SipTableClientProp
       });
     }
     return filtered;
-  }, [sips, searchTerm, sortKey, sortOrder, selectedStatuses, formatDate]);
+  }, [sips, searchTerm, sortKey, sortOrder, selectedStatuses, awaitingReviewOnly, selectedRepository, formatDate, isSemanticQuery, semanticSearch.results]);
 
   const renderSortIcon = (key: SortKey) => {
     if (sortKey === key) {
@@ -190,9 +212,11 @@ export default function SipTableClient({ sips: initialSips }: SipTableClientProp
   const clearFilters = () => {
     setActiveFilterSegment("All");
     setSearchTerm('');
+    setAwaitingReviewOnly(false);
+    setSelectedRepository(ALL_REPOSITORIES);
   };
   
-  const hasActiveFilters = activeFilterSegment !== "All" || searchTerm !== '';
+  const hasActiveFilters = activeFilterSegment !== "All" || searchTerm !== '' || awaitingReviewOnly || selectedRepository !== ALL_REPOSITORIES;
 
   return (
     <TooltipProvider delayDuration={100}>
@@ -202,12 +226,26 @@ export default function SipTableClient({ sips: initialSips }: SipTableClientProp
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
             <Input
               type="text"
-              placeholder="Search SIPs by ID, title, or summary..."
+              placeholder={searchMode === 'semantic' ? 'Describe what you are looking for, e.g. "reduce storage costs for objects"' : "Search SIPs by ID, title, or summary..."}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="pl-10 w-full shadow-sm"
             />
           </div>
+          <SearchModeToggle mode={searchMode} onModeChange={setSearchMode} isSearching={semanticSearch.isSearching} isIndexing={semanticSearch.isIndexing} error={semanticSearch.error} />
+          {repositories.length > 1 && (
+            <Select value={selectedRepository} onValueChange={setSelectedRepository}>
+              <SelectTrigger className="w-full md:w-[220px] shadow-sm" aria-label="Filter SIPs by repository">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_REPOSITORIES}>All repositories</SelectItem>
+                {repositories.map(repository => (
+                  <SelectItem key={repository.id} value={repository.id}>{repository.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
 
         <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
@@ -227,6 +265,19 @@ export default function SipTableClient({ sips: initialSips }: SipTableClientProp
                 {segment}
               </Button>
             ))}
+            <Button
+              variant={awaitingReviewOnly ? "default" : "outline"}
+              onClick={() => setAwaitingReviewOnly(!awaitingReviewOnly)}
+              aria-pressed={awaitingReviewOnly}
+              className={cn(
+                "shadow-sm",
+                awaitingReviewOnly
+                  ? "bg-primary text-primary-foreground hover:bg-primary/90"
+                  : "hover:bg-accent hover:text-accent-foreground"
+              )}
+            >
+              <Clock className="mr-2 h-4 w-4" /> Awaiting Review
+            </Button>
           </div>
           {hasActiveFilters && (
             <Button variant="ghost" onClick={clearFilters} className="text-accent hover:text-accent/90 self-start sm:self-center">
@@ -250,6 +301,9 @@ export default function SipTableClient({ sips: initialSips }: SipTableClientProp
                     <TableHead onClick={() => handleSort('status')} className="group cursor-pointer hover:bg-muted/50 w-[160px]">
                       Status {renderSortIcon('status')}
                     </TableHead>
+                    <TableHead onClick={() => handleSort('statusSince')} className="group cursor-pointer hover:bg-muted/50 w-[130px] text-right">
+                      In Status {renderSortIcon('statusSince')}
+                    </TableHead>
                     <TableHead onClick={() => handleSort('mergedAt')} className="group cursor-pointer hover:bg-muted/50 w-[150px] text-right">
                       Approved On {renderSortIcon('mergedAt')}
                     </TableHead>
@@ -262,6 +316,7 @@ export default function SipTableClient({ sips: initialSips }: SipTableClientProp
                   {filteredAndSortedSips.map((sip) => {
                     const displayInfo = getSipTableDisplayInfo(sip, formatDate);
                     const topicEmoji = getPrimaryTopicEmoji(sip);
+                    const statusSince = getCurrentStatusSince(sip);
                     const summaryForTooltip = sip.summary && sip.summary !== INSUFFICIENT_SUMMARY_PLACEHOLDER
                                               ? (sip.summary.length > 120 ? sip.summary.substring(0, 117) + "..." : sip.summary)
                                               : "No summary available.";
@@ -272,14 +327,23 @@ export default function SipTableClient({ sips: initialSips }: SipTableClientProp
                             onClick={() => handleRowClick(sip.id)} 
                             className="cursor-pointer hover:bg-muted/50 dark:hover:bg-muted/30 transition-colors duration-150 ease-in-out"
                           >
-                            <TableCell className="font-mono text-sm">{sip.id}</TableCell>
+                            <TableCell className="font-mono text-sm">
+                              {sip.id}
+                              {sip.conflict && <div className="mt-1 font-sans"><ConflictBadge conflict={sip.conflict} /></div>}
+                            </TableCell>
                             <TableCell className="font-medium">
                               <span role="img" aria-label="topic icon" className="mr-2">{topicEmoji}</span>
                               {sip.cleanTitle || sip.title}
+                              {isSemanticQuery && semanticSearch.results?.get(sip.id) && (
+                                <SipSearchPassage sipId={sip.id} result={semanticSearch.results.get(sip.id)!} query={searchTerm} />
+                              )}
                             </TableCell>
                             <TableCell>
                               <StatusBadge status={sip.status} />
                             </TableCell>
+                            <TableCell className="text-right text-sm text-muted-foreground">
+                              {statusSince && isValid(parseISO(statusSince)) ? formatDistanceToNowStrict(parseISO(statusSince)) : '—'}
+                            </TableCell>
                             <TableCell className="text-right text-sm text-muted-foreground">
                               {displayInfo.dateLabel}
                             </TableCell>
@@ -314,8 +378,8 @@ export default function SipTableClient({ sips: initialSips }: SipTableClientProp
                   })}
                   {filteredAndSortedSips.length === 0 && (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center h-24 text-muted-foreground">
-                        No SIPs found matching your criteria.
+                      <TableCell colSpan={6} className="text-center h-24 text-muted-foreground">
+                        {isSemanticQuery && semanticSearch.isSearching ? "Searching..." : "No SIPs found matching your criteria."}
                       </TableCell>
                     </TableRow>
                   )}
@@ -18,6 +18,9 @@ import StatusBadge from '@/components/icons/StatusBadge';
 import { Search, Package, CalendarDays } from 'lucide-react';
 import { format, parseISO, isValid } from 'date-fns';
 import { cn } from '@/lib/utils';
+import SearchModeToggle from '@/components/SearchModeToggle';
+import SipSearchPassage from '@/components/SipSearchPassage';
+import { useSemanticSipSearch, type SipSearchMode } from '@/hooks/use-semantic-sip-search';
 
 interface SipTopicsClientProps {
   categorizedSips: Map<TopicCategory, SIP[]>;
@@ -27,6 +30,7 @@ interface SipTopicsClientProps {
 export default function SipTopicsClient({ categorizedSips, topicOrder }: SipTopicsClientProps) {
   const router = useRouter();
   const [searchTerm, setSearchTerm] = useState('');
+  const [searchMode, setSearchMode] = useState<SipSearchMode>('keyword');
   const [openAccordions, setOpenAccordions] = useState<string[]>([]);
 
   const formatDate = (dateString?: string) => {
@@ -35,6 +39,9 @@ export default function SipTopicsClient({ categorizedSips, topicOrder }: SipTopi
     return isValid(date) ? format(date, 'MMM d, yyyy') : 'N/A';
   };
 
+  const semanticSearch = useSemanticSipSearch(searchTerm, searchMode === 'semantic');
+  const isSemanticQuery = searchMode === 'semantic' && searchTerm.trim() !== '';
+
   const filteredCategorizedSips = useMemo(() => {
     if (!searchTerm) {
       return categorizedSips;
@@ -44,7 +51,11 @@ export default function SipTopicsClient({ categorizedSips, topicOrder }: SipTopi
 
     topicOrder.forEach(topic => {
       const sipsInTopic = categorizedSips.get(topic) || [];
-      const filteredSips = sipsInTopic.filter(sip => 
+      const filteredSips = isSemanticQuery
+        ? sipsInTopic
+            .filter(sip => semanticSearch.results?.has(sip.id))
+            .sort((a, b) => (semanticSearch.results?.get(b.id)?.score ?? 0) - (semanticSearch.results?.get(a.id)?.score ?? 0))
+        : sipsInTopic.filter(sip => 
         sip.title.toLowerCase().includes(lowerSearchTerm) ||
         sip.id.toLowerCase().includes(lowerSearchTerm) ||
         sip.summary.toLowerCase().includes(lowerSearchTerm) ||
@@ -57,7 +68,7 @@ export default function SipTopicsClient({ categorizedSips, topicOrder }: SipTopi
       }
     });
     return filteredMap;
-  }, [searchTerm, categorizedSips, topicOrder]);
+  }, [searchTerm, categorizedSips, topicOrder, isSemanticQuery, semanticSearch.results]);
   
    useMemo(() => {
     if (searchTerm) {
@@ -78,15 +89,18 @@ export default function SipTopicsClient({ categorizedSips, topicOrder }: SipTopi
 
   return (
     <div className="space-y-6">
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-        <Input
-          type="text"
-          placeholder="Search SIPs across all topics..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="pl-10 w-full md:w-1/2 lg:w-1/3 shadow-sm"
-        />
+      <div className="flex flex-col md:flex-row gap-4 md:items-center">
+        <div className="relative w-full md:w-1/2 lg:w-1/3">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+          <Input
+            type="text"
+            placeholder={searchMode === 'semantic' ? "Describe what you are looking for..." : "Search SIPs across all topics..."}
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10 w-full shadow-sm"
+          />
+        </div>
+        <SearchModeToggle mode={searchMode} onModeChange={setSearchMode} isSearching={semanticSearch.isSearching} isIndexing={semanticSearch.isIndexing} error={semanticSearch.error} />
       </div>
 
       {topicOrder.length === 0 && <p>No topics found.</p>}
@@ -131,6 +145,9 @@ export default function SipTopicsClient({ categorizedSips, topicOrder }: SipTopi
                         >
                           <CardHeader className="pb-3 pt-4 px-4">
                             <CardTitle className="text-base font-medium leading-tight">{sip.id}: {sip.cleanTitle || sip.title}</CardTitle>
+                            {isSemanticQuery && semanticSearch.results?.get(sip.id) && (
+                              <SipSearchPassage sipId={sip.id} result={semanticSearch.results.get(sip.id)!} query={searchTerm} />
+                            )}
                           </CardHeader>
                           <CardContent className="flex justify-between items-center text-xs text-muted-foreground px-4 pb-3">
                             <StatusBadge status={sip.status} />
@@ -0,0 +1,20 @@
+import type { SipNumberConflict } from '@/types/sip';
+import { Badge } from '@/components/ui/badge';
+import { GitFork } from 'lucide-react';
+
+interface ConflictBadgeProps {
+  conflict: SipNumberConflict;
+}
+
+export default function ConflictBadge({ conflict }: ConflictBadgeProps) {
+  const competitorCount = conflict.competingIds.length;
+  return (
+    <Badge
+      variant="outline"
+      className="gap-1 border-orange-600/50 text-orange-700 dark:text-orange-400 whitespace-nowrap"
+      title={`${competitorCount} other ${competitorCount === 1 ? 'proposal claims' : 'proposals claim'} ${conflict.claimedId}: ${conflict.competingIds.join(', ')}`}
+    >
+      <GitFork className="h-3 w-3" /> Number conflict
+    </Badge>
+  );
+}
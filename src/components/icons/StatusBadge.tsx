@@ -9,17 +9,17 @@ interface StatusBadgeProps {
   status: SipStatus;
 }
 
-const statusConfig: Record<SipStatus, { icon: LucideIcon; colorClass: string; label: string; textColorClass?: string }> = {
-  Draft: { icon: Pencil, colorClass: 'bg-sky-500 hover:bg-sky-600', label: 'Draft', textColorClass: 'text-white' },
-  "Draft (no file)": { icon: FileQuestion, colorClass: 'bg-sky-500 hover:bg-sky-600', label: 'Draft (No File)', textColorClass: 'text-white' },
-  Proposed: { icon: MessageSquare, colorClass: 'bg-primary hover:bg-primary/90', label: 'Proposed', textColorClass: 'text-primary-foreground' },
-  Accepted: { icon: ThumbsUp, colorClass: 'bg-accent hover:bg-accent/90', label: 'Accepted', textColorClass: 'text-accent-foreground' },
-  Live: { icon: Rocket, colorClass: 'bg-accent hover:bg-accent/90', label: 'Live', textColorClass: 'text-accent-foreground' },
-  Final: { icon: Award, colorClass: 'bg-accent hover:bg-accent/90', label: 'Final', textColorClass: 'text-accent-foreground' },
-  Rejected: { icon: XCircle, colorClass: 'bg-slate-500 hover:bg-slate-600', label: 'Rejected', textColorClass: 'text-white' },
-  Withdrawn: { icon: Undo2, colorClass: 'bg-slate-500 hover:bg-slate-600', label: 'Withdrawn', textColorClass: 'text-white' },
-  Archived: { icon: Archive, colorClass: 'bg-slate-500 hover:bg-slate-600', label: 'Archived', textColorClass: 'text-white' },
-  "Closed (unmerged)": { icon: ArchiveX, colorClass: 'bg-slate-500 hover:bg-slate-600', label: 'Closed (Unmerged)', textColorClass: 'text-white' },
+export const statusConfig: Record<SipStatus, { icon: LucideIcon; colorClass: string; label: string; textColorClass?: string; fillClass: string }> = {
+  Draft: { icon: Pencil, colorClass: 'bg-sky-500 hover:bg-sky-600', label: 'Draft', textColorClass: 'text-white', fillClass: 'fill-sky-500' },
+  "Draft (no file)": { icon: FileQuestion, colorClass: 'bg-sky-500 hover:bg-sky-600', label: 'Draft (No File)', textColorClass: 'text-white', fillClass: 'fill-sky-500' },
+  Proposed: { icon: MessageSquare, colorClass: 'bg-primary hover:bg-primary/90', label: 'Proposed', textColorClass: 'text-primary-foreground', fillClass: 'fill-primary' },
+  Accepted: { icon: ThumbsUp, colorClass: 'bg-accent hover:bg-accent/90', label: 'Accepted', textColorClass: 'text-accent-foreground', fillClass: 'fill-accent' },
+  Live: { icon: Rocket, colorClass: 'bg-accent hover:bg-accent/90', label: 'Live', textColorClass: 'text-accent-foreground', fillClass: 'fill-accent' },
+  Final: { icon: Award, colorClass: 'bg-accent hover:bg-accent/90', label: 'Final', textColorClass: 'text-accent-foreground', fillClass: 'fill-accent' },
+  Rejected: { icon: XCircle, colorClass: 'bg-slate-500 hover:bg-slate-600', label: 'Rejected', textColorClass: 'text-white', fillClass: 'fill-slate-500' },
+  Withdrawn: { icon: Undo2, colorClass: 'bg-slate-500 hover:bg-slate-600', label: 'Withdrawn', textColorClass: 'text-white', fillClass: 'fill-slate-500' },
+  Archived: { icon: Archive, colorClass: 'bg-slate-500 hover:bg-slate-600', label: 'Archived', textColorClass: 'text-white', fillClass: 'fill-slate-500' },
+  "Closed (unmerged)": { icon: ArchiveX, colorClass: 'bg-slate-500 hover:bg-slate-600', label: 'Closed (Unmerged)', textColorClass: 'text-white', fillClass: 'fill-slate-500' },
 };
 
 export default function StatusBadge({ status }: StatusBadgeProps) {
@@ -1,7 +1,7 @@
 
 import Link from 'next/link';
 import { ThemeToggle } from '@/components/ThemeToggle';
-import { Rss, LayoutGrid, History, Info } from 'lucide-react'; // Added Info
+import { Rss, LayoutGrid, History, Info, FileWarning, GitFork, Network } from 'lucide-react'; // Added Info
 import OnboardingTooltip from '@/components/OnboardingTooltip'; // Import the new component
 
 export default function MainHeader() {
@@ -20,6 +20,15 @@ export default function MainHeader() {
           <Link href="/topics" className="text-muted-foreground transition-colors hover:text-primary flex items-center gap-1">
             <LayoutGrid size={16} /> Topics
           </Link>
+          <Link href="/graph" className="text-muted-foreground transition-colors hover:text-primary flex items-center gap-1">
+            <Network size={16} /> Graph
+          </Link>
+          <Link href="/lint" className="text-muted-foreground transition-colors hover:text-primary flex items-center gap-1">
+            <FileWarning size={16} /> Lint
+          </Link>
+          <Link href="/editor" className="text-muted-foreground transition-colors hover:text-primary flex items-center gap-1">
+            <GitFork size={16} /> Editor
+          </Link>
         </nav>
 
         <div className="flex flex-1 items-center justify-end space-x-2">
@@ -4,6 +4,7 @@ import type { SIP } from '@/types/sip';
 export const sampleSips: SIP[] = [
   {
     id: "sip-001",
+    repository: "sips",
     title: "Enable Deterministic Gas Pricing",
     status: "Live",
     labels: ["gas", "economics", "core"],
@@ -64,6 +65,7 @@ This change aims to significantly improve the economic predictability of the Sui
   },
   {
     id: "sip-002",
+    repository: "sips",
     title: "Advanced Programmable Transaction Blocks",
     status: "Accepted",
     labels: ["transactions", "developer-experience", "core"],
@@ -115,6 +117,7 @@ The expressiveness of APTBs requires careful consideration of gas limits and pot
   },
   {
     id: "sip-003",
+    repository: "sips",
     title: "On-chain Governance Framework",
     status: "Draft",
     labels: ["governance", "staking", "community"],
@@ -164,6 +167,7 @@ This Sui Improvement Proposal (SIP) outlines a comprehensive framework for on-ch
   },
   {
     id: "sip-004",
+    repository: "sips",
     title: "Standardized NFT Metadata Extension",
     status: "Proposed",
     labels: ["nfts", "standards", "interoperability"],
@@ -208,6 +212,7 @@ The proposed standard extends the basic Sui object metadata with a dedicated \`e
   },
   {
     id: "sip-005",
+    repository: "sips",
     title: "DeepBook Ecosystem Fund Proposal",
     status: "Draft (no file)",
     labels: ["community", "funding", "deepbook"],
@@ -222,6 +227,7 @@ The proposed standard extends the basic Sui object metadata with a dedicated \`e
   },
    {
     id: "sip-006",
+    repository: "sips",
     title: "Withdrawn Feature X",
     status: "Withdrawn",
     labels: ["withdrawn", "feature-x"],
@@ -0,0 +1,61 @@
+import * as React from "react"
+import type { SipSearchResult, SipSearchResponse } from "@/types/sip"
+
+const SEARCH_DEBOUNCE_MS = 400
+const SEARCH_RESULT_LIMIT = 50
+
+export type SipSearchMode = "keyword" | "semantic"
+
+export interface SemanticSipSearch {
+  results: Map<string, SipSearchResult> | null // By SIP ID; null until the first response for the current query
+  isSearching: boolean
+  isIndexing: boolean // The server is still embedding SIPs, so results may be incomplete
+  error: string | null
+}
+
+/** Debounced `/api/sips/search` requests for `query` while `enabled`; stale responses are dropped. */
+export function useSemanticSipSearch(query: string, enabled: boolean): SemanticSipSearch {
+  const [results, setResults] = React.useState<Map<string, SipSearchResult> | null>(null)
+  const [isSearching, setIsSearching] = React.useState(false)
+  const [isIndexing, setIsIndexing] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const trimmedQuery = query.trim()
+
+  React.useEffect(() => {
+    setResults(null)
+    setIsIndexing(false)
+    setError(null)
+    if (!enabled || !trimmedQuery) {
+      setIsSearching(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsSearching(true)
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/sips/search?q=${encodeURIComponent(trimmedQuery)}&limit=${SEARCH_RESULT_LIMIT}`, { signal: controller.signal })
+        if (!response.ok) {
+          const errorBody = await response.json().catch(() => null)
+          throw new Error(errorBody?.error || `Request failed with status ${response.status}`)
+        }
+        const { results: searchResults, indexing }: SipSearchResponse = await response.json()
+        setResults(new Map(searchResults.map(result => [result.id, result])))
+        setIsIndexing(indexing)
+      } catch (searchError) {
+        if (controller.signal.aborted) return
+        console.error("Semantic search failed:", searchError)
+        setError(searchError instanceof Error ? searchError.message : "Semantic search failed.")
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeoutId)
+      controller.abort()
+    }
+  }, [trimmedQuery, enabled])
+
+  return { results, isSearching, isIndexing, error }
+}
@@ -0,0 +1,50 @@
+
+import { createHash } from 'crypto';
+import { createFileStore, type KeyValueStore } from '@/lib/file_store';
+import { createFirestoreStore, isSipStoreEnabled } from '@/lib/sips_store';
+import { PROMPT_VERSIONS, type AiTask } from '@/ai/prompt_versions';
+import { resolveAiProvider } from '@/ai/providers';
+
+const FALLBACK_OUTPUT_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+interface StoredAiOutput {
+  output: unknown;
+  isFallback: boolean;
+  storedAt: number; // epoch ms
+}
+
+// In Firestore when it is configured, so new instances reuse the outputs; the cache directory is per instance.
+const aiOutputStore: KeyValueStore<StoredAiOutput> = isSipStoreEnabled
+  ? createFirestoreStore<StoredAiOutput>('aiOutputs')
+  : createFileStore<StoredAiOutput>('ai-outputs');
+
+/**
+ * The key an AI output is stored under: the task, its prompt version, the model and a hash of the
+ * exact input. Switching models, e.g. to the offline fake one, never serves another model's outputs.
+ */
+export function aiOutputKey(task: AiTask, input: unknown): string {
+  const inputHash = createHash('sha256').update(JSON.stringify(input)).digest('hex');
+  return `${task}:v${PROMPT_VERSIONS[task]}:${resolveAiProvider().model}:${inputHash}`;
+}
+
+/**
+ * Returns the stored output of `task` for exactly this `input`, or runs `generate` and stores its
+ * result. Unchanged inputs therefore never reach the model again, and bumping a prompt version
+ * only invalidates that task's outputs. Outputs `isFallback` flags (the model could not or did not
+ * answer) are kept for an hour only, so transient failures are retried. Errors are not stored.
+ */
+export async function cachedAiOutput<TInput, TOutput>(
+  task: AiTask,
+  input: TInput,
+  generate: (input: TInput) => Promise<TOutput>,
+  isFallback: (output: TOutput) => boolean,
+): Promise<TOutput> {
+  const key = aiOutputKey(task, input);
+  const stored = await aiOutputStore.get(key);
+  if (stored && (!stored.isFallback || Date.now() - stored.storedAt < FALLBACK_OUTPUT_TTL_MS)) {
+    return stored.output as TOutput;
+  }
+  const output = await generate(input);
+  await aiOutputStore.set(key, { output, isFallback: isFallback(output), storedAt: Date.now() });
+  return output;
+}
@@ -0,0 +1,91 @@
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * Minimal async key-value store used for data that should survive process restarts
+ * (GitHub responses, sync state, etc.).
+ */
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const MAX_MEMO_ENTRIES = 100; // Per namespace; the least recently used entries are read from disk again
+
+interface StoredRecord<T> {
+  key: string;
+  value: T;
+}
+
+export function getCacheRootDir(): string {
+  return path.resolve(process.env.SIPVIEW_CACHE_DIR || '.sipview-cache');
+}
+
+/**
+ * File-backed store: one JSON file per key under `<SIPVIEW_CACHE_DIR>/<namespace>/`, named by
+ * the SHA-1 of the key. The most recently used entries are memoised in-process, and callers always
+ * get their own copy, so mutating a value never changes what is stored. Failures are logged and
+ * never thrown, so a broken cache directory degrades to a cache miss instead of a failed request.
+ */
+export function createFileStore<T>(namespace: string): KeyValueStore<T> {
+  const memory = new Map<string, T>(); // In least recently used order
+  const namespaceDir = path.join(getCacheRootDir(), namespace);
+
+  const remember = (key: string, value: T) => {
+    memory.delete(key);
+    memory.set(key, value);
+    if (memory.size > MAX_MEMO_ENTRIES) {
+      memory.delete(memory.keys().next().value!);
+    }
+  };
+
+  const filePathForKey = (key: string) =>
+    path.join(namespaceDir, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+  return {
+    async get(key) {
+      if (memory.has(key)) {
+        const value = memory.get(key)!;
+        remember(key, value);
+        return structuredClone(value);
+      }
+      try {
+        const raw = await fs.readFile(filePathForKey(key), 'utf8');
+        const record = JSON.parse(raw) as StoredRecord<T>;
+        if (record.key !== key) {
+          return undefined;
+        }
+        remember(key, record.value);
+        return structuredClone(record.value);
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') {
+          console.warn(`createFileStore(${namespace}): Failed to read entry for ${key}: ${error?.message}`);
+        }
+        return undefined;
+      }
+    },
+    async set(key, value) {
+      remember(key, structuredClone(value));
+      try {
+        await fs.mkdir(namespaceDir, { recursive: true });
+        const record: StoredRecord<T> = { key, value };
+        await fs.writeFile(filePathForKey(key), JSON.stringify(record), 'utf8');
+      } catch (error: any) {
+        console.warn(`createFileStore(${namespace}): Failed to write entry for ${key}: ${error?.message}`);
+      }
+    },
+    async delete(key) {
+      memory.delete(key);
+      try {
+        await fs.unlink(filePathForKey(key));
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') {
+          console.warn(`createFileStore(${namespace}): Failed to delete entry for ${key}: ${error?.message}`);
+        }
+      }
+    },
+  };
+}
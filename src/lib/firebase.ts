@@ -1,25 +1,39 @@
+
 import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
-import { getFirestore, Firestore } from 'firebase/firestore';
+import { initializeFirestore, getFirestore, connectFirestoreEmulator, Firestore } from 'firebase/firestore';
 
 // Your web app's Firebase configuration
 // IMPORTANT: Replace with your actual Firebase project configuration
 // It's recommended to store these in environment variables
+const firestoreEmulatorHost = process.env.FIRESTORE_EMULATOR_HOST || process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST;
+
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
   authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
-  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  // The emulator accepts any project ID; "demo-" projects never touch production resources.
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || (firestoreEmulatorHost ? 'demo-sipview' : undefined),
   storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
   messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
   appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
 };
 
+/** True when a Firebase project (or the Firestore emulator) is configured. */
+const isFirestoreConfigured = Boolean(firebaseConfig.projectId);
+
 let app: FirebaseApp;
+let db: Firestore;
 if (!getApps().length) {
   app = initializeApp(firebaseConfig);
+  // SIP records carry many optional fields; let Firestore drop `undefined` instead of rejecting the write.
+  db = initializeFirestore(app, { ignoreUndefinedProperties: true });
+  if (firestoreEmulatorHost) {
+    const [host, port] = firestoreEmulatorHost.split(':');
+    connectFirestoreEmulator(db, host, Number(port) || 8080);
+    console.log(`Firestore: Using emulator at ${host}:${Number(port) || 8080}.`);
+  }
 } else {
   app = getApps()[0];
+  db = getFirestore(app);
 }
 
-const db: Firestore = getFirestore(app);
-
-export { db, app };
+export { db, app, isFirestoreConfigured };
@@ -0,0 +1,277 @@
+
+import { createFileStore } from '@/lib/file_store';
+import { githubRequestScheduler, isGitHubRateLimitError, createRateLimitError } from '@/lib/github_scheduler';
+import { createHash } from 'crypto';
+
+export const GITHUB_API_URL = 'https://api.github.com';
+const GITHUB_GRAPHQL_URL = `${GITHUB_API_URL}/graphql`;
+const MAX_BODY_LOG_LENGTH = 500;
+const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * A previously fetched response. `etag`/`lastModified` are replayed as
+ * `If-None-Match`/`If-Modified-Since` so unchanged resources come back as 304.
+ */
+export interface StoredGitHubResponse {
+  etag?: string;
+  lastModified?: string;
+  link?: string; // Pagination `Link` header, if any
+  body: string;
+  storedAt: number; // epoch ms of the last 200 or 304
+}
+
+const responseStore = createFileStore<StoredGitHubResponse>('github-responses');
+
+/** The `data` of a GraphQL response, keyed by a hash of the query and its variables. */
+interface StoredGraphQLResponse {
+  data: any;
+  storedAt: number;
+}
+
+const graphQLResponseStore = createFileStore<StoredGraphQLResponse>('github-graphql');
+const inFlightGraphQLRequests = new Map<string, Promise<any>>();
+
+function buildAuthHeaders(url: string, requestKind: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const token = process.env.GITHUB_TOKEN;
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  } else {
+    console.warn(`${requestKind} to ${url} is UNAUTHENTICATED. GITHUB_TOKEN not found. Rate limits will be lower.`);
+  }
+  return headers;
+}
+
+/**
+ * Fetches `url` through the persistent response store and returns the stored response.
+ * Entries younger than `revalidateTime` seconds are served without a request; older ones
+ * are revalidated with a conditional request and a 304 serves the stored body.
+ * Requests go through the shared scheduler, which caps concurrency and waits out rate limits.
+ * Non-OK responses are handed to `onError`, which must throw.
+ */
+async function fetchThroughResponseStore(
+  url: string,
+  headers: Record<string, string>,
+  revalidateTime: number,
+  onError: (response: Response) => Promise<never>,
+): Promise<StoredGitHubResponse> {
+  const stored = await responseStore.get(url);
+  if (stored && Date.now() - stored.storedAt < revalidateTime * 1000) {
+    return stored;
+  }
+
+  const requestHeaders = { ...headers };
+  if (stored?.etag) {
+    requestHeaders['If-None-Match'] = stored.etag;
+  } else if (stored?.lastModified) {
+    requestHeaders['If-Modified-Since'] = stored.lastModified;
+  }
+
+  // The response store handles caching, so bypass the Next.js data cache to actually see 304s.
+  const response = await githubRequestScheduler.fetch(url, { headers: requestHeaders, cache: 'no-store' });
+
+  if (response.status === 304 && stored) {
+    const revalidated = { ...stored, storedAt: Date.now() };
+    await responseStore.set(url, revalidated);
+    return revalidated;
+  }
+  if (!response.ok) {
+    return onError(response);
+  }
+
+  const fresh: StoredGitHubResponse = {
+    etag: response.headers.get('etag') || undefined,
+    lastModified: response.headers.get('last-modified') || undefined,
+    link: response.headers.get('link') || undefined,
+    body: await response.text(),
+    storedAt: Date.now(),
+  };
+  await responseStore.set(url, fresh);
+  return fresh;
+}
+
+/** Extracts the `rel="next"` URL from a GitHub `Link` header. */
+function parseNextPageUrl(linkHeader?: string): string | null {
+  if (!linkHeader) return null;
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+    if (match && match[2].split(/\s+/).includes('next')) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+export async function fetchFromGitHubAPI(url: string, revalidateTime: number = 300): Promise<any> {
+  return (await fetchGitHubAPIPage(url, revalidateTime)).data;
+}
+
+/**
+ * Fetches a list endpoint and follows its `Link: rel="next"` headers, concatenating every page.
+ * Stops after `maxPages` pages so a runaway thread cannot exhaust the rate limit.
+ */
+export async function fetchAllPagesFromGitHubAPI<T = any>(url: string, revalidateTime: number = 300, maxPages: number = DEFAULT_MAX_PAGES): Promise<T[]> {
+  const items: T[] = [];
+  let nextUrl: string | null = url;
+  for (let page = 1; nextUrl && page <= maxPages; page++) {
+    const { data, nextPageUrl }: { data: any; nextPageUrl: string | null } = await fetchGitHubAPIPage(nextUrl, revalidateTime);
+    if (!Array.isArray(data)) {
+      throw new Error(`GitHub API request for ${nextUrl} did not return a list.`);
+    }
+    items.push(...data);
+    nextUrl = nextPageUrl;
+  }
+  if (nextUrl) {
+    console.warn(`fetchAllPagesFromGitHubAPI: Stopped after ${maxPages} pages for ${url}; remaining pages were not fetched.`);
+  }
+  return items;
+}
+
+async function fetchGitHubAPIPage(url: string, revalidateTime: number): Promise<{ data: any; nextPageUrl: string | null }> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github.v3+json',
+    ...buildAuthHeaders(url, 'GitHub API request'),
+  };
+
+  try {
+    const stored = await fetchThroughResponseStore(url, headers, revalidateTime, async (response) => {
+      let errorBodyText = 'Could not read error body';
+      try {
+        errorBodyText = await response.text();
+      } catch (e) {
+         console.warn(`Failed to read error body for ${url}:`, e);
+      }
+      const safeErrorBody = typeof errorBodyText === 'string' ? errorBodyText : String(errorBodyText);
+      const truncatedErrorBody = safeErrorBody.length > MAX_BODY_LOG_LENGTH ? safeErrorBody.substring(0, MAX_BODY_LOG_LENGTH) + "..." : safeErrorBody;
+
+      const rateLimitRemaining = response.headers.get('x-ratelimit-remaining');
+      const rateLimitReset = response.headers.get('x-ratelimit-reset');
+      const statusText = response.statusText || 'Unknown Status';
+
+      console.error(`GitHub API request failed: ${response.status} ${statusText} for ${url}. RL-Remaining: ${rateLimitRemaining}, RL-Reset: ${rateLimitReset}. Body: ${truncatedErrorBody}`);
+      throw new Error(`GitHub API request failed for ${url}: ${response.status} ${statusText} (RL-Remaining: ${rateLimitRemaining})`);
+    });
+    return { data: JSON.parse(stored.body), nextPageUrl: parseNextPageUrl(stored.link) };
+  } catch (error: any) {
+    if (isGitHubRateLimitError(error)) {
+      console.error(error.message);
+      throw error;
+    }
+    const errorType = error?.name || 'UnknownError';
+    const errorMessageDetail = error?.message || String(error);
+    const baseMessage = `Error during fetch or JSON parsing for GitHub API URL ${url}. Type: ${errorType}. Detail: ${errorMessageDetail}`;
+
+    console.error(baseMessage, error?.stack);
+    if (errorType !== 'AbortError' && errorType !== 'Error' && error.stack) {
+        console.error("Full error object in fetchFromGitHubAPI:", error);
+    }
+
+    if (errorType === 'AbortError') {
+      throw new Error(`GitHub API request timed out for ${url}.`);
+    }
+    if (error.message && (error.message.startsWith("GitHub API request failed for") || error.message.startsWith("GitHub API request timed out for"))) {
+        throw error;
+    }
+    throw new Error(baseMessage);
+  }
+}
+
+export async function fetchRawContent(url: string, revalidateTime: number = 300): Promise<string> {
+  const headers = buildAuthHeaders(url, 'Raw content fetch');
+
+  try {
+    const stored = await fetchThroughResponseStore(url, headers, revalidateTime, async (response) => {
+      throw new Error(`Failed to fetch raw content: ${response.status} ${response.statusText} for ${url}`);
+    });
+    return stored.body;
+  } catch (error: any) {
+    if (isGitHubRateLimitError(error)) {
+      console.error(error.message);
+      throw error;
+    }
+    const errorType = error?.name || 'UnknownError';
+    const errorMessageDetail = error?.message || String(error);
+    const fullErrorMessage = `Error fetching raw content from URL ${url}. Type: ${errorType}. Detail: ${errorMessageDetail}`;
+
+    console.error(fullErrorMessage);
+     if (errorType !== 'AbortError' && errorType !== 'Error' && error.stack) {
+        console.error("Full error object in fetchRawContent:", error);
+    }
+
+    if (errorType === 'AbortError') {
+      throw new Error(`Raw content fetch timed out for ${url}.`);
+    }
+     if (error.message && (error.message.startsWith("Failed to fetch raw content:") || error.message.startsWith("Raw content fetch timed out for"))) {
+        throw error;
+    }
+    throw new Error(fullErrorMessage);
+  }
+}
+
+/**
+ * Runs a GitHub GraphQL query and returns its `data`. Responses are kept in their own store and
+ * served for `revalidateTime` seconds; GraphQL POSTs cannot be revalidated with conditional
+ * requests, so older entries are fetched again. Identical queries already in flight share one
+ * request. The GraphQL API only accepts authenticated requests.
+ */
+export async function fetchFromGitHubGraphQL<T = any>(query: string, variables: Record<string, unknown>, revalidateTime: number = 300): Promise<T> {
+  const key = createHash('sha1').update(JSON.stringify({ query, variables })).digest('hex');
+  const inFlight = inFlightGraphQLRequests.get(key);
+  if (inFlight) {
+    return inFlight;
+  }
+  const request = fetchGraphQLThroughStore(key, query, variables, revalidateTime)
+    .finally(() => inFlightGraphQLRequests.delete(key));
+  inFlightGraphQLRequests.set(key, request);
+  return request;
+}
+
+async function fetchGraphQLThroughStore(key: string, query: string, variables: Record<string, unknown>, revalidateTime: number): Promise<any> {
+  const stored = await graphQLResponseStore.get(key);
+  if (stored && Date.now() - stored.storedAt < revalidateTime * 1000) {
+    return stored.data;
+  }
+  const token = process.env.GITHUB_TOKEN;
+  if (!token) {
+    throw new Error('GitHub GraphQL API requests need a GITHUB_TOKEN.');
+  }
+  const operation = query.match(/query\s+(\w+)/)?.[1] || 'anonymous query';
+
+  let payload: { data?: any; errors?: Array<{ type?: string; message: string }> };
+  try {
+    const response = await githubRequestScheduler.fetch(GITHUB_GRAPHQL_URL, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables }),
+      cache: 'no-store',
+    });
+    const bodyText = await response.text();
+    if (!response.ok) {
+      const truncatedErrorBody = bodyText.length > MAX_BODY_LOG_LENGTH ? bodyText.substring(0, MAX_BODY_LOG_LENGTH) + "..." : bodyText;
+      console.error(`GitHub GraphQL request failed: ${response.status} ${response.statusText} for ${operation}. Body: ${truncatedErrorBody}`);
+      throw new Error(`GitHub GraphQL request failed for ${operation}: ${response.status} ${response.statusText}`);
+    }
+    payload = JSON.parse(bodyText);
+    if (payload.errors?.some(error => error.type === 'RATE_LIMITED')) {
+      // Reported with a 200, so the scheduler has already paused on the exhausted quota headers.
+      const reset = Number(response.headers.get('x-ratelimit-reset'));
+      throw createRateLimitError(GITHUB_GRAPHQL_URL, reset ? reset * 1000 : Date.now() + 60 * 60 * 1000, 'GraphQL rate limit exhausted');
+    }
+  } catch (error: any) {
+    if (isGitHubRateLimitError(error)) {
+      console.error(error.message);
+      throw error;
+    }
+    if (error?.name === 'AbortError') {
+      throw new Error(`GitHub GraphQL request timed out for ${operation}.`);
+    }
+    throw error;
+  }
+
+  if (payload.errors?.length) {
+    // Partial data is not worth caching: a missing PR or file would look like it does not exist.
+    throw new Error(`GitHub GraphQL query ${operation} failed: ${payload.errors.map(error => error.message).join('; ')}`);
+  }
+  await graphQLResponseStore.set(key, { data: payload.data, storedAt: Date.now() });
+  return payload.data;
+}
@@ -0,0 +1,279 @@
+
+import path from 'path';
+import type { GitHubFile, GitHubPullRequest, GitHubIssueComment, GitHubReviewComment, GitHubReview, GitHubUser } from '@/types/github';
+
+/*
+ * GraphQL queries behind the GraphQL SIP source, and mappers that turn their nodes into the
+ * REST-shaped records the rest of SipView consumes.
+ */
+
+const ACTOR_FIELDS = 'login avatarUrl url';
+
+const PULL_REQUEST_FIELDS = `
+  fragment SipPullRequestFields on PullRequest {
+    number
+    url
+    title
+    body
+    state
+    createdAt
+    updatedAt
+    mergedAt
+    closedAt
+    headRefOid
+    author { ${ACTOR_FIELDS} }
+    labels(first: 50) { nodes { id name color description isDefault url } }
+    files(first: 100) { pageInfo { hasNextPage } nodes { path changeType } }
+    reviews(first: 100) {
+      pageInfo { hasNextPage }
+      nodes { databaseId state body submittedAt url commit { oid } author { ${ACTOR_FIELDS} } }
+    }
+    comments { totalCount }
+    reviewThreads { totalCount }
+  }
+`;
+
+export const PULL_REQUESTS_PAGE_QUERY = `
+  query SipPullRequestsPage($owner: String!, $repo: String!, $first: Int!, $after: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequests(first: $first, after: $after, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ...SipPullRequestFields }
+      }
+    }
+  }
+  ${PULL_REQUEST_FIELDS}
+`;
+
+export const PULL_REQUEST_QUERY = `
+  query SipPullRequest($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) { ...SipPullRequestFields }
+    }
+  }
+  ${PULL_REQUEST_FIELDS}
+`;
+
+export const FOLDER_QUERY = `
+  query SipFolder($owner: String!, $repo: String!, $expression: String!) {
+    repository(owner: $owner, name: $repo) {
+      object(expression: $expression) {
+        ... on Tree {
+          entries { name path type oid object { ... on Blob { byteSize text isBinary isTruncated } } }
+        }
+      }
+    }
+  }
+`;
+
+export const PULL_REQUEST_DISCUSSION_QUERY = `
+  query SipPullRequestDiscussion($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        comments(first: 100) {
+          pageInfo { hasNextPage }
+          nodes { databaseId body createdAt url author { ${ACTOR_FIELDS} } }
+        }
+        reviewThreads(first: 100) {
+          pageInfo { hasNextPage }
+          nodes {
+            comments(first: 50) {
+              pageInfo { hasNextPage }
+              nodes { databaseId body createdAt url path diffHunk line originalLine originalCommit { oid } author { ${ACTOR_FIELDS} } }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/** One query reading the blobs at `expressions` (`<rev>:<path>`), aliased `file0`, `file1`, … */
+export function buildBlobsQuery(expressions: string[]): { query: string; variables: Record<string, string> } {
+  const variables: Record<string, string> = {};
+  const declarations: string[] = [];
+  const selections: string[] = [];
+  expressions.forEach((expression, index) => {
+    variables[`expression${index}`] = expression;
+    declarations.push(`$expression${index}: String!`);
+    selections.push(`file${index}: object(expression: $expression${index}) { ... on Blob { text isBinary isTruncated } }`);
+  });
+  return {
+    query: `query SipFileContents($owner: String!, $repo: String!, ${declarations.join(', ')}) {
+      repository(owner: $owner, name: $repo) { ${selections.join(' ')} }
+    }`,
+    variables,
+  };
+}
+
+interface GraphQLConnection<T> {
+  pageInfo?: { hasNextPage: boolean; endCursor?: string | null };
+  nodes: T[];
+}
+
+interface GraphQLActor {
+  login: string;
+  avatarUrl: string;
+  url: string;
+}
+
+export interface GraphQLBlob {
+  byteSize?: number;
+  text: string | null;
+  isBinary: boolean | null;
+  isTruncated: boolean;
+}
+
+export interface GraphQLTreeEntry {
+  name: string;
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+  oid: string;
+  object: GraphQLBlob | Record<string, never> | null;
+}
+
+export interface GraphQLPullRequest {
+  number: number;
+  url: string;
+  title: string;
+  body: string | null;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  createdAt: string;
+  updatedAt: string;
+  mergedAt: string | null;
+  closedAt: string | null;
+  headRefOid: string;
+  author: GraphQLActor | null;
+  labels: GraphQLConnection<{ id: string; name: string; color: string; description: string | null; isDefault: boolean; url: string }>;
+  files: GraphQLConnection<{ path: string; changeType: 'ADDED' | 'MODIFIED' | 'DELETED' | 'RENAMED' | 'COPIED' | 'CHANGED' }>;
+  reviews: GraphQLConnection<{
+    databaseId: number;
+    state: GitHubReview['state'];
+    body: string | null;
+    submittedAt: string | null;
+    url: string;
+    commit: { oid: string } | null;
+    author: GraphQLActor | null;
+  }>;
+  comments: { totalCount: number };
+  reviewThreads: { totalCount: number };
+}
+
+interface GraphQLComment {
+  databaseId: number;
+  body: string;
+  createdAt: string;
+  url: string;
+  author: GraphQLActor | null;
+}
+
+interface GraphQLReviewComment extends GraphQLComment {
+  path: string;
+  diffHunk: string;
+  line: number | null;
+  originalLine: number | null;
+  originalCommit: { oid: string } | null;
+}
+
+export interface GraphQLPullRequestDiscussion {
+  comments: GraphQLConnection<GraphQLComment>;
+  reviewThreads: GraphQLConnection<{ comments: GraphQLConnection<GraphQLReviewComment> }>;
+}
+
+/** Whether a blob's text came back whole; binary and oversized blobs need a REST read. */
+export function isCompleteTextBlob(blob: GraphQLBlob | Record<string, never> | null | undefined): blob is GraphQLBlob & { text: string } {
+  return !!blob && typeof blob.text === 'string' && !blob.isBinary && !blob.isTruncated;
+}
+
+function toGitHubUser(actor: GraphQLActor | null): GitHubUser | null {
+  return actor ? { login: actor.login, avatar_url: actor.avatarUrl, html_url: actor.url } : null; // Deleted accounts come back as null
+}
+
+export function toGitHubPullRequest(node: GraphQLPullRequest): GitHubPullRequest {
+  return {
+    number: node.number,
+    html_url: node.url,
+    title: node.title,
+    user: toGitHubUser(node.author),
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    merged_at: node.mergedAt,
+    closed_at: node.closedAt,
+    state: node.state === 'OPEN' ? 'open' : 'closed',
+    head: { sha: node.headRefOid },
+    body: node.body,
+    labels: node.labels.nodes.map(label => ({
+      id: 0, // GraphQL does not expose label database IDs
+      node_id: label.id,
+      url: label.url,
+      name: label.name,
+      color: label.color,
+      default: label.isDefault,
+      description: label.description,
+    })),
+  };
+}
+
+const FILE_STATUSES: Record<GraphQLPullRequest['files']['nodes'][number]['changeType'], NonNullable<GitHubFile['status']>> = {
+  ADDED: 'added',
+  MODIFIED: 'modified',
+  DELETED: 'removed',
+  RENAMED: 'renamed',
+  COPIED: 'copied',
+  CHANGED: 'changed',
+};
+
+/** A PR file as the REST files endpoint describes it, with `raw_url` pointing at the PR head. */
+export function toGitHubPullRequestFile(file: GraphQLPullRequest['files']['nodes'][number], webUrl: string, headOid: string): GitHubFile {
+  return {
+    name: path.posix.basename(file.path),
+    path: file.path,
+    filename: file.path,
+    sha: '',
+    size: 0,
+    url: '',
+    html_url: `${webUrl}/blob/${headOid}/${file.path}`,
+    git_url: '',
+    download_url: null,
+    raw_url: `${webUrl}/raw/${headOid}/${file.path}`,
+    type: 'file',
+    status: FILE_STATUSES[file.changeType],
+  };
+}
+
+export function toGitHubReview(review: GraphQLPullRequest['reviews']['nodes'][number]): GitHubReview {
+  return {
+    id: review.databaseId,
+    user: toGitHubUser(review.author),
+    body: review.body,
+    state: review.state,
+    submitted_at: review.submittedAt || undefined,
+    html_url: review.url,
+    commit_id: review.commit?.oid || null,
+  };
+}
+
+export function toGitHubIssueComment(comment: GraphQLComment): GitHubIssueComment {
+  return {
+    id: comment.databaseId,
+    user: toGitHubUser(comment.author),
+    body: comment.body,
+    created_at: comment.createdAt,
+    html_url: comment.url,
+  };
+}
+
+/** Flattens review threads into REST review comments, oldest first. Replies point at their thread's first comment, as in REST. */
+export function toGitHubReviewComments(threads: GraphQLPullRequestDiscussion['reviewThreads']['nodes']): GitHubReviewComment[] {
+  return threads
+    .flatMap(thread => thread.comments.nodes.map((comment, index): GitHubReviewComment => ({
+      ...toGitHubIssueComment(comment),
+      path: comment.path,
+      diff_hunk: comment.diffHunk,
+      original_commit_id: comment.originalCommit?.oid || '',
+      in_reply_to_id: index > 0 ? thread.comments.nodes[0].databaseId : undefined,
+      line: comment.line,
+      original_line: comment.originalLine,
+    })))
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+}
@@ -0,0 +1,145 @@
+
+import { createTaskLimiter } from '@/lib/task_limiter';
+
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 6;
+const LOW_RATE_LIMIT_WARNING_THRESHOLD = 50;
+const RATE_LIMIT_RESET_MARGIN_MS = 1000; // `x-ratelimit-reset` has one-second resolution
+const NULL_BODY_STATUSES = [204, 205, 304]; // `new Response` rejects a body for these
+
+export interface RequestSchedulerOptions {
+  maxConcurrent: number;
+  timeoutMs: number; // Per attempt, counted from when the request is actually sent until its body is read
+  maxRetries: number; // Retries after secondary rate limits and `retry-after` responses
+  baseBackoffMs: number; // First wait after a secondary rate limit without `retry-after`; doubles per retry
+  maxWaitMs: number; // Longest pause worth waiting out; longer ones fail fast with a rate limit error
+}
+
+export interface RequestScheduler {
+  /** `fetch` behind the concurrency cap, pausing and retrying when GitHub reports a rate limit. */
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+}
+
+type RateLimitError = Error & { rateLimitResetAt: number };
+
+export function createRateLimitError(url: string, resetAt: number, reason: string): RateLimitError {
+  const error = new Error(`GitHub API rate limit hit for ${url} (${reason}). Requests resume after ${new Date(resetAt).toISOString()}.`) as RateLimitError;
+  error.name = 'GitHubRateLimitError';
+  error.rateLimitResetAt = resetAt;
+  return error;
+}
+
+/** Whether `error` means GitHub refused a request because of a rate limit that was not waited out. */
+export function isGitHubRateLimitError(error: unknown): error is RateLimitError {
+  return error instanceof Error && error.name === 'GitHubRateLimitError';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * How long GitHub asks us to wait before retrying `response`, or null if it is not a rate limit.
+ * Follows GitHub's guidance: `retry-after` wins; an exhausted primary limit waits for
+ * `x-ratelimit-reset`; other secondary limits back off exponentially.
+ */
+async function rateLimitWait(response: Response, attempt: number, baseBackoffMs: number): Promise<{ waitMs: number; reason: string } | null> {
+  if (response.status !== 403 && response.status !== 429) return null;
+
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter !== null && !isNaN(Number(retryAfter))) {
+    return { waitMs: Number(retryAfter) * 1000, reason: `retry-after ${retryAfter}s` };
+  }
+  const reset = response.headers.get('x-ratelimit-reset');
+  if (response.headers.get('x-ratelimit-remaining') === '0' && reset) {
+    return { waitMs: Math.max(0, Number(reset) * 1000 - Date.now()) + RATE_LIMIT_RESET_MARGIN_MS, reason: 'primary rate limit exhausted' };
+  }
+  const body = response.status === 403 ? await response.clone().text().catch(() => '') : '';
+  if (response.status === 429 || /secondary rate limit|abuse detection/i.test(body)) {
+    const jitter = Math.random() * baseBackoffMs * 0.25;
+    return { waitMs: baseBackoffMs * 2 ** attempt + jitter, reason: 'secondary rate limit' };
+  }
+  return null; // A plain 403, e.g. a private repository
+}
+
+/**
+ * Creates a scheduler shared by every GitHub request of the process. A rate limit on one request
+ * pauses all of them, so a burst stops as soon as GitHub pushes back instead of spending the rest
+ * of the quota on requests that will be rejected.
+ */
+export function createRequestScheduler({ maxConcurrent, timeoutMs, maxRetries, baseBackoffMs, maxWaitMs }: RequestSchedulerOptions): RequestScheduler {
+  const limit = createTaskLimiter(maxConcurrent);
+  let pausedUntil = 0;
+  let pauseReason = '';
+  let lowQuotaWarnedFor: string | null = null; // `x-ratelimit-reset` of the window already warned about
+
+  const pause = (until: number, reason: string) => {
+    if (until > pausedUntil) {
+      pausedUntil = until;
+      pauseReason = reason;
+    }
+  };
+
+  /**
+   * Sends one attempt once it has a slot. The pause is checked after the slot is taken, so requests
+   * that were queued when another one hit a rate limit wait too. The body is read under the same
+   * timeout and handed back buffered, so a stalled download cannot hang the caller.
+   */
+  const sendOnce = (url: string, init: RequestInit | undefined) => limit(async () => {
+    for (let pauseMs = pausedUntil - Date.now(); pauseMs > 0; pauseMs = pausedUntil - Date.now()) {
+      if (pauseMs > maxWaitMs) {
+        throw createRateLimitError(url, pausedUntil, pauseReason);
+      }
+      await sleep(pauseMs);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      const body = await response.arrayBuffer();
+      return new Response(NULL_BODY_STATUSES.includes(response.status) ? null : body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  });
+
+  return {
+    async fetch(url, init) {
+      for (let attempt = 0; ; attempt++) {
+        const response = await sendOnce(url, init);
+
+        const remaining = response.headers.get('x-ratelimit-remaining');
+        const reset = response.headers.get('x-ratelimit-reset');
+        if (response.ok && remaining === '0' && reset) {
+          pause(Number(reset) * 1000 + RATE_LIMIT_RESET_MARGIN_MS, 'primary rate limit exhausted'); // Don't send requests that are bound to fail
+        } else if (remaining !== null && Number(remaining) < LOW_RATE_LIMIT_WARNING_THRESHOLD && lowQuotaWarnedFor !== reset) {
+          lowQuotaWarnedFor = reset;
+          console.warn(`GitHub API rate limit is running low: ${remaining} requests left until ${reset ? new Date(Number(reset) * 1000).toISOString() : 'unknown'}.`);
+        }
+
+        const wait = await rateLimitWait(response, attempt, baseBackoffMs);
+        if (!wait) {
+          return response;
+        }
+        const resumeAt = Date.now() + wait.waitMs;
+        pause(resumeAt, wait.reason);
+        if (wait.waitMs > maxWaitMs || attempt >= maxRetries) {
+          throw createRateLimitError(url, resumeAt, wait.reason);
+        }
+        console.warn(`GitHub API ${wait.reason} for ${url}. Pausing GitHub requests for ${Math.ceil(wait.waitMs / 1000)}s (retry ${attempt + 1} of ${maxRetries}).`);
+      }
+    },
+  };
+}
+
+export const githubRequestScheduler = createRequestScheduler({
+  maxConcurrent: Number(process.env.GITHUB_MAX_CONCURRENT_REQUESTS) || DEFAULT_MAX_CONCURRENT_REQUESTS,
+  timeoutMs: 15000, // 15 seconds
+  maxRetries: 3,
+  baseBackoffMs: 10000,
+  maxWaitMs: 60000,
+});
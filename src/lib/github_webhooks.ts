@@ -0,0 +1,20 @@
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'x-hub-signature-256';
+export const EVENT_HEADER = 'x-github-event';
+export const DELIVERY_HEADER = 'x-github-delivery';
+
+/** Computes the `x-hub-signature-256` value GitHub sends for `rawBody`. */
+export function signWebhookPayload(secret: string, rawBody: string): string {
+  return `sha256=${createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex')}`;
+}
+
+export function verifyWebhookSignature(secret: string, rawBody: string, signatureHeader: string | null): boolean {
+  if (!signatureHeader || !signatureHeader.startsWith('sha256=')) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, rawBody), 'utf8');
+  const received = Buffer.from(signatureHeader, 'utf8');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
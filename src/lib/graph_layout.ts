@@ -0,0 +1,86 @@
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+export interface ForceLayoutOptions {
+  width: number;
+  height: number;
+  iterations?: number; // Defaults to fewer for larger graphs, as each one is quadratic in the node count
+  margin?: number; // Minimum distance between a node and the edge of the canvas
+}
+
+/**
+ * Places nodes with a Fruchterman-Reingold force simulation: every pair repels, edges attract and
+ * a weak pull towards the centre keeps unconnected nodes on the canvas. Nodes start on a circle in
+ * input order, so the same graph always gets the same layout.
+ */
+export function layoutForceGraph(
+  nodeIds: string[],
+  edges: Array<{ from: string; to: string }>,
+  { width, height, iterations = Math.round(Math.min(300, Math.max(50, 20000 / Math.max(nodeIds.length, 1)))), margin = 24 }: ForceLayoutOptions,
+): Map<string, GraphPoint> {
+  const positions = new Map<string, GraphPoint>();
+  const count = nodeIds.length;
+  if (count === 0) return positions;
+
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const radius = Math.min(width, height) / 2 - margin;
+  nodeIds.forEach((id, index) => {
+    const angle = (2 * Math.PI * index) / count;
+    positions.set(id, { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) });
+  });
+  if (count === 1) {
+    positions.set(nodeIds[0], { x: centerX, y: centerY });
+    return positions;
+  }
+
+  const idealDistance = Math.sqrt((width * height) / count) * 0.75;
+  const gravity = 0.006 * count; // Grows with the repulsion it has to balance
+  const points = nodeIds.map(id => positions.get(id)!);
+  const indexById = new Map(nodeIds.map((id, index) => [id, index] as const));
+  const links = edges
+    .map(edge => [indexById.get(edge.from), indexById.get(edge.to)] as const)
+    .filter((link): link is readonly [number, number] => link[0] !== undefined && link[1] !== undefined && link[0] !== link[1]);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const temperature = (Math.min(width, height) / 10) * (1 - iteration / iterations);
+    const displacements = points.map(() => ({ x: 0, y: 0 }));
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const dx = points[i].x - points[j].x || 0.01;
+        const dy = points[i].y - points[j].y || 0.01;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (idealDistance * idealDistance) / distance;
+        displacements[i].x += (dx / distance) * force;
+        displacements[i].y += (dy / distance) * force;
+        displacements[j].x -= (dx / distance) * force;
+        displacements[j].y -= (dy / distance) * force;
+      }
+    }
+    for (const [from, to] of links) {
+      const dx = points[from].x - points[to].x;
+      const dy = points[from].y - points[to].y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (distance * distance) / idealDistance;
+      displacements[from].x -= (dx / distance) * force;
+      displacements[from].y -= (dy / distance) * force;
+      displacements[to].x += (dx / distance) * force;
+      displacements[to].y += (dy / distance) * force;
+    }
+
+    points.forEach((point, index) => {
+      const displacement = displacements[index];
+      displacement.x += (centerX - point.x) * gravity * idealDistance / 10;
+      displacement.y += (centerY - point.y) * gravity * idealDistance / 10; // Same units as the pairwise forces
+      const length = Math.max(Math.hypot(displacement.x, displacement.y), 0.01);
+      const step = Math.min(length, temperature);
+      point.x = Math.min(width - margin, Math.max(margin, point.x + (displacement.x / length) * step));
+      point.y = Math.min(height - margin, Math.max(margin, point.y + (displacement.y / length) * step));
+    });
+  }
+  return positions;
+}
@@ -0,0 +1,39 @@
+const MAX_TRACKED_CLIENTS = 10000; // Expired windows are pruned once this many clients are tracked
+
+export interface RateLimiter {
+  /** Counts a request from `clientKey`. Returns 0 when it is allowed, else the seconds until the client may retry. */
+  take(clientKey: string): number;
+}
+
+/**
+ * Fixed-window request limit per client, for public endpoints where every call costs a model
+ * request. Counts live in process memory, so each instance enforces `limit` on its own.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+  return {
+    take(clientKey) {
+      const now = Date.now();
+      if (windows.size >= MAX_TRACKED_CLIENTS) {
+        for (const [key, window] of windows) {
+          if (now - window.startedAt >= windowMs) windows.delete(key);
+        }
+      }
+      let window = windows.get(clientKey);
+      if (!window || now - window.startedAt >= windowMs) {
+        window = { startedAt: now, count: 0 };
+        windows.set(clientKey, window);
+      }
+      if (window.count >= limit) {
+        return Math.max(1, Math.ceil((window.startedAt + windowMs - now) / 1000));
+      }
+      window.count++;
+      return 0;
+    },
+  };
+}
+
+/** The address a request came from; behind App Hosting's proxy that is the first `x-forwarded-for` entry. */
+export function clientAddress(request: Request): string {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+}
@@ -0,0 +1,129 @@
+
+import { z } from 'zod';
+import type { SipStatus, SipLintIssue, SipLintSeverity } from '@/types/sip';
+
+export const VALID_SIP_STATUSES: SipStatus[] = ["Draft", "Proposed", "Accepted", "Live", "Rejected", "Withdrawn", "Archived", "Final", "Draft (no file)", "Closed (unmerged)"];
+
+// Statuses an author may declare; "Draft (no file)" and "Closed (unmerged)" are derived from PR state.
+const FRONTMATTER_SIP_STATUSES = VALID_SIP_STATUSES.filter(status => status !== 'Draft (no file)' && status !== 'Closed (unmerged)');
+
+// One author: "Name (@github-handle)" or "Name <email>", as in the SIP template.
+const AUTHOR_ENTRY_PATTERN = /^[^,()<>@]+?\s*(?:\(@[A-Za-z0-9-]+\)|<[^<>\s@]+@[^<>\s]+>)$/;
+
+const dateValue = z.union([
+  z.date(), // YAML dates arrive as Date objects; invalid ones fail z.date()
+  z.string().refine(value => !isNaN(Date.parse(value))),
+]);
+
+const authorList = z.union([z.string().trim().min(1), z.array(z.string().trim().min(1)).min(1)]);
+
+interface FrontmatterCheck {
+  schema: z.ZodTypeAny;
+  code: string;
+  severity: SipLintSeverity;
+  message: string;
+}
+
+interface FrontmatterFieldRule {
+  field: string;
+  aliases?: string[]; // Other keys `parseSipFile` reads the same value from
+  missing?: { severity: SipLintSeverity; message: string };
+  checks: FrontmatterCheck[]; // Run in order; the first failure is reported
+}
+
+const FRONTMATTER_FIELD_RULES: FrontmatterFieldRule[] = [
+  {
+    field: 'title',
+    aliases: ['name'],
+    missing: { severity: 'error', message: 'No `title`; the title falls back to the PR title or the SIP number.' },
+    checks: [{ schema: z.string().trim().min(1), code: 'invalid_title', severity: 'error', message: '`title` must be a non-empty string.' }],
+  },
+  {
+    field: 'sip',
+    aliases: ['sui_ip', 'id'],
+    checks: [{
+      schema: z.union([z.number().int().positive(), z.string().regex(/^\d+$/)]),
+      code: 'invalid_sip_number',
+      severity: 'warning',
+      message: '`sip` should be a plain number; the number is taken from the file name instead.',
+    }],
+  },
+  {
+    field: 'status',
+    missing: { severity: 'warning', message: 'No `status`; the status is derived from the folder or PR state.' },
+    checks: [{
+      schema: z.enum(FRONTMATTER_SIP_STATUSES as [SipStatus, ...SipStatus[]]),
+      code: 'unknown_status',
+      severity: 'error',
+      message: `Unknown \`status\`; expected one of ${FRONTMATTER_SIP_STATUSES.join(', ')}.`,
+    }],
+  },
+  {
+    field: 'created',
+    aliases: ['date'],
+    missing: { severity: 'warning', message: 'No `created` date; the creation date falls back to the PR or is unknown.' },
+    checks: [{ schema: dateValue, code: 'invalid_date', severity: 'error', message: '`created` is not a valid date (expected YYYY-MM-DD).' }],
+  },
+  {
+    field: 'updated',
+    aliases: ['last-updated', 'lastUpdated'],
+    checks: [{ schema: dateValue, code: 'invalid_date', severity: 'warning', message: '`updated` is not a valid date (expected YYYY-MM-DD).' }],
+  },
+  {
+    field: 'author',
+    aliases: ['authors'],
+    missing: { severity: 'warning', message: 'No `author`; the author falls back to the PR opener.' },
+    checks: [
+      { schema: authorList, code: 'invalid_author', severity: 'error', message: '`author` must be a string or a list of strings.' },
+      {
+        schema: authorList.transform(value => (Array.isArray(value) ? value : value.split(',')).map(entry => entry.trim()))
+          .pipe(z.array(z.string().regex(AUTHOR_ENTRY_PATTERN))),
+        code: 'author_format',
+        severity: 'warning',
+        message: 'Each author should be written as "Name (@github-handle)" or "Name <email>", separated by commas.',
+      },
+    ],
+  },
+  {
+    field: 'discussions-to',
+    checks: [{
+      schema: z.string().url().refine(value => /^https?:\/\//.test(value)),
+      code: 'invalid_discussions_to',
+      severity: 'error',
+      message: '`discussions-to` must be an http(s) URL.',
+    }],
+  },
+  {
+    field: 'type',
+    checks: [{ schema: z.string().trim().min(1), code: 'invalid_type', severity: 'warning', message: '`type` must be a non-empty string.' }],
+  },
+];
+
+function describeValue(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  const text = value instanceof Date ? (isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString().slice(0, 10)) : JSON.stringify(value);
+  return text.length > 120 ? `${text.substring(0, 117)}...` : text;
+}
+
+/**
+ * Checks SIP frontmatter (as returned by `gray-matter`) against the fields `parseSipFile` reads.
+ * Returns one issue per problem field, errors before warnings; an empty list means the metadata is clean.
+ */
+export function lintSipFrontmatter(frontmatter: Record<string, unknown>): SipLintIssue[] {
+  const issues: SipLintIssue[] = [];
+  for (const rule of FRONTMATTER_FIELD_RULES) {
+    const key = [rule.field, ...(rule.aliases || [])].find(candidate => frontmatter[candidate] !== undefined && frontmatter[candidate] !== null);
+    if (!key) {
+      if (rule.missing) {
+        issues.push({ field: rule.field, code: 'missing_field', severity: rule.missing.severity, message: rule.missing.message });
+      }
+      continue;
+    }
+    const value = frontmatter[key];
+    const failedCheck = rule.checks.find(check => !check.schema.safeParse(value).success);
+    if (failedCheck) {
+      issues.push({ field: key, code: failedCheck.code, severity: failedCheck.severity, message: failedCheck.message, value: describeValue(value) });
+    }
+  }
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
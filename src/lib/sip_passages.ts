@@ -0,0 +1,130 @@
+import type { SIP, Comment, SipAnswerSourceKind } from '@/types/sip';
+
+const MAX_PASSAGE_CHARS = 6000; // Longer sections and comments are cut; answers rarely need more of one passage
+const MAX_COMMENT_PASSAGES = 100; // Most recent comments kept for long discussions
+const MAX_TOTAL_PASSAGE_CHARS = 60000; // Prompt budget for all passages together
+
+/** A piece of a SIP an answer can be grounded in and cite. */
+export interface SipPassage {
+  id: string; // Stable within one SIP, e.g. "section:motivation", "pr-description", "comment:123"
+  kind: SipAnswerSourceKind;
+  label: string; // Section heading, "PR description" or "Comment by <author>"
+  text: string;
+  url?: string; // "#<anchor>" for sections, the PR or comment link otherwise
+}
+
+export interface SipSection {
+  heading: string | null; // Null for the text before the first heading
+  anchor: string | null;
+  text: string;
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^ {0,3}(```|~~~)/;
+
+/** Heading text as it renders: inline links, code and emphasis markers removed. */
+function plainHeadingText(heading: string): string {
+  return heading
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[`*~]/g, '')
+    .replace(/(^|\s)_+|_+(?=\s|$)/g, '$1')
+    .trim();
+}
+
+/**
+ * The anchor GitHub gives a heading: lowercased, punctuation dropped, spaces as hyphens. Repeated
+ * headings share the anchor of the first one (GitHub would suffix them with -1, -2, ...).
+ */
+export function headingAnchor(heading: string): string {
+  return plainHeadingText(heading)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/** Splits a markdown body at its headings. Lines in fenced code blocks are never headings. */
+export function splitSipSections(body: string): SipSection[] {
+  const sections: SipSection[] = [];
+  let current: SipSection = { heading: null, anchor: null, text: '' };
+  let inFence = false;
+  for (const line of body.split('\n')) {
+    if (FENCE.test(line)) inFence = !inFence;
+    const heading = inFence ? null : ATX_HEADING.exec(line);
+    if (heading) {
+      sections.push(current);
+      const headingText = plainHeadingText(heading[2]);
+      current = { heading: headingText, anchor: headingAnchor(heading[2]), text: '' };
+    } else {
+      current.text += `${line}\n`;
+    }
+  }
+  sections.push(current);
+  return sections.filter(section => section.heading || section.text.trim());
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_PASSAGE_CHARS ? `${text.slice(0, MAX_PASSAGE_CHARS)}…` : text;
+}
+
+/**
+ * Drops passages until their text fits `MAX_TOTAL_PASSAGE_CHARS`: the oldest comments first, then
+ * the proposal's last passages, always keeping the first one.
+ */
+function fitPassageBudget(passages: SipPassage[]): SipPassage[] {
+  let totalChars = passages.reduce((sum, passage) => sum + passage.text.length, 0);
+  const kept = [...passages];
+  while (totalChars > MAX_TOTAL_PASSAGE_CHARS && kept.length > 1) {
+    const oldestComment = kept.findIndex(passage => passage.kind === 'comment');
+    const [dropped] = kept.splice(oldestComment >= 0 ? oldestComment : kept.length - 1, 1);
+    totalChars -= dropped.text.length;
+  }
+  return kept;
+}
+
+/**
+ * The passages questions about `sip` are answered from: the sections of its body, the description
+ * of its PR (when it is not already the body) and its discussion comments, within the prompt budget.
+ */
+export function buildSipPassages(sip: SIP, prDescription: string | null, comments: Comment[]): SipPassage[] {
+  const passages: SipPassage[] = [];
+  const body = sip.body?.trim() || '';
+  const bodyIsPrDescription = sip.source === 'pull_request_only';
+
+  if (bodyIsPrDescription) {
+    if (body) passages.push({ id: 'pr-description', kind: 'pr_description', label: 'PR description', text: truncate(body), url: sip.prUrl || undefined });
+  } else {
+    for (const section of splitSipSections(body)) {
+      const text = section.text.trim();
+      if (!text) continue; // A heading directly followed by a subheading
+      passages.push({
+        id: section.anchor !== null ? `section:${section.anchor}` : 'section:preamble',
+        kind: 'section',
+        label: section.heading || 'Introduction',
+        text: truncate(text),
+        url: section.anchor ? `#${section.anchor}` : undefined,
+      });
+    }
+    if (prDescription?.trim()) {
+      passages.push({ id: 'pr-description', kind: 'pr_description', label: 'PR description', text: truncate(prDescription.trim()), url: sip.prUrl || undefined });
+    }
+  }
+
+  for (const comment of comments.slice(-MAX_COMMENT_PASSAGES)) {
+    if (!comment.body?.trim()) continue;
+    passages.push({
+      id: `comment:${comment.id}`,
+      kind: 'comment',
+      label: comment.filePath ? `Review comment by ${comment.author} on ${comment.filePath}` : `Comment by ${comment.author}`,
+      text: truncate(comment.body.trim()),
+      url: comment.htmlUrl,
+    });
+  }
+
+  // Repeated headings would share an ID; number the repeats so every citation is unambiguous
+  const seenIds = new Map<string, number>();
+  return fitPassageBudget(passages).map(passage => {
+    const seen = seenIds.get(passage.id) || 0;
+    seenIds.set(passage.id, seen + 1);
+    return seen ? { ...passage, id: `${passage.id}-${seen}` } : passage;
+  });
+}
@@ -0,0 +1,62 @@
+
+import type { SIP, SipFieldOrigin, SipProvenanceField } from '@/types/sip';
+
+export type SipProvenance = NonNullable<SIP['provenance']>;
+
+export const PROVENANCE_FIELDS: SipProvenanceField[] = [
+  'title', 'status', 'summary', 'body', 'createdAt', 'updatedAt', 'mergedAt', 'closedAt',
+  'author', 'prNumber', 'prUrl', 'filePath', 'labels', 'type',
+];
+
+function recordOrigin(sip: SIP, rule?: string): SipFieldOrigin {
+  return { source: sip.source, prNumber: sip.prNumber, filePath: sip.filePath, ...(rule ? { rule } : {}) };
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || (Array.isArray(a) && Array.isArray(b) && JSON.stringify(a) === JSON.stringify(b));
+}
+
+/** Attributes every set field of a freshly parsed record to that record, with the given rules. */
+export function recordProvenance(sip: SIP, rules: Partial<Record<SipProvenanceField, string>> = {}): SipProvenance {
+  const provenance: SipProvenance = {};
+  for (const field of PROVENANCE_FIELDS) {
+    if (hasValue(sip[field])) {
+      provenance[field] = recordOrigin(sip, rules[field]);
+    }
+  }
+  return provenance;
+}
+
+/**
+ * Provenance of `merged`, the result of folding `current` into `existing`. A field keeps the origin
+ * of the record whose value survived, preferring `current` when both agree (it was read last).
+ * `statusOverride` names the merge rule that changed the status afterwards, if any, and the field
+ * that triggered it; the status is credited to whichever record supplied that field.
+ */
+export function mergeProvenance(
+  existing: SIP,
+  current: SIP,
+  merged: SIP,
+  statusOverride?: { rule: string; field: SipProvenanceField },
+): SipProvenance {
+  const existingProvenance = existing.provenance || recordProvenance(existing);
+  const currentProvenance = current.provenance || recordProvenance(current);
+  const provenance: SipProvenance = {};
+  for (const field of PROVENANCE_FIELDS) {
+    const value = merged[field];
+    if (!hasValue(value)) continue;
+    if (sameValue(value, current[field])) {
+      provenance[field] = currentProvenance[field] || recordOrigin(current);
+    } else if (sameValue(value, existing[field])) {
+      provenance[field] = existingProvenance[field] || recordOrigin(existing);
+    }
+  }
+  if (statusOverride) {
+    provenance.status = { ...(provenance[statusOverride.field] || recordOrigin(current)), rule: statusOverride.rule };
+  }
+  return provenance;
+}
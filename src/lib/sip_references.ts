@@ -0,0 +1,212 @@
+
+import type { SIP, SipReference, SipRelationType, SipRelationOrigin, SipRelatedProposal, SipRelationEdge } from '@/types/sip';
+import { formatProposalId, type SipRepository } from '@/lib/sip_repositories';
+
+const EXCERPT_CONTEXT_CHARS = 60;
+const MAX_DEPENDENCY_DEPTH = 5;
+
+// Checked against the text just before a reference, in this order ("superseded by" before "supersedes").
+const RELATION_PHRASES: Array<{ type: Exclude<SipRelationType, 'mentions'>; pattern: RegExp }> = [
+  { type: 'superseded_by', pattern: /\b(?:superseded|replaced|obsoleted)\s+by\s*:?\s*$/i },
+  { type: 'replaces', pattern: /\b(?:supersedes|replaces|obsoletes)\s*:?\s*$/i },
+  { type: 'requires', pattern: /\b(?:requires|depends\s+on|builds\s+(?:up)?on|extends)\s*:?\s*$/i },
+];
+const LIST_CONTINUATION = /^\s*(?:,|&|and|or|,\s*and|,\s*or)\s*$/i; // "requires SIP-1 and SIP-2"
+
+const FRONTMATTER_RELATION_FIELDS: Record<string, Exclude<SipRelationType, 'mentions'>> = {
+  requires: 'requires',
+  replaces: 'replaces',
+  supersedes: 'replaces',
+  'superseded-by': 'superseded_by',
+  superseded_by: 'superseded_by',
+};
+
+const RELATION_STRENGTH: Record<SipRelationType, number> = { superseded_by: 3, replaces: 2, requires: 1, mentions: 0 };
+
+function referenceKey(reference: SipReference): string {
+  return `${reference.type}|${reference.targetId ?? `#${reference.targetPrNumber}`}|${reference.origin}`;
+}
+
+/** Drops repeated references (same type, target and origin), keeping the first. */
+export function dedupeReferences(references: SipReference[]): SipReference[] {
+  const seen = new Set<string>();
+  return references.filter(reference => {
+    const key = referenceKey(reference);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function excerptAround(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - EXCERPT_CONTEXT_CHARS);
+  const to = Math.min(text.length, end + EXCERPT_CONTEXT_CHARS);
+  const excerpt = text.substring(from, to).replace(/\s+/g, ' ').trim();
+  return `${from > 0 ? '...' : ''}${excerpt}${to < text.length ? '...' : ''}`;
+}
+
+/**
+ * Finds references to other proposals in markdown: "SIP-15" style references become proposal IDs
+ * of `repository`, "#42" references are kept as PR numbers. The phrase before a reference
+ * ("builds on", "supersedes", "superseded by") gives its type; anything else is a mention.
+ * Fenced code blocks are skipped.
+ */
+export function extractTextReferences(text: string | null | undefined, repository: SipRepository, origin: SipRelationOrigin): SipReference[] {
+  if (!text) return [];
+  const prose = text.replace(/```[\s\S]*?```/g, match => ' '.repeat(match.length)); // Keeps offsets for excerpts
+  const pattern = new RegExp(`\\b${repository.config.idPrefix}[-\\s]?0*(\\d+)\\b|(?<![\\w/&])#(\\d+)\\b`, 'gi');
+  const references: SipReference[] = [];
+  let previousEnd = 0;
+  let previousType: SipRelationType | null = null;
+  for (const match of prose.matchAll(pattern)) {
+    const start = match.index!;
+    const before = prose.substring(Math.max(previousEnd, start - EXCERPT_CONTEXT_CHARS), start);
+    const phrase = RELATION_PHRASES.find(candidate => candidate.pattern.test(before));
+    const type: SipRelationType = phrase ? phrase.type : previousType && previousEnd > 0 && LIST_CONTINUATION.test(prose.substring(previousEnd, start)) ? previousType : 'mentions';
+    references.push({
+      type,
+      ...(match[1] ? { targetId: formatProposalId(repository, match[1]) } : { targetPrNumber: parseInt(match[2], 10) }),
+      origin,
+      excerpt: excerptAround(prose, start, start + match[0].length),
+    });
+    previousEnd = start + match[0].length;
+    previousType = type;
+  }
+  return dedupeReferences(references);
+}
+
+/** Typed references from the `requires`, `replaces`/`supersedes` and `superseded-by` frontmatter fields. */
+export function extractFrontmatterReferences(frontmatter: Record<string, unknown>, repository: SipRepository): SipReference[] {
+  const numberPattern = new RegExp(`^(?:${repository.config.idPrefix}[-\\s]?)?0*(\\d+)$`, 'i');
+  const references: SipReference[] = [];
+  for (const [field, type] of Object.entries(FRONTMATTER_RELATION_FIELDS)) {
+    const value = frontmatter[field];
+    if (value === undefined || value === null) continue;
+    const entries = (Array.isArray(value) ? value : String(value).split(',')).map(entry => String(entry).trim()).filter(Boolean);
+    for (const entry of entries) {
+      const match = entry.match(numberPattern);
+      if (match) {
+        references.push({ type, targetId: formatProposalId(repository, match[1]), origin: 'frontmatter', excerpt: `${field}: ${entry}` });
+      }
+    }
+  }
+  return dedupeReferences(references);
+}
+
+interface SipIndex {
+  byId: Map<string, SIP>;
+  byPullRequest: Map<string, SIP>; // Keyed by `${repository}#${prNumber}`
+}
+
+function indexSips(sips: SIP[]): SipIndex {
+  const byId = new Map<string, SIP>();
+  const byPullRequest = new Map<string, SIP>();
+  for (const sip of sips) {
+    byId.set(sip.id.toLowerCase(), sip);
+    if (sip.prNumber) {
+      const key = `${sip.repository}#${sip.prNumber}`;
+      const existing = byPullRequest.get(key);
+      if (!existing || (existing.id.includes('~') && !sip.id.includes('~'))) { // Prefer the proposal holding the number
+        byPullRequest.set(key, sip);
+      }
+    }
+  }
+  return { byId, byPullRequest };
+}
+
+function resolveReference(index: SipIndex, from: SIP, reference: SipReference): SIP | undefined {
+  const target = reference.targetId
+    ? index.byId.get(reference.targetId.toLowerCase())
+    : index.byPullRequest.get(`${from.repository}#${reference.targetPrNumber}`);
+  return target && target.id !== from.id ? target : undefined;
+}
+
+/** Resolved outgoing references of `sip`, one per target with the strongest relation type. */
+function outgoingRelations(index: SipIndex, sip: SIP, references: SipReference[]): Map<string, { target: SIP; type: SipRelationType; origins: Set<SipRelationOrigin>; excerpt?: string }> {
+  const relations = new Map<string, { target: SIP; type: SipRelationType; origins: Set<SipRelationOrigin>; excerpt?: string }>();
+  for (const reference of references) {
+    const target = resolveReference(index, sip, reference);
+    if (!target) continue;
+    const existing = relations.get(target.id);
+    if (!existing) {
+      relations.set(target.id, { target, type: reference.type, origins: new Set([reference.origin]), excerpt: reference.excerpt });
+      continue;
+    }
+    existing.origins.add(reference.origin);
+    if (RELATION_STRENGTH[reference.type] > RELATION_STRENGTH[existing.type]) {
+      existing.type = reference.type;
+      existing.excerpt = reference.excerpt;
+    }
+  }
+  return relations;
+}
+
+/**
+ * The proposals related to `sip` within `sips`: what it references, what references it, and the
+ * requirements of its requirements, up to {@link MAX_DEPENDENCY_DEPTH} levels, so reviewers see
+ * the whole dependency chain.
+ */
+export function findRelatedProposals(sip: SIP, sips: SIP[]): SipRelatedProposal[] {
+  const index = indexSips(sips);
+  const toRelated = (target: SIP, fields: Omit<SipRelatedProposal, 'id' | 'title' | 'status'>): SipRelatedProposal => ({
+    id: target.id,
+    title: target.cleanTitle || target.title,
+    status: target.status,
+    ...fields,
+  });
+
+  const related: SipRelatedProposal[] = [];
+  const outgoing = outgoingRelations(index, sip, sip.references || []);
+  for (const { target, type, origins, excerpt } of outgoing.values()) {
+    related.push(toRelated(target, { type, direction: 'outgoing', origins: Array.from(origins), excerpt, depth: 1 }));
+  }
+
+  // Walk `requires` edges breadth-first from the direct requirements.
+  const visited = new Set([sip.id, ...Array.from(outgoing.values()).filter(relation => relation.type === 'requires').map(relation => relation.target.id)]);
+  let frontier = Array.from(outgoing.values()).filter(relation => relation.type === 'requires').map(relation => relation.target);
+  for (let depth = 2; depth <= MAX_DEPENDENCY_DEPTH && frontier.length > 0; depth++) {
+    const nextFrontier: SIP[] = [];
+    for (const requirement of frontier) {
+      for (const { target, type, origins, excerpt } of outgoingRelations(index, requirement, requirement.references || []).values()) {
+        if (type !== 'requires' || visited.has(target.id)) continue;
+        visited.add(target.id);
+        nextFrontier.push(target);
+        related.push(toRelated(target, { type, direction: 'outgoing', origins: Array.from(origins), excerpt, depth, via: requirement.id }));
+      }
+    }
+    frontier = nextFrontier;
+  }
+
+  for (const other of sips) {
+    if (other.id === sip.id || !other.references?.length) continue;
+    const relation = outgoingRelations(index, other, other.references).get(sip.id);
+    if (relation) {
+      related.push(toRelated(other, { type: relation.type, direction: 'incoming', origins: Array.from(relation.origins), excerpt: relation.excerpt, depth: 1 }));
+    }
+  }
+  return related;
+}
+
+/**
+ * Every resolved relation between `sips` as a directed edge, one per pair. "A superseded by B" is
+ * turned around into "B replaces A", so supersession always points from the newer proposal.
+ */
+export function buildRelationEdges(sips: SIP[]): SipRelationEdge[] {
+  const index = indexSips(sips);
+  const edgesByPair = new Map<string, SipRelationEdge>();
+  const strength = (type: SipRelationEdge['type']) => RELATION_STRENGTH[type];
+  for (const sip of sips) {
+    if (!sip.references?.length) continue;
+    for (const { target, type } of outgoingRelations(index, sip, sip.references).values()) {
+      const edge: SipRelationEdge = type === 'superseded_by'
+        ? { from: target.id, to: sip.id, type: 'replaces' }
+        : { from: sip.id, to: target.id, type };
+      const pairKey = [edge.from, edge.to].sort().join('|');
+      const existing = edgesByPair.get(pairKey);
+      if (!existing || strength(edge.type) > strength(existing.type)) {
+        edgesByPair.set(pairKey, edge);
+      }
+    }
+  }
+  return Array.from(edgesByPair.values());
+}
@@ -0,0 +1,186 @@
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { SipRepositoryInfo } from '@/types/sip';
+import {
+  getConfiguredSipSource,
+  createDefaultGitHubSipSource,
+  createLocalDirectorySipSource,
+  createGitCloneSipSource,
+  createFixtureSipSource,
+  type SipSource,
+} from '@/lib/sips_sources';
+
+/**
+ * A repository SipView reads improvement proposals from. `id` namespaces the repository's
+ * records; `idPrefix` is the proposal prefix used in its IDs and titles (e.g. `sip` -> "sip-042").
+ * The source overrides stay on the server; clients only see the {@link SipRepositoryInfo} part.
+ */
+export interface SipRepositoryConfig extends SipRepositoryInfo {
+  localPath?: string; // Read from a local clone instead of GitHub
+  gitPath?: string; // Read from a git clone, including its history, instead of GitHub
+  fixturePath?: string; // Read from a recorded snapshot instead of GitHub
+}
+
+/** A configured repository together with the source its data is read from. */
+export interface SipRepository {
+  config: SipRepositoryConfig;
+  source: SipSource;
+  isDefault: boolean; // The first configured repository; its IDs carry no namespace
+}
+
+export const DEFAULT_SIP_REPOSITORY_CONFIG: SipRepositoryConfig = {
+  id: 'sips',
+  label: 'Sui SIPs',
+  owner: 'sui-foundation',
+  repo: 'sips',
+  branch: 'main',
+  proposalsPath: 'sips',
+  withdrawnPath: 'withdrawn-sips',
+  idPrefix: 'sip',
+};
+
+const NAMESPACE_SEPARATOR = '.';
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+function parseRepositoryConfig(entry: any, index: number): SipRepositoryConfig | null {
+  const requiredStrings = ['id', 'owner', 'repo', 'proposalsPath'] as const;
+  const missing = requiredStrings.filter(key => typeof entry?.[key] !== 'string' || entry[key].trim() === '');
+  if (missing.length > 0) {
+    console.warn(`SIP repository config entry ${index} is missing ${missing.join(', ')}. Skipping it.`);
+    return null;
+  }
+  const id = String(entry.id).toLowerCase();
+  const idPrefix = String(entry.idPrefix || 'sip').toLowerCase();
+  if (!SLUG_PATTERN.test(id) || !SLUG_PATTERN.test(idPrefix)) {
+    console.warn(`SIP repository config entry ${index}: 'id' and 'idPrefix' may only contain lowercase letters, digits and dashes. Skipping it.`);
+    return null;
+  }
+  return {
+    id,
+    label: typeof entry.label === 'string' && entry.label ? entry.label : `${entry.owner}/${entry.repo}`,
+    owner: entry.owner,
+    repo: entry.repo,
+    branch: typeof entry.branch === 'string' && entry.branch ? entry.branch : 'main',
+    proposalsPath: entry.proposalsPath.replace(/\/+$/, ''),
+    withdrawnPath: typeof entry.withdrawnPath === 'string' && entry.withdrawnPath ? entry.withdrawnPath.replace(/\/+$/, '') : undefined,
+    idPrefix,
+    localPath: typeof entry.localPath === 'string' ? entry.localPath : undefined,
+    gitPath: typeof entry.gitPath === 'string' ? entry.gitPath : undefined,
+    fixturePath: typeof entry.fixturePath === 'string' ? entry.fixturePath : undefined,
+  };
+}
+
+/**
+ * Reads the repository list from the JSON file at `SIPS_REPOSITORIES_PATH` (an array of
+ * {@link SipRepositoryConfig}). Without it, or when the file is unusable, only
+ * `sui-foundation/sips` is tracked.
+ */
+export function loadSipRepositoryConfigs(): SipRepositoryConfig[] {
+  const configPath = process.env.SIPS_REPOSITORIES_PATH;
+  if (!configPath) {
+    return [DEFAULT_SIP_REPOSITORY_CONFIG];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(readFileSync(path.resolve(configPath), 'utf8'));
+  } catch (error: any) {
+    console.warn(`Could not read SIPS_REPOSITORIES_PATH '${configPath}': ${error?.message}. Falling back to ${DEFAULT_SIP_REPOSITORY_CONFIG.owner}/${DEFAULT_SIP_REPOSITORY_CONFIG.repo}.`);
+    return [DEFAULT_SIP_REPOSITORY_CONFIG];
+  }
+  if (!Array.isArray(entries)) {
+    console.warn(`SIPS_REPOSITORIES_PATH '${configPath}' must contain a JSON array. Falling back to ${DEFAULT_SIP_REPOSITORY_CONFIG.owner}/${DEFAULT_SIP_REPOSITORY_CONFIG.repo}.`);
+    return [DEFAULT_SIP_REPOSITORY_CONFIG];
+  }
+
+  const configs: SipRepositoryConfig[] = [];
+  entries.forEach((entry, index) => {
+    const config = parseRepositoryConfig(entry, index);
+    if (!config) return;
+    if (configs.some(existing => existing.id === config.id)) {
+      console.warn(`SIP repository id '${config.id}' is configured twice. Keeping the first entry.`);
+      return;
+    }
+    configs.push(config);
+  });
+  return configs.length > 0 ? configs : [DEFAULT_SIP_REPOSITORY_CONFIG];
+}
+
+/**
+ * Pairs each config with its source. A repository's own `fixturePath`/`gitPath`/`localPath` wins; otherwise
+ * the default repository honours `SIPS_SOURCE` and the others are read from GitHub.
+ */
+export function createSipRepositories(configs: SipRepositoryConfig[]): SipRepository[] {
+  return configs.map((config, index) => {
+    const githubOptions = { owner: config.owner, repo: config.repo, branch: config.branch };
+    let source: SipSource;
+    if (config.fixturePath) {
+      source = createFixtureSipSource(config.fixturePath);
+    } else if (config.gitPath) {
+      source = createGitCloneSipSource(config.gitPath, githubOptions);
+    } else if (config.localPath) {
+      source = createLocalDirectorySipSource(config.localPath);
+    } else if (index === 0) {
+      source = getConfiguredSipSource(githubOptions);
+    } else {
+      source = createDefaultGitHubSipSource(githubOptions);
+    }
+    return { config, source, isDefault: index === 0 };
+  });
+}
+
+/** Prefixes a repository-local ID (e.g. "sip-042") with the repository namespace, except for the default repository. */
+export function namespaceProposalId(repository: SipRepository, localId: string): string {
+  return repository.isDefault ? localId : `${repository.config.id}${NAMESPACE_SEPARATOR}${localId}`;
+}
+
+export function formatProposalId(repository: SipRepository, num: string | number): string {
+  return namespaceProposalId(repository, `${repository.config.idPrefix}-${String(num).padStart(3, '0')}`);
+}
+
+/** Splits a (possibly namespaced) ID into its repository and repository-local part. */
+export function resolveProposalId(repositories: SipRepository[], id: string): { repository: SipRepository; localId: string } | null {
+  const lowerId = id.toLowerCase();
+  const separatorIndex = lowerId.indexOf(NAMESPACE_SEPARATOR);
+  if (separatorIndex !== -1) {
+    const repository = repositories.find(candidate => candidate.config.id === lowerId.substring(0, separatorIndex));
+    if (repository && !repository.isDefault) {
+      return { repository, localId: lowerId.substring(separatorIndex + 1) };
+    }
+  }
+  const defaultRepository = repositories.find(candidate => candidate.isDefault);
+  return defaultRepository ? { repository: defaultRepository, localId: lowerId } : null;
+}
+
+/**
+ * Canonical lowercase form of a user-supplied ID: "42", "sip-42" and "sip-042" all become
+ * "sip-042"; other names become "<prefix>-generic-<name>". Namespaced IDs keep their namespace.
+ */
+export function normalizeProposalId(repositories: SipRepository[], id: string): string | null {
+  const resolved = resolveProposalId(repositories, id);
+  if (!resolved) return null;
+  const { repository, localId } = resolved;
+  const prefix = repository.config.idPrefix;
+  const numericMatch = localId.match(new RegExp(`^(?:${prefix}-)?0*(\\d+)$`));
+  if (numericMatch) {
+    return formatProposalId(repository, numericMatch[1]);
+  }
+  return namespaceProposalId(repository, localId.startsWith(`${prefix}-`) ? localId : `${prefix}-generic-${localId}`);
+}
+
+/** ID of a proposal from PR `prNumber` that competes for `claimedId` with the proposal holding it. */
+export function competingProposalId(claimedId: string, prNumber: number | undefined, fallbackSuffix: string): string {
+  return `${claimedId}~${prNumber ? `pr${prNumber}` : fallbackSuffix}`;
+}
+
+/** The proposal number in an ID (including competing IDs), or NaN for generic IDs. */
+export function proposalNumberFromId(id: string): number {
+  const match = id.toLowerCase().match(/(?:^|\.)[a-z0-9]+-0*(\d+)(?:~[a-z0-9-]+)?$/);
+  return match ? parseInt(match[1], 10) : NaN;
+}
+
+/** Whether the ID was derived from a file name because no proposal number was found. */
+export function isGenericProposalId(id: string): boolean {
+  return /(?:^|\.)[a-z0-9]+-generic-/.test(id.toLowerCase());
+}
@@ -0,0 +1,215 @@
+
+import { createHash } from 'crypto';
+import type { SIP, SipSearchResult, SipSearchResponse } from '@/types/sip';
+import { ai } from '@/ai/genkit';
+import { resolveAiProvider } from '@/ai/providers';
+import { createFileStore } from '@/lib/file_store';
+import { splitSipSections } from '@/lib/sip_passages';
+import { INSUFFICIENT_INFO_MESSAGE, USER_REQUESTED_FALLBACK_AI_SUMMARY } from '@/ai/flow-schemas';
+
+const SEARCH_INDEX_VERSION = 1; // Bump when chunking changes, so every SIP is re-embedded
+const MAX_CHUNK_CHARS = 1200;
+const EMBED_BATCH_SIZE = 32; // Chunks per embedder call
+const EXCERPT_CHARS = 280;
+const RELATIVE_SCORE_CUTOFF = 0.8; // Matches scoring under this fraction of the best one are dropped
+const MAX_CACHED_QUERY_EMBEDDINGS = 500;
+const FAILED_EMBED_RETRY_DELAY = 10 * 60 * 1000; // Before a SIP that failed to embed is tried again, unless it changes
+const NO_SUMMARY_PLACEHOLDERS = new Set([...Object.values(USER_REQUESTED_FALLBACK_AI_SUMMARY), INSUFFICIENT_INFO_MESSAGE]);
+
+/** A piece of a SIP that is embedded on its own, so a search can point at the passage that matched. */
+interface SearchChunk {
+  label: string; // "Summary", "AI summary", a section heading or "PR description"
+  anchor?: string; // Heading anchor on the detail page, for body sections
+  text: string;
+}
+
+interface IndexedChunk extends SearchChunk {
+  embedding: number[];
+}
+
+interface SipIndexEntry {
+  contentHash: string; // Of the chunks; the SIP is re-embedded when it changes
+  chunks: IndexedChunk[];
+}
+
+const searchIndexStore = createFileStore<SipIndexEntry>('search-index');
+let indexQueue: Promise<unknown> = Promise.resolve(); // Index updates run one at a time
+let searchUpdate: Promise<number> | null = null; // Update started by a search, so searches queue at most one
+const failedEmbeddings = new Map<string, { contentHash: string; failedAt: number }>(); // By index key
+const queryEmbeddings = new Map<string, number[]>(); // By embedder and query, least recently used first
+
+/** Entries are per embedder, so switching providers never compares vectors from different models. */
+function indexKey(sipId: string): string {
+  return `${resolveAiProvider().embedder}:v${SEARCH_INDEX_VERSION}:${sipId}`;
+}
+
+/** Splits `text` at paragraph breaks into pieces of at most MAX_CHUNK_CHARS (longer paragraphs are cut). */
+function splitIntoChunkTexts(text: string): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/).map(part => part.trim()).filter(Boolean)) {
+    for (let start = 0; start < paragraph.length; start += MAX_CHUNK_CHARS) {
+      const slice = paragraph.slice(start, start + MAX_CHUNK_CHARS);
+      if (current && current.length + slice.length + 2 > MAX_CHUNK_CHARS) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${slice}` : slice;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/** The chunks a SIP is indexed as: its title and summary, its AI summary and its body, section by section. */
+export function chunkSipForSearch(sip: SIP): SearchChunk[] {
+  const chunks: SearchChunk[] = [{ label: 'Summary', text: `${sip.cleanTitle || sip.title}\n${sip.summary}`.trim() }];
+
+  const aiPoints = sip.aiSummary
+    ? [sip.aiSummary.whatItIs, sip.aiSummary.whatItChanges, sip.aiSummary.whyItMatters].filter(point => point && !NO_SUMMARY_PLACEHOLDERS.has(point))
+    : [];
+  if (aiPoints.length > 0) {
+    chunks.push({ label: 'AI summary', text: aiPoints.join(' ') });
+  }
+
+  if (sip.body?.trim()) {
+    const sections = sip.source === 'pull_request_only'
+      ? [{ heading: 'PR description', anchor: null, text: sip.body }]
+      : splitSipSections(sip.body);
+    for (const section of sections) {
+      for (const text of splitIntoChunkTexts(section.text)) {
+        chunks.push({ label: section.heading || 'Introduction', anchor: section.anchor || undefined, text });
+      }
+    }
+  }
+  return chunks;
+}
+
+/** What is sent to the embedder: the chunk with its SIP title and section, which carry most of its context. */
+function embeddingInput(sip: SIP, chunk: SearchChunk): string {
+  return `${sip.cleanTitle || sip.title} - ${chunk.label}\n${chunk.text}`;
+}
+
+async function embedTexts(texts: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+    const batch = await ai.embedMany({ embedder: resolveAiProvider().embedder, content: texts.slice(start, start + EMBED_BATCH_SIZE) });
+    embeddings.push(...batch.map(({ embedding }) => embedding.map(value => Math.round(value * 1e6) / 1e6))); // 6 decimals keep the store small
+  }
+  return embeddings;
+}
+
+/**
+ * Brings the persisted index up to date with `sips`: a SIP is only re-embedded when its chunks
+ * changed since it was last indexed, and a SIP that failed to embed waits FAILED_EMBED_RETRY_DELAY
+ * before it is tried again. Returns the number of SIPs that were (re-)embedded. Entries of removed
+ * SIPs are left behind; they are never matched because searches only rank current SIPs.
+ */
+export function updateSipSearchIndex(sips: SIP[]): Promise<number> {
+  const update = indexQueue.then(async () => {
+    let embeddedCount = 0;
+    for (const sip of sips) {
+      const chunks = chunkSipForSearch(sip);
+      const contentHash = createHash('sha256').update(JSON.stringify(chunks.map(chunk => embeddingInput(sip, chunk)))).digest('hex');
+      const key = indexKey(sip.id);
+      const stored = await searchIndexStore.get(key);
+      if (stored?.contentHash === contentHash) continue;
+      const failure = failedEmbeddings.get(key);
+      if (failure?.contentHash === contentHash && Date.now() - failure.failedAt < FAILED_EMBED_RETRY_DELAY) continue;
+
+      try {
+        const embeddings = await embedTexts(chunks.map(chunk => embeddingInput(sip, chunk)));
+        await searchIndexStore.set(key, {
+          contentHash,
+          chunks: chunks.map((chunk, index) => ({ ...chunk, embedding: embeddings[index] })),
+        });
+        failedEmbeddings.delete(key);
+        embeddedCount++;
+      } catch (error: any) {
+        failedEmbeddings.set(key, { contentHash, failedAt: Date.now() });
+        console.warn(`updateSipSearchIndex: Failed to embed SIP ${sip.id}: ${error?.message}`);
+      }
+    }
+    if (embeddedCount > 0) {
+      console.log(`updateSipSearchIndex: Embedded ${embeddedCount} changed SIPs with ${resolveAiProvider().embedder}.`);
+    }
+    return embeddedCount;
+  });
+  indexQueue = update.catch(() => undefined);
+  return update;
+}
+
+/** Embeds a search query, reusing the embedding of a recent identical query. */
+async function embedQuery(query: string): Promise<number[]> {
+  const key = `${resolveAiProvider().embedder}:${query}`;
+  const cached = queryEmbeddings.get(key);
+  const embedding = cached || (await embedTexts([query]))[0];
+  queryEmbeddings.delete(key);
+  queryEmbeddings.set(key, embedding);
+  if (queryEmbeddings.size > MAX_CACHED_QUERY_EMBEDDINGS) {
+    queryEmbeddings.delete(queryEmbeddings.keys().next().value!);
+  }
+  return embedding;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function excerpt(text: string): string {
+  const flattened = text.replace(/\s+/g, ' ').trim();
+  return flattened.length > EXCERPT_CHARS ? `${flattened.slice(0, EXCERPT_CHARS).replace(/\s+\S*$/, '')}…` : flattened;
+}
+
+/**
+ * Ranks `sips` by how close their best-matching chunk is to `query` in embedding space, best
+ * first, with that chunk as the matched passage. Matches must reach the embedder's minimum score
+ * and stay close to the best match, as real embeddings give unrelated text a positive similarity
+ * too. Only SIPs already in the index are ranked; the others are indexed in the background,
+ * unless a search already started an update, and `indexing` reports them.
+ */
+export async function searchSipIndex(sips: SIP[], query: string, limit: number): Promise<SipSearchResponse> {
+  if (!searchUpdate) {
+    searchUpdate = updateSipSearchIndex(sips)
+      .catch(error => {
+        console.warn(`searchSipIndex: Updating the search index failed: ${error?.message}`);
+        return 0;
+      })
+      .finally(() => { searchUpdate = null; });
+  }
+  const queryEmbedding = await embedQuery(query);
+
+  const results: SipSearchResult[] = [];
+  let indexing = false;
+  for (const sip of sips) {
+    const key = indexKey(sip.id);
+    const entry = await searchIndexStore.get(key);
+    if (!entry) {
+      indexing ||= !failedEmbeddings.has(key); // SIPs that failed to embed are not coming soon
+      continue;
+    }
+    let best: { chunk: IndexedChunk; score: number } | null = null;
+    for (const chunk of entry.chunks) {
+      const score = cosineSimilarity(queryEmbedding, chunk.embedding);
+      if (!best || score > best.score) best = { chunk, score };
+    }
+    if (best && best.score >= resolveAiProvider().minSearchScore) {
+      results.push({
+        id: sip.id,
+        score: Math.round(best.score * 1000) / 1000,
+        passage: { label: best.chunk.label, anchor: best.chunk.anchor, excerpt: excerpt(best.chunk.text) },
+      });
+    }
+  }
+  results.sort((a, b) => b.score - a.score);
+  const minScore = (results[0]?.score ?? 0) * RELATIVE_SCORE_CUTOFF;
+  return { results: results.filter(result => result.score >= minScore).slice(0, limit), indexing };
+}
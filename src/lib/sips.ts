@@ -1,28 +1,60 @@
 
 'use server';
 import matter from 'gray-matter';
-import type { SIP, SipStatus, AiSummary, Comment } from '@/types/sip';
+import type { SIP, SipStatus, AiSummary, Comment, SipRevision, SipStatusTransition, SipReview, SipCommentPage, SipRepositoryInfo, SipNumberConflict, SipSyncStatus, SipAnswer, SipSearchResponse, SipReference } from '@/types/sip';
 import { summarizeSipContentStructured } from '@/ai/flows/summarize-sip-flow';
 import { generateCleanSipTitle } from '@/ai/flows/generate-clean-title-flow';
 import { summarizeDiscussion, type SummarizeDiscussionOutput } from '@/ai/flows/summarize-discussion-flow';
+import { answerSipQuestion, type AnswerSipQuestionOutput } from '@/ai/flows/answer-sip-question-flow';
+import type { GitHubFile, GitHubPullRequest, GitHubIssueComment, GitHubReviewComment, GitHubCommit, GitHubReview } from '@/types/github';
+import { PR_PAGE_SIZE, type SipSourceRequestOptions, type SipFileDates } from '@/lib/sips_sources';
+import { isGitHubRateLimitError } from '@/lib/github_scheduler';
+import {
+  loadSipRepositoryConfigs,
+  createSipRepositories,
+  formatProposalId,
+  namespaceProposalId,
+  competingProposalId,
+  normalizeProposalId,
+  proposalNumberFromId,
+  type SipRepository,
+} from '@/lib/sip_repositories';
+import { createFileStore } from '@/lib/file_store';
+import { loadSipDataset, saveSipDataset, loadStoredSip, saveSipDetail, deleteSipComments, acquireRefreshLease, releaseRefreshLease, type StoredSyncState } from '@/lib/sips_store';
+import { lintSipFrontmatter, VALID_SIP_STATUSES } from '@/lib/sip_frontmatter';
+import { recordProvenance, mergeProvenance } from '@/lib/sip_provenance';
+import { extractTextReferences, extractFrontmatterReferences, dedupeReferences, findRelatedProposals } from '@/lib/sip_references';
+import { cachedAiOutput } from '@/lib/ai_output_cache';
+import { isFailedDiscussionSummary, FAILED_ANSWER_PREFIX } from '@/ai/flow-schemas';
+import { buildSipPassages } from '@/lib/sip_passages';
+import { updateSipSearchIndex, searchSipIndex } from '@/lib/sip_search';
+import { createHash, randomUUID } from 'crypto';
 
 
-const GITHUB_API_URL = 'https://api.github.com';
-const SIPS_REPO_OWNER = 'sui-foundation';
-const SIPS_REPO_NAME = 'sips';
-const SIPS_MAIN_BRANCH_PATH = 'sips';
-const SIPS_WITHDRAWN_PATH = 'withdrawn-sips';
-const SIPS_REPO_BRANCH = 'main';
-const GITHUB_API_TIMEOUT = 15000; // 15 seconds
-let MAX_PR_PAGES_TO_FETCH = 3;
 const AI_SUMMARY_TIMEOUT_MS = 10000; // 10 seconds for AI summary generation
 const AI_CLEAN_TITLE_TIMEOUT_MS = 7000; // 7 seconds for AI clean title generation
 const AI_DISCUSSION_SUMMARY_TIMEOUT_MS = 20000; // 20 seconds for discussion summary
+const AI_ANSWER_TIMEOUT_MS = 30000; // 30 seconds to answer a question; the whole SIP is in the prompt
+const MAX_QUESTION_LENGTH = 500;
+const MAX_SEARCH_RESULTS = 50;
+const MAX_SIP_REVISIONS = 25; // Revisions kept per SIP file: the first one and the most recent ones
+const COMMENTS_PER_PAGE = 15; // Comments embedded in the detail page; the rest are paged through getSipComments
+const MAX_COMMENTS_PER_PAGE = 100;
 
 
 let sipsCache: SIP[] | null = null;
 let cacheTimestamp: number | null = null;
+let mergeInputHashes = new Map<string, string>(); // SIP key -> hash of the raw records the cached entry was merged from
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+const FAILED_REFRESH_RETRY_DELAY = 60 * 1000; // 1 minute before a failed background refresh is retried
+let backgroundRefresh: Promise<{ sips: SIP[]; changedSipIds: string[] }> | null = null;
+let lastFailedRefreshAt: number | null = null;
+let refreshQueue: Promise<unknown> = Promise.resolve();
+const REFRESH_LEASE_HOLDER = randomUUID(); // Names this process's refresh lease in the durable store
+const REFRESH_LEASE_DURATION = 90 * 1000; // Renewed while the refresh runs; a crashed holder's lease expires after this
+const REFRESH_LEASE_RENEW_INTERVAL = 30 * 1000;
+const REFRESH_LEASE_POLL_INTERVAL = 5000; // Wait between attempts to take a lease another instance holds
+const REFRESH_FOLLOW_UP_DELAY = 30 * 1000; // Before a refresh deferred by another instance's lease is tried again
 const FALLBACK_CREATED_AT_DATE = '1970-01-01T00:00:00.000Z';
 const INSUFFICIENT_DETAIL_MESSAGE_FOR_SUMMARY_FIELD = "This proposal does not contain enough information to summarize.";
 
@@ -32,168 +64,37 @@ const USER_REQUESTED_FALLBACK_AI_SUMMARY: AiSummary = {
   whyItMatters: "-",
 };
 
-interface GitHubFile {
-  name: string;
-  path: string;
-  filename?: string;
-  sha: string;
-  size: number;
-  url: string;
-  html_url: string;
-  git_url: string;
-  download_url: string | null;
-  raw_url?: string;
-  type: 'file' | 'dir';
-  status?: 'added' | 'modified' | 'removed' | 'renamed' | 'copied' | 'changed' | 'unchanged';
-}
+const sipRepositories: SipRepository[] = createSipRepositories(loadSipRepositoryConfigs());
 
-interface GitHubLabel {
-  id: number;
-  node_id: string;
-  url: string;
-  name: string;
-  color: string;
-  default: boolean;
-  description: string | null;
+interface PullRequestSyncRecord {
+  updatedAt: string;
+  sips: SIP[]; // Placeholder plus file-parsed SIPs produced by this PR
 }
 
-interface GitHubUser {
-    login: string;
-    avatar_url: string;
-    html_url: string;
+interface SipSyncState extends StoredSyncState {
+  cursor: string | null; // Newest PR `updated_at` covered by a completed sync
+  pullRequests: Record<string, PullRequestSyncRecord>; // Keyed by PR number
+  folders?: Record<string, SIP[]>; // Records parsed by the last read of each SIP folder, keyed by folder path
 }
 
-interface GitHubPullRequest {
-  number: number;
-  html_url: string;
-  title: string;
-  user: GitHubUser | null;
-  created_at: string;
-  updated_at: string;
-  merged_at: string | null;
-  state: 'open' | 'closed';
-  head: { sha: string };
-  body: string | null;
-  labels: GitHubLabel[];
-}
+const syncStateStore = createFileStore<SipSyncState>('sync-state'); // Keyed by "owner/repo"
 
-interface GitHubIssueComment {
-  id: number;
-  user: GitHubUser | null;
-  body: string;
-  created_at: string;
-  html_url: string;
+function syncStateKey(repository: SipRepository): string {
+  return `${repository.config.owner}/${repository.config.repo}`;
 }
 
-interface GitHubReviewComment {
-  id: number;
-  user: GitHubUser | null;
-  body: string;
-  created_at: string;
-  html_url: string;
-  path: string;
-  diff_hunk: string;
-  original_commit_id: string;
+function findRepository(repositoryId: string | undefined): SipRepository | undefined {
+  return repositoryId ? sipRepositories.find(repository => repository.config.id === repositoryId) : sipRepositories[0];
 }
 
-
-async function fetchFromGitHubAPI(url: string, revalidateTime: number = 300): Promise<any> {
-  const headers: HeadersInit = {
-    'Accept': 'application/vnd.github.v3+json',
-  };
-  const token = process.env.GITHUB_TOKEN;
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  } else {
-    console.warn(`GitHub API request to ${url} is UNAUTHENTICATED. GITHUB_TOKEN not found. Rate limits will be lower.`);
-  }
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), GITHUB_API_TIMEOUT);
-
-  try {
-    const response = await fetch(url, { headers, next: { revalidate: revalidateTime }, signal: controller.signal });
-    const MAX_BODY_LOG_LENGTH = 500;
-
-    if (!response.ok) {
-      let errorBodyText = 'Could not read error body';
-      try {
-        errorBodyText = await response.text();
-      } catch (e) {
-         console.warn(`Failed to read error body for ${url}:`, e);
-      }
-      const safeErrorBody = typeof errorBodyText === 'string' ? errorBodyText : String(errorBodyText);
-      const truncatedErrorBody = safeErrorBody.length > MAX_BODY_LOG_LENGTH ? safeErrorBody.substring(0, MAX_BODY_LOG_LENGTH) + "..." : safeErrorBody;
-      
-      const rateLimitRemaining = response.headers.get('x-ratelimit-remaining');
-      const rateLimitReset = response.headers.get('x-ratelimit-reset');
-      const statusText = response.statusText || 'Unknown Status';
-      
-      console.error(`GitHub API request failed: ${response.status} ${statusText} for ${url}. RL-Remaining: ${rateLimitRemaining}, RL-Reset: ${rateLimitReset}. Body: ${truncatedErrorBody}`);
-      throw new Error(`GitHub API request failed for ${url}: ${response.status} ${statusText} (RL-Remaining: ${rateLimitRemaining})`);
-    }
-    return response.json();
-  } catch (error: any) {
-    const errorType = error?.name || 'UnknownError';
-    const errorMessageDetail = error?.message || String(error);
-    const baseMessage = `Error during fetch or JSON parsing for GitHub API URL ${url}. Type: ${errorType}. Detail: ${errorMessageDetail}`;
-    
-    console.error(baseMessage, error?.stack);
-    if (errorType !== 'AbortError' && errorType !== 'Error' && error.stack) {
-        console.error("Full error object in fetchFromGitHubAPI:", error);
-    }
-
-    if (errorType === 'AbortError') {
-      throw new Error(`GitHub API request timed out for ${url}.`);
-    }
-    if (error.message && (error.message.startsWith("GitHub API request failed for") || error.message.startsWith("GitHub API request timed out for"))) {
-        throw error;
-    }
-    throw new Error(baseMessage);
-  } finally {
-    clearTimeout(timeoutId);
-  }
+/** The repository a SIP was read from; records without one predate multi-repository support. */
+function repositoryOf(sip: SIP): SipRepository {
+  return findRepository(sip.repository) || sipRepositories[0];
 }
 
-async function fetchRawContent(url: string): Promise<string> {
-  const headers: HeadersInit = {};
-  const token = process.env.GITHUB_TOKEN;
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  } else {
-    console.warn(`Raw content fetch from ${url} is UNAUTHENTICATED. GITHUB_TOKEN not found. Rate limits will be lower.`);
-  }
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), GITHUB_API_TIMEOUT);
-
-  try {
-    const response = await fetch(url, { headers, next: { revalidate: 300 }, signal: controller.signal });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch raw content: ${response.status} ${response.statusText} for ${url}`);
-    }
-    return response.text();
-  } catch (error: any) {
-    const errorType = error?.name || 'UnknownError';
-    const errorMessageDetail = error?.message || String(error);
-    const fullErrorMessage = `Error fetching raw content from URL ${url}. Type: ${errorType}. Detail: ${errorMessageDetail}`;
-    
-    console.error(fullErrorMessage);
-     if (errorType !== 'AbortError' && errorType !== 'Error' && error.stack) {
-        console.error("Full error object in fetchRawContent:", error);
-    }
-    
-    if (errorType === 'AbortError') {
-      throw new Error(`Raw content fetch timed out for ${url}.`);
-    }
-     if (error.message && (error.message.startsWith("Failed to fetch raw content:") || error.message.startsWith("Raw content fetch timed out for"))) {
-        throw error;
-    }
-    throw new Error(fullErrorMessage);
-  } finally {
-    clearTimeout(timeoutId);
-  }
+function isInWithdrawnFolder(repository: SipRepository, filePath: string | undefined): boolean {
+  const withdrawnPath = repository.config.withdrawnPath;
+  return Boolean(withdrawnPath && filePath && filePath.startsWith(`${withdrawnPath}/`));
 }
 
 function parseValidDate(dateStr: any): string | undefined {
@@ -210,18 +111,14 @@ function parseValidDate(dateStr: any): string | undefined {
 }
 
 
-function formatSipId(num: string | number): string {
-  const numStr = String(num);
-  return `sip-${numStr.padStart(3, '0')}`;
-}
-
-function extractSipNumberFromPrTitle(prTitle: string): string | null {
+function extractSipNumberFromPrTitle(prTitle: string, idPrefix: string): string | null {
   if (!prTitle) return null;
-  const match = prTitle.match(/SIP[-\s:]?(\d+)/i);
+  const match = prTitle.match(new RegExp(`${idPrefix}[-\\s:]?(\\d+)`, 'i'));
   return match && match[1] ? match[1] : null;
 }
 
 interface ParseSipFileOptions {
+  repository: SipRepository;
   fileName: string;
   filePath: string;
   prUrl?: string;
@@ -233,19 +130,22 @@ interface ParseSipFileOptions {
   createdAt?: string; // From PR
   updatedAt?: string; // From PR
   mergedAt?: string | null; // From PR
+  closedAt?: string | null; // From PR
   author?: string;
   prBody?: string | null;
   prLabels?: string[];
+  fileDates?: SipFileDates | null; // From the repository history; preferred over frontmatter dates for folder files
 }
 
 async function parseSipFile(content: string, options: ParseSipFileOptions): Promise<SIP | null> {
   const {
-    fileName, filePath, prUrl: optionPrUrl, prTitle: optionPrTitle, prNumber: optionPrNumber,
+    repository, fileName, filePath, prUrl: optionPrUrl, prTitle: optionPrTitle, prNumber: optionPrNumber,
     prState: optionPrState, defaultStatus, source,
-    createdAt: optionCreatedAt, updatedAt: optionUpdatedAt, mergedAt: optionMergedAt,
-    author: optionAuthor, prBody: optionPrBody, prLabels,
+    createdAt: optionCreatedAt, updatedAt: optionUpdatedAt, mergedAt: optionMergedAt, closedAt: optionClosedAt,
+    author: optionAuthor, prBody: optionPrBody, prLabels, fileDates,
   } = options;
 
+  const { owner, repo, branch, idPrefix } = repository.config;
   try {
     const { data: frontmatter, content: body } = matter(content);
 
@@ -258,7 +158,7 @@ async function parseSipFile(content: string, options: ParseSipFileOptions): Prom
     }
 
     if (!sipNumberStr) {
-      const fileNameNumMatch = fileName.match(/^(?:sip-)?(\d+)(?:[.\-_].*|\.md$)/i);
+      const fileNameNumMatch = fileName.match(new RegExp(`^(?:${idPrefix}-)?(\\d+)(?:[.\\-_].*|\\.md$)`, 'i'));
       if (fileNameNumMatch && fileNameNumMatch[1]) {
         sipNumberStr = fileNameNumMatch[1];
       } else {
@@ -270,7 +170,7 @@ async function parseSipFile(content: string, options: ParseSipFileOptions): Prom
     }
 
     if (!sipNumberStr && (source === 'pull_request') && optionPrTitle) {
-      const numFromTitle = extractSipNumberFromPrTitle(optionPrTitle);
+      const numFromTitle = extractSipNumberFromPrTitle(optionPrTitle, idPrefix);
       if (numFromTitle) {
         sipNumberStr = numFromTitle;
       }
@@ -278,12 +178,12 @@ async function parseSipFile(content: string, options: ParseSipFileOptions): Prom
     
     let id: string;
     if (sipNumberStr) {
-      id = formatSipId(sipNumberStr);
+      id = formatProposalId(repository, sipNumberStr);
     } else {
         if ((source === 'pull_request' || source === 'pull_request_only') && optionPrNumber) {
-            id = formatSipId(optionPrNumber);
+            id = formatProposalId(repository, optionPrNumber);
         } else if (source === 'folder' || source === 'withdrawn_folder') {
-            id = `sip-generic-${fileName.replace(/\.md$/, '').toLowerCase().replace(/[\s_]+/g, '-')}`;
+            id = namespaceProposalId(repository, `${idPrefix}-generic-${fileName.replace(/\.md$/, '').toLowerCase().replace(/[\s_]+/g, '-')}`);
         } else {
              console.warn(`parseSipFile: Could not determine SIP ID for file ${fileName}, source ${source}. Skipping.`);
              return null;
@@ -291,35 +191,44 @@ async function parseSipFile(content: string, options: ParseSipFileOptions): Prom
     }
 
     let sipTitle = frontmatterTitle;
+    let titleRule = 'frontmatter title';
     if (!sipTitle && (source === 'pull_request' || source === 'pull_request_only') && optionPrTitle) {
       sipTitle = optionPrTitle;
+      titleRule = 'PR title';
     }
     if (!sipTitle) {
-        sipTitle = `SIP ${id.replace(/^sip-(?:generic-)?/, '').replace(/^0+/, '') || 'Proposal Document'}`;
+        titleRule = 'derived from the proposal ID';
+        const localId = id.substring(id.lastIndexOf('.') + 1);
+        sipTitle = `${idPrefix.toUpperCase()} ${localId.replace(new RegExp(`^${idPrefix}-(?:generic-)?`), '').replace(/^0+/, '') || 'Proposal Document'}`;
     }
 
     const statusFromFrontmatter = frontmatter.status as SipStatus;
-    const validStatuses: SipStatus[] = ["Draft", "Proposed", "Accepted", "Live", "Rejected", "Withdrawn", "Archived", "Final", "Draft (no file)", "Closed (unmerged)"];
-    
     let resolvedStatus: SipStatus;
-    if (defaultStatus === 'Withdrawn' || (options.filePath && options.filePath.includes(SIPS_WITHDRAWN_PATH))) {
+    let statusRule: string;
+    if (defaultStatus === 'Withdrawn' || isInWithdrawnFolder(repository, options.filePath)) {
         resolvedStatus = 'Withdrawn';
-    } else if (statusFromFrontmatter && validStatuses.includes(statusFromFrontmatter)) {
+        statusRule = 'file is in the withdrawn folder';
+    } else if (statusFromFrontmatter && VALID_SIP_STATUSES.includes(statusFromFrontmatter)) {
         resolvedStatus = statusFromFrontmatter;
+        statusRule = 'frontmatter status';
     } else if (source === 'pull_request' || source === 'pull_request_only') {
-        if (optionMergedAt) resolvedStatus = 'Accepted';
-        else if (optionPrState === 'open') resolvedStatus = 'Draft';
-        else resolvedStatus = 'Closed (unmerged)';
+        if (optionMergedAt) { resolvedStatus = 'Accepted'; statusRule = 'PR was merged'; }
+        else if (optionPrState === 'open') { resolvedStatus = 'Draft'; statusRule = 'PR is open'; }
+        else { resolvedStatus = 'Closed (unmerged)'; statusRule = 'PR was closed without merging'; }
     } else {
         resolvedStatus = defaultStatus;
+        statusRule = 'default for the proposals folder';
     }
     
     const abstractOrDescriptionFM = frontmatter.abstract || frontmatter.description;
     let textualSummary: string;
+    let summaryRule = 'first paragraph of the body';
     
     if (frontmatter.summary && String(frontmatter.summary).trim() !== "") {
         textualSummary = String(frontmatter.summary);
+        summaryRule = 'frontmatter summary';
     } else if (abstractOrDescriptionFM) {
+        summaryRule = 'frontmatter abstract';
         textualSummary = abstractOrDescriptionFM.substring(0, 200) + (abstractOrDescriptionFM.length > 200 ? "..." : "");
     } else if (body && body.trim() !== "") {
         const lines = body.trim().split('\n');
@@ -362,17 +271,18 @@ async function parseSipFile(content: string, options: ParseSipFileOptions): Prom
         if (typeof frontmatter.pr === 'string' && frontmatter.pr.startsWith('http')) {
             prUrlToUse = frontmatter.pr;
         } else if (typeof frontmatter.pr === 'number') {
-            prUrlToUse = `https://github.com/${SIPS_REPO_OWNER}/${SIPS_REPO_NAME}/pull/${frontmatter.pr}`;
+            prUrlToUse = `https://github.com/${owner}/${repo}/pull/${frontmatter.pr}`;
         } else if (typeof frontmatter['discussions-to'] === 'string' && frontmatter['discussions-to'].includes('github.com') && (frontmatter['discussions-to'].includes('/pull/') || frontmatter['discussions-to'].includes('/issues/'))) {
             prUrlToUse = frontmatter['discussions-to'];
         } else {
-            prUrlToUse = `https://github.com/${SIPS_REPO_OWNER}/${SIPS_REPO_NAME}/blob/${SIPS_REPO_BRANCH}/${filePath}`;
+            prUrlToUse = `https://github.com/${owner}/${repo}/blob/${branch}/${filePath}`;
         }
     }
 
     let createdAtISO: string;
     let updatedAtISO: string | undefined;
     let mergedAtVal: string | undefined;
+    let createdRule = 'unknown; fallback date';
 
     const fmCreated = parseValidDate(frontmatter.created || frontmatter.date);
     const fmUpdated = parseValidDate(frontmatter.updated || frontmatter['last-call-deadline'] || frontmatter.lastUpdated || frontmatter['last-updated']);
@@ -386,6 +296,7 @@ async function parseSipFile(content: string, options: ParseSipFileOptions): Prom
         const prMergedAt = optionMergedAt === null ? undefined : (optionMergedAt ? parseValidDate(optionMergedAt) : undefined);
 
         createdAtISO = prCreatedAt || fmCreated || FALLBACK_CREATED_AT_DATE;
+        createdRule = prCreatedAt ? 'PR opening date' : fmCreated ? 'frontmatter created date' : createdRule;
         
         let candidateUpdatedAt: string | undefined;
         if (prUpdatedAt && fmUpdated) { // Both PR and frontmatter updated dates exist
@@ -405,8 +316,14 @@ async function parseSipFile(content: string, options: ParseSipFileOptions): Prom
         
         mergedAtVal = prMergedAt || fmMerged;
 
+    } else if (fileDates) { // 'folder' or 'withdrawn_folder' read with its git history
+        createdAtISO = fileDates.createdAt;
+        createdRule = 'first commit touching the file';
+        updatedAtISO = fileDates.updatedAt;
+        mergedAtVal = fileDates.mergedAt;
     } else { // 'folder' or 'withdrawn_folder' - only frontmatter dates
         createdAtISO = fmCreated || FALLBACK_CREATED_AT_DATE;
+        if (fmCreated) createdRule = 'frontmatter created date';
         if (fmUpdated && new Date(fmUpdated) >= new Date(createdAtISO)) {
             updatedAtISO = fmUpdated;
         } else if (createdAtISO !== FALLBACK_CREATED_AT_DATE) { // If no valid updated_at, default to createdAt if it's valid
@@ -425,8 +342,9 @@ async function parseSipFile(content: string, options: ParseSipFileOptions): Prom
     const proposalType = typeof frontmatter.type === 'string' ? frontmatter.type : undefined;
 
 
-    return {
+    const parsedSip: SIP = {
       id,
+      repository: repository.config.id,
       title: sipTitle,
       status: resolvedStatus,
       summary: textualSummary,
@@ -437,32 +355,44 @@ async function parseSipFile(content: string, options: ParseSipFileOptions): Prom
       createdAt: createdAtISO,
       updatedAt: updatedAtISO,
       mergedAt: mergedAtVal,
+      closedAt: prAssociated && optionClosedAt ? parseValidDate(optionClosedAt) : undefined,
       author: sipAuthor,
       prNumber: optionPrNumber || prNumberFromFrontmatter,
       filePath: options.filePath,
       labels: prLabels || (Array.isArray(frontmatter.labels) ? frontmatter.labels.map(String) : undefined),
       type: proposalType,
       cleanTitle: sipTitle, // Initialize cleanTitle with original title
+      lintIssues: lintSipFrontmatter(frontmatter),
+      references: dedupeReferences([
+        ...extractFrontmatterReferences(frontmatter, repository),
+        ...extractTextReferences(body, repository, 'body'),
+        ...(prAssociated ? extractTextReferences(optionPrBody, repository, 'pr_body') : []),
+      ]),
     };
+    parsedSip.provenance = recordProvenance(parsedSip, {
+      title: titleRule,
+      status: statusRule,
+      summary: textualSummary === INSUFFICIENT_DETAIL_MESSAGE_FOR_SUMMARY_FIELD ? 'no usable text in the file' : textualSummary === sipTitle ? 'title' : summaryRule,
+      body: 'file body',
+      createdAt: createdRule,
+      ...(fileDates && !prAssociated ? { updatedAt: 'last commit touching the file', mergedAt: 'commit that brought the file onto the branch' } : {}),
+      author: optionAuthor ? 'PR author' : 'frontmatter author',
+    });
+    return parsedSip;
   } catch (e: any) {
     console.error(`Error parsing SIP file ${fileName || 'unknown filename'} (source: ${source}, path: ${filePath}): ${e.message}`, e.stack);
     return null;
   }
 }
 
-async function fetchSipsFromFolder(folderPath: string, defaultStatus: SipStatus, source: 'folder' | 'withdrawn_folder'): Promise<SIP[]> {
-  console.log(`fetchSipsFromFolder: Starting for folder '${folderPath}'.`);
-  const repoContentsUrl = `${GITHUB_API_URL}/repos/${SIPS_REPO_OWNER}/${SIPS_REPO_NAME}/contents/${folderPath}?ref=${SIPS_REPO_BRANCH}`;
+async function fetchSipsFromFolder(repository: SipRepository, folderPath: string, defaultStatus: SipStatus, source: 'folder' | 'withdrawn_folder', requestOptions?: SipSourceRequestOptions): Promise<SIP[]> {
+  const sipSource = repository.source;
+  console.log(`fetchSipsFromFolder: Starting for folder '${folderPath}' of '${repository.config.id}' (source: ${sipSource.kind}).`);
   let filesFromRepo: GitHubFile[];
   try {
-    const filesOrDirs = await fetchFromGitHubAPI(repoContentsUrl);
-    if (Array.isArray(filesOrDirs)) {
-        filesFromRepo = filesOrDirs;
-    } else {
-        console.warn(`Expected array of files from ${repoContentsUrl}, got:`, filesOrDirs);
-        filesFromRepo = [];
-    }
+    filesFromRepo = await sipSource.listFolder(folderPath, requestOptions);
   } catch (error) {
+    if (isGitHubRateLimitError(error)) throw error; // An empty folder would drop its SIPs from the dataset
     console.error(`Failed to fetch SIPs from folder '${folderPath}':`, error);
     return [];
   }
@@ -471,14 +401,20 @@ async function fetchSipsFromFolder(folderPath: string, defaultStatus: SipStatus,
     .filter(file => file.type === 'file' && file.name.endsWith('.md') && !file.name.toLowerCase().includes('template') && file.download_url)
     .map(async (file) => {
       try {
-        const rawContent = await fetchRawContent(file.download_url!);
+        const [rawContent, fileDates] = await Promise.all([
+          sipSource.readFile(file, requestOptions),
+          sipSource.getFileDates(file.path),
+        ]);
         return parseSipFile(rawContent, {
+          repository,
           fileName: file.name,
           filePath: file.path,
           defaultStatus: defaultStatus,
           source: source,
+          fileDates,
         });
       } catch (error) {
+        if (isGitHubRateLimitError(error)) throw error;
         console.error(`Failed to process SIP file ${file.name} from ${folderPath} (path: ${file.path}):`, error);
         return null;
       }
@@ -488,144 +424,349 @@ async function fetchSipsFromFolder(folderPath: string, defaultStatus: SipStatus,
   return sips;
 }
 
-
-async function fetchSipsFromPullRequests(page: number = 1): Promise<SIP[]> {
-  console.log(`fetchSipsFromPullRequests: Starting for page ${page}.`);
-  const allPRsUrl = `${GITHUB_API_URL}/repos/${SIPS_REPO_OWNER}/${SIPS_REPO_NAME}/pulls?state=all&sort=updated&direction=desc&per_page=30&page=${page}`;
-  let allPRs: GitHubPullRequest[];
+/** Submitted reviews of a PR, oldest first. Undefined when they could not be fetched. */
+async function fetchPullRequestReviews(repository: SipRepository, prNumber: number, requestOptions?: SipSourceRequestOptions): Promise<SipReview[] | undefined> {
+  let rawReviews: GitHubReview[];
   try {
-    allPRs = await fetchFromGitHubAPI(allPRsUrl);
-  } catch (error) {
-    console.error(`Failed to fetch pull requests (page ${page}):`, error);
-    return [];
+    rawReviews = await repository.source.listReviews(prNumber, requestOptions);
+  } catch (error: any) {
+    if (isGitHubRateLimitError(error)) throw error;
+    console.error(`Error fetching reviews for PR #${prNumber}: ${error?.message}`);
+    return undefined;
   }
+  return rawReviews
+    .filter(review => review.state !== 'PENDING' && review.submitted_at)
+    .map(review => ({
+      id: review.id,
+      reviewer: review.user?.login || 'Unknown User',
+      avatar: review.user?.avatar_url || `https://placehold.co/40x40.png?text=${(review.user?.login || 'U').charAt(0).toUpperCase()}`,
+      state: review.state as SipReview['state'],
+      submittedAt: parseValidDate(review.submitted_at) || FALLBACK_CREATED_AT_DATE,
+      htmlUrl: review.html_url,
+      commitId: review.commit_id || undefined,
+    }))
+    .sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime());
+}
 
-  if (!allPRs || allPRs.length === 0) {
-    console.log(`fetchSipsFromPullRequests: No PRs found on page ${page}.`);
-    return [];
+async function processPullRequest(repository: SipRepository, pr: GitHubPullRequest, requestOptions?: SipSourceRequestOptions): Promise<SIP[]> {
+  const sipSource = repository.source;
+  const { proposalsPath } = repository.config;
+  const sipsFromPr: SIP[] = [];
+  const reviews = await fetchPullRequestReviews(repository, pr.number, requestOptions);
+
+  const prLabels = pr.labels.map(label => label.name);
+  const placeholderSipId = formatProposalId(repository, pr.number);
+  let placeholderStatus: SipStatus;
+  let placeholderStatusRule: string;
+  const prBodyLower = (pr.body || "").toLowerCase();
+  const prTitleLower = (pr.title || "").toLowerCase();
+  const mentionsWithdrawnText = prTitleLower.includes("withdrawn") || prBodyLower.includes("withdrawn") || prLabels.some(l => l.toLowerCase().includes('withdrawn'));
+
+
+  if (pr.state === 'closed') {
+    if (pr.merged_at) {
+      placeholderStatus = 'Accepted';
+      placeholderStatusRule = 'PR was merged';
+    } else if (mentionsWithdrawnText) {
+      placeholderStatus = 'Withdrawn';
+      placeholderStatusRule = 'closed PR mentions "withdrawn"';
+    } else {
+      placeholderStatus = 'Closed (unmerged)';
+      placeholderStatusRule = 'PR was closed without merging';
+    }
+  } else {
+    placeholderStatus = 'Draft (no file)';
+    placeholderStatusRule = 'PR is open and adds no proposal file';
   }
-  console.log(`fetchSipsFromPullRequests: Fetched ${allPRs.length} PRs on page ${page}.`);
-
-  const sipsFromPRs: SIP[] = [];
+  
+  const initialTitleForPlaceholder = pr.title || `PR #${pr.number} Discussion`;
+  const placeholderSip: SIP = {
+    id: placeholderSipId,
+    repository: repository.config.id,
+    title: initialTitleForPlaceholder,
+    cleanTitle: initialTitleForPlaceholder, // Initialize cleanTitle
+    status: placeholderStatus,
+    summary: `Status from PR: ${placeholderStatus}. Title: "${pr.title || `PR #${pr.number}`}"`,
+    aiSummary: USER_REQUESTED_FALLBACK_AI_SUMMARY,
+    body: pr.body || undefined,
+    prUrl: pr.html_url,
+    source: 'pull_request_only',
+    createdAt: parseValidDate(pr.created_at) || FALLBACK_CREATED_AT_DATE,
+    updatedAt: parseValidDate(pr.updated_at) || parseValidDate(pr.created_at) || FALLBACK_CREATED_AT_DATE,
+    mergedAt: pr.merged_at ? parseValidDate(pr.merged_at) : undefined,
+    closedAt: pr.closed_at ? parseValidDate(pr.closed_at) : undefined,
+    author: pr.user?.login,
+    prNumber: pr.number,
+    filePath: undefined,
+    labels: prLabels,
+    reviews,
+    references: extractTextReferences(pr.body, repository, 'pr_body'),
+    // type will be populated later if applicable
+  };
+  placeholderSip.provenance = recordProvenance(placeholderSip, {
+    title: pr.title ? 'PR title' : 'PR number',
+    status: placeholderStatusRule,
+    summary: 'PR status and title',
+    body: 'PR description',
+    author: 'PR author',
+  });
+  sipsFromPr.push(placeholderSip);
+
+  // Fetch failures propagate: recording the PR without its files would hide them until it changes again.
+  const filesInPr: GitHubFile[] = await sipSource.listPullRequestFiles(pr.number, requestOptions);
+  for (const file of filesInPr) {
+    const filePathInPr = file.filename;
+    if (!filePathInPr) {
+        console.warn(`  PR #${pr.number}: File object missing 'filename' (path). Skipping. File:`, file);
+        continue;
+    }
 
-  for (const pr of allPRs) {
-    const prLabels = pr.labels.map(label => label.name);
-    const placeholderSipId = formatSipId(pr.number);
-    let placeholderStatus: SipStatus;
-    const prBodyLower = (pr.body || "").toLowerCase();
-    const prTitleLower = (pr.title || "").toLowerCase();
-    const mentionsWithdrawnText = prTitleLower.includes("withdrawn") || prBodyLower.includes("withdrawn") || prLabels.some(l => l.toLowerCase().includes('withdrawn'));
+    const fileName = filePathInPr.split('/').pop();
+    if (!fileName) {
+        console.warn(`  PR #${pr.number}: Could not extract filename from path: ${filePathInPr}. Skipping.`);
+        continue;
+    }
 
+    const isInWithdrawnSipsDir = isInWithdrawnFolder(repository, filePathInPr);
+    const isInSipsDir = filePathInPr.startsWith(proposalsPath + '/') && !isInWithdrawnSipsDir;
+
+    const isCandidateSipFile = (isInSipsDir || isInWithdrawnSipsDir) &&
+                               filePathInPr.endsWith('.md') &&
+                               !fileName.toLowerCase().includes('template');
+
+    const relevantChangeTypes: Array<GitHubFile['status']> = ['added', 'modified', 'renamed', 'copied', 'changed'];
+    const isRelevantChange = file.status && relevantChangeTypes.includes(file.status);
+
+    if (isRelevantChange && isCandidateSipFile && file.raw_url) {
+      console.log(`processPullRequest (PR #${pr.number}): Processing relevant file: ${filePathInPr} with status ${file.status}`);
+      const rawContent = await sipSource.readFile(file, requestOptions);
+      let fileDefaultStatus: SipStatus = 'Draft';
+       if (isInWithdrawnSipsDir) {
+          fileDefaultStatus = 'Withdrawn';
+      } else if (pr.merged_at) {
+          fileDefaultStatus = 'Accepted';
+      } else if (pr.state === 'closed') {
+          fileDefaultStatus = 'Closed (unmerged)';
+      }
+      
+      const parsedSipFromFile = await parseSipFile(rawContent, {
+        repository,
+        fileName: fileName,
+        filePath: filePathInPr,
+        prUrl: pr.html_url,
+        prTitle: pr.title,
+        prNumber: pr.number,
+        prState: pr.state,
+        createdAt: pr.created_at,
+        updatedAt: pr.updated_at,
+        mergedAt: pr.merged_at,
+        closedAt: pr.closed_at,
+        author: pr.user?.login,
+        defaultStatus: fileDefaultStatus,
+        source: 'pull_request',
+        prBody: pr.body,
+        prLabels: prLabels,
+      });
 
-    if (pr.state === 'closed') {
-      if (pr.merged_at) {
-        placeholderStatus = 'Accepted';
-      } else if (mentionsWithdrawnText) {
-        placeholderStatus = 'Withdrawn';
-      } else {
-        placeholderStatus = 'Closed (unmerged)';
+      if (parsedSipFromFile) {
+        console.log(`processPullRequest (PR #${pr.number}): Successfully parsed SIP from file: ${parsedSipFromFile.id}`);
+        sipsFromPr.push({ ...parsedSipFromFile, reviews });
       }
-    } else {
-      placeholderStatus = 'Draft (no file)';
     }
-    
-    const initialTitleForPlaceholder = pr.title || `PR #${pr.number} Discussion`;
-    const placeholderSip: SIP = {
-      id: placeholderSipId,
-      title: initialTitleForPlaceholder,
-      cleanTitle: initialTitleForPlaceholder, // Initialize cleanTitle
-      status: placeholderStatus,
-      summary: `Status from PR: ${placeholderStatus}. Title: "${pr.title || `PR #${pr.number}`}"`,
-      aiSummary: USER_REQUESTED_FALLBACK_AI_SUMMARY,
-      body: pr.body || undefined,
-      prUrl: pr.html_url,
-      source: 'pull_request_only',
-      createdAt: parseValidDate(pr.created_at) || FALLBACK_CREATED_AT_DATE,
-      updatedAt: parseValidDate(pr.updated_at) || parseValidDate(pr.created_at) || FALLBACK_CREATED_AT_DATE,
-      mergedAt: pr.merged_at ? parseValidDate(pr.merged_at) : undefined,
-      author: pr.user?.login,
-      prNumber: pr.number,
-      filePath: undefined,
-      labels: prLabels,
-      // type will be populated later if applicable
-    };
-    sipsFromPRs.push(placeholderSip);
+  }
+  return sipsFromPr;
+}
 
-    const prFilesUrl = `${GITHUB_API_URL}/repos/${SIPS_REPO_OWNER}/${SIPS_REPO_NAME}/pulls/${pr.number}/files?per_page=100`;
+/** Lets the source read the files of PRs about to be processed in one go; otherwise each file is read on its own. */
+async function prefetchPullRequestFiles(repository: SipRepository, prNumbers: number[]): Promise<void> {
+  if (prNumbers.length === 0 || !repository.source.prefetchPullRequestFiles) return;
+  try {
+    await repository.source.prefetchPullRequestFiles(prNumbers);
+  } catch (error: any) {
+    console.warn(`prefetchPullRequestFiles(${repository.config.id}): Could not prefetch the files of ${prNumbers.length} PRs, reading them one by one: ${error?.message}`);
+  }
+}
+
+/**
+ * Walks PR pages (newest `updated_at` first) and reprocesses every PR updated after the stored
+ * cursor, stopping as soon as it reaches an already-processed PR. The cursor only advances when
+ * the walk completes, so a failed page, a PR whose files could not be fetched or a rate limit is
+ * retried on the next run. Returns the PR numbers that were reprocessed.
+ */
+async function syncPullRequests(repository: SipRepository, state: SipSyncState): Promise<number[]> {
+  const cursorTime = state.cursor ? new Date(state.cursor).getTime() : null;
+  let newestUpdatedAt = state.cursor;
+  let completed = false;
+  const changedPrNumbers: number[] = [];
+
+  console.log(`syncPullRequests(${repository.config.id}): Starting. Cursor: ${state.cursor || 'none (full sync)'}.`);
+  for (let page = 1; ; page++) {
+    let prsOnPage: GitHubPullRequest[];
     try {
-      const filesInPr: GitHubFile[] = await fetchFromGitHubAPI(prFilesUrl, 60 * 5).catch(e => {
-         console.error(`Error fetching files for PR #${pr.number} (Page ${page}) inside try-catch: ${e?.message}`, e?.stack);
-         return [];
-      });
+      prsOnPage = await repository.source.listPullRequests(page);
+    } catch (error) {
+      console.error(`syncPullRequests(${repository.config.id}): Failed to fetch pull requests (page ${page}). Cursor not advanced.`, error);
+      break;
+    }
 
-      for (const file of filesInPr) {
-        const filePathInPr = file.filename;
-        if (!filePathInPr) {
-            console.warn(`  PR #${pr.number}, Page ${page}: File object missing 'filename' (path). Skipping. File:`, file);
-            continue;
-        }
+    if (!prsOnPage || prsOnPage.length === 0) {
+      completed = true;
+      break;
+    }
 
-        const fileName = filePathInPr.split('/').pop();
-        if (!fileName) {
-            console.warn(`  PR #${pr.number}, Page ${page}: Could not extract filename from path: ${filePathInPr}. Skipping.`);
-            continue;
-        }
+    const cursorIndex = cursorTime === null ? -1 : prsOnPage.findIndex(pr => new Date(pr.updated_at).getTime() <= cursorTime);
+    const reachedCursor = cursorIndex >= 0;
+    const prsAfterCursor = reachedCursor ? prsOnPage.slice(0, cursorIndex) : prsOnPage;
+    for (const pr of prsAfterCursor) {
+      if (!newestUpdatedAt || new Date(pr.updated_at) > new Date(newestUpdatedAt)) {
+        newestUpdatedAt = pr.updated_at;
+      }
+    }
+    // PRs already reprocessed at this version, e.g. by a webhook, are skipped
+    const prsToProcess = prsAfterCursor.filter(pr => state.pullRequests[String(pr.number)]?.updatedAt !== pr.updated_at);
+    await prefetchPullRequestFiles(repository, prsToProcess.map(pr => pr.number));
 
-        const isInSipsDir = filePathInPr.startsWith(SIPS_MAIN_BRANCH_PATH + '/') && !filePathInPr.includes(SIPS_WITHDRAWN_PATH);
-        const isInWithdrawnSipsDir = filePathInPr.includes(SIPS_WITHDRAWN_PATH);
-
-        const isCandidateSipFile = (isInSipsDir || isInWithdrawnSipsDir) &&
-                                   filePathInPr.endsWith('.md') &&
-                                   !fileName.toLowerCase().includes('template');
-
-        const relevantChangeTypes: Array<GitHubFile['status']> = ['added', 'modified', 'renamed', 'copied', 'changed'];
-        const isRelevantChange = file.status && relevantChangeTypes.includes(file.status);
-
-        if (isRelevantChange && isCandidateSipFile && file.raw_url) {
-          console.log(`fetchSipsFromPullRequests (Page ${page}, PR #${pr.number}): Processing relevant file: ${filePathInPr} with status ${file.status}`);
-          try {
-            const rawContent = await fetchRawContent(file.raw_url);
-            let fileDefaultStatus: SipStatus = 'Draft';
-             if (isInWithdrawnSipsDir) {
-                fileDefaultStatus = 'Withdrawn';
-            } else if (pr.merged_at) {
-                fileDefaultStatus = 'Accepted';
-            } else if (pr.state === 'closed') {
-                fileDefaultStatus = 'Closed (unmerged)';
-            }
-            
-            const parsedSipFromFile = await parseSipFile(rawContent, {
-              fileName: fileName,
-              filePath: filePathInPr,
-              prUrl: pr.html_url,
-              prTitle: pr.title,
-              prNumber: pr.number,
-              prState: pr.state,
-              createdAt: pr.created_at,
-              updatedAt: pr.updated_at,
-              mergedAt: pr.merged_at,
-              author: pr.user?.login,
-              defaultStatus: fileDefaultStatus,
-              source: 'pull_request',
-              prBody: pr.body,
-              prLabels: prLabels,
-            });
-
-            if (parsedSipFromFile) {
-              console.log(`fetchSipsFromPullRequests (Page ${page}, PR #${pr.number}): Successfully parsed SIP from file: ${parsedSipFromFile.id}`);
-              sipsFromPRs.push(parsedSipFromFile);
-            }
-          } catch (error) {
-            console.error(`  PR #${pr.number}, Page ${page}: Error processing file ${filePathInPr} content:`, error);
-          }
-        }
+    let interrupted = false;
+    for (const pr of prsToProcess) {
+      let sips: SIP[];
+      try {
+        sips = await processPullRequest(repository, pr);
+      } catch (error: any) {
+        const reason = isGitHubRateLimitError(error) ? 'Rate limited' : `Failed (${error?.message})`;
+        console.warn(`syncPullRequests(${repository.config.id}): ${reason} while processing PR #${pr.number}. Keeping its previous records; cursor not advanced.`);
+        interrupted = true;
+        break;
       }
-    } catch (filesError: any) {
-       console.error(`Error fetching files for PR #${pr.number} (Page ${page}): ${filesError?.message}`, filesError.stack);
+      state.pullRequests[String(pr.number)] = { updatedAt: pr.updated_at, sips };
+      changedPrNumbers.push(pr.number);
+    }
+
+    if (interrupted) {
+      break;
+    }
+    if (reachedCursor || prsOnPage.length < PR_PAGE_SIZE) {
+      completed = true;
+      break;
+    }
+  }
+
+  if (completed) {
+    state.cursor = newestUpdatedAt;
+  }
+  console.log(`syncPullRequests(${repository.config.id}): Finished. Reprocessed ${changedPrNumbers.length} PRs. Cursor: ${state.cursor || 'none'}.`);
+  return changedPrNumbers;
+}
+
+/**
+ * Loads the commit history of a SIP's file and parses every revision. PR-only SIPs follow the
+ * PR head, everything else the default branch. Long histories keep the first revision (the
+ * original draft) and the most recent ones. Returns revisions oldest first.
+ */
+async function fetchSipRevisions(sip: SIP): Promise<SipRevision[]> {
+  if (!sip.filePath) return [];
+  const sipSource = repositoryOf(sip).source;
+  const prNumber = sip.source === 'pull_request' ? sip.prNumber : undefined;
+  const history: GitHubCommit[] = await sipSource.listFileCommits(sip.filePath, prNumber); // Newest first
+  const commits = history.length > MAX_SIP_REVISIONS
+    ? [...history.slice(0, MAX_SIP_REVISIONS - 1), history[history.length - 1]]
+    : history;
+
+  const revisions = await Promise.all(commits.map(async (commit): Promise<SipRevision | null> => {
+    try {
+      const rawContent = await sipSource.readFileAtCommit(sip.filePath!, commit.sha);
+      const { data: frontmatter, content: body } = matter(rawContent);
+      return {
+        sha: commit.sha,
+        committedAt: parseValidDate(commit.commit.committer?.date || commit.commit.author?.date) || FALLBACK_CREATED_AT_DATE,
+        author: commit.author?.login || commit.commit.author?.name || 'Unknown',
+        message: commit.commit.message.split('\n')[0],
+        htmlUrl: commit.html_url,
+        // Round-trip through JSON so YAML dates become ISO strings that survive serialization to the client.
+        frontmatter: JSON.parse(JSON.stringify(frontmatter)),
+        body,
+      };
+    } catch (error: any) {
+      console.warn(`fetchSipRevisions(${sip.id}): Could not read ${sip.filePath} at ${commit.sha}: ${error?.message}`);
+      return null;
+    }
+  }));
+
+  return (revisions.filter(revision => revision !== null) as SipRevision[])
+    .sort((a, b) => new Date(a.committedAt).getTime() - new Date(b.committedAt).getTime());
+}
+
+/**
+ * Replays the SIP's revisions and PR events in order and records every change of the status
+ * they imply. The status at each point mirrors `parseSipFile`: a file in the withdrawn folder is
+ * Withdrawn, otherwise a valid frontmatter `status` wins, otherwise the PR state decides.
+ */
+function buildStatusHistory(sip: SIP, revisions: SipRevision[]): SipStatusTransition[] {
+  type StatusEvent = Omit<SipStatusTransition, 'from' | 'to'> & { frontmatterStatus?: SipStatus | null; prState?: 'open' | 'merged' | 'closed' };
+  const events: StatusEvent[] = revisions.map(revision => {
+    const status = revision.frontmatter.status as SipStatus;
+    return {
+      at: revision.committedAt,
+      cause: 'commit',
+      ref: revision.sha,
+      url: revision.htmlUrl,
+      frontmatterStatus: VALID_SIP_STATUSES.includes(status) ? status : null,
+    };
+  });
+
+  if (sip.prNumber) {
+    const prEvent = (at: string, cause: StatusEvent['cause'], prState: StatusEvent['prState']): StatusEvent =>
+      ({ at, cause, ref: `#${sip.prNumber}`, url: sip.prUrl, prState });
+    if ((sip.source === 'pull_request' || sip.source === 'pull_request_only') && sip.createdAt !== FALLBACK_CREATED_AT_DATE) {
+      events.push(prEvent(sip.createdAt, 'pr_opened', 'open'));
+    }
+    if (sip.mergedAt) {
+      events.push(prEvent(sip.mergedAt, 'pr_merged', 'merged'));
+    } else if (sip.closedAt) {
+      events.push(prEvent(sip.closedAt, 'pr_closed', 'closed'));
+    }
+  }
+  // Commits sort before PR events at the same instant, so a merge lands after the squashed commit.
+  events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime() || (a.cause === 'commit' ? -1 : 0) - (b.cause === 'commit' ? -1 : 0));
+
+  const inWithdrawnFolder = isInWithdrawnFolder(repositoryOf(sip), sip.filePath);
+  const history: SipStatusTransition[] = [];
+  let frontmatterStatus: SipStatus | null = null;
+  let prState: StatusEvent['prState'];
+  let seenCommit = false;
+  for (const event of events) {
+    if (event.cause === 'commit') {
+      frontmatterStatus = event.frontmatterStatus ?? null;
+      seenCommit = true;
+    } else {
+      prState = event.prState;
+    }
+
+    let status: SipStatus;
+    if (inWithdrawnFolder && seenCommit) {
+      status = 'Withdrawn'; // The file's history only starts once it was moved to the withdrawn folder
+    } else if (frontmatterStatus) {
+      status = frontmatterStatus;
+    } else if (prState === 'merged') {
+      status = 'Accepted';
+    } else if (prState === 'closed') {
+      status = 'Closed (unmerged)';
+    } else if (prState === 'open') {
+      status = sip.filePath ? 'Draft' : 'Draft (no file)';
+    } else {
+      status = 'Final'; // Default for files on the main branch, as in `fetchSipsFromFolder`
+    }
+
+    const previous = history[history.length - 1]?.to;
+    if (status !== previous) {
+      history.push({ from: previous, to: status, at: event.at, cause: event.cause, ref: event.ref, url: event.url });
     }
   }
-  console.log(`fetchSipsFromPullRequests: Finished for page ${page}. Found ${sipsFromPRs.length} SIP objects (includes placeholders and file-parsed).`);
-  return sipsFromPRs;
+  return history;
+}
+
+/** Replaces the discussion references among `references` with `commentReferences`. */
+function withCommentReferences(references: SipReference[] | undefined, commentReferences: SipReference[]): SipReference[] {
+  return dedupeReferences([...(references || []).filter(reference => reference.origin !== 'comment'), ...commentReferences]);
 }
 
 async function enrichSipWithAiData(sip: SIP): Promise<SIP> {
@@ -644,14 +785,15 @@ async function enrichSipWithAiData(sip: SIP): Promise<SIP> {
         aiInputAbstractOrDescription = enrichedSip.title;
       }
 
-      const aiSummaryPromise = summarizeSipContentStructured({
+      enrichedSip.aiSummary = await cachedAiOutput('summarizeSip', {
         sipBody: aiInputSipBody,
         abstractOrDescription: aiInputAbstractOrDescription,
-      });
-      const summaryTimeoutPromise = new Promise<AiSummary>((_, reject) =>
-        setTimeout(() => reject(new Error(`AI summary generation timed out for SIP ${enrichedSip.id} after ${AI_SUMMARY_TIMEOUT_MS / 1000}s`)), AI_SUMMARY_TIMEOUT_MS)
-      );
-      enrichedSip.aiSummary = await Promise.race([aiSummaryPromise, summaryTimeoutPromise]);
+      }, input => {
+        const summaryTimeoutPromise = new Promise<AiSummary>((_, reject) =>
+          setTimeout(() => reject(new Error(`AI summary generation timed out for SIP ${enrichedSip.id} after ${AI_SUMMARY_TIMEOUT_MS / 1000}s`)), AI_SUMMARY_TIMEOUT_MS)
+        );
+        return Promise.race([summarizeSipContentStructured(input), summaryTimeoutPromise]);
+      }, summary => summary.whatItIs === USER_REQUESTED_FALLBACK_AI_SUMMARY.whatItIs);
     } catch (aiError: any) {
       console.warn(`AI Summary Error/Timeout for SIP ${enrichedSip.id}: ${aiError.message}. Falling back to default.`);
       enrichedSip.aiSummary = USER_REQUESTED_FALLBACK_AI_SUMMARY;
@@ -674,15 +816,16 @@ async function enrichSipWithAiData(sip: SIP): Promise<SIP> {
           contextForCleanTitle = enrichedSip.title;
       }
       
-      const cleanTitlePromise = generateCleanSipTitle({
+      const cleanTitleResult = await cachedAiOutput('generateCleanTitle', {
           originalTitle: enrichedSip.title,
           context: contextForCleanTitle,
           proposalType: enrichedSip.type,
-      });
-      const titleTimeoutPromise = new Promise<ReturnType<typeof generateCleanSipTitle>>((_, reject) =>
-          setTimeout(() => reject(new Error(`AI clean title generation timed out for SIP ${enrichedSip.id} after ${AI_CLEAN_TITLE_TIMEOUT_MS / 1000}s`)), AI_CLEAN_TITLE_TIMEOUT_MS)
-      );
-      const cleanTitleResult = await Promise.race([cleanTitlePromise, titleTimeoutPromise]);
+      }, input => {
+          const titleTimeoutPromise = new Promise<Awaited<ReturnType<typeof generateCleanSipTitle>>>((_, reject) =>
+              setTimeout(() => reject(new Error(`AI clean title generation timed out for SIP ${enrichedSip.id} after ${AI_CLEAN_TITLE_TIMEOUT_MS / 1000}s`)), AI_CLEAN_TITLE_TIMEOUT_MS)
+          );
+          return Promise.race([generateCleanSipTitle(input), titleTimeoutPromise]);
+      }, result => !result?.cleanTitle || result.cleanTitle === enrichedSip.title);
 
       if (cleanTitleResult && cleanTitleResult.cleanTitle) {
           if (cleanTitleResult.cleanTitle !== enrichedSip.title) {
@@ -705,269 +848,777 @@ async function enrichSipWithAiData(sip: SIP): Promise<SIP> {
 }
 
 
-export async function getAllSips(forceRefresh: boolean = false): Promise<SIP[]> {
-  console.log("getAllSips: Execution started.");
-  const now = Date.now();
-  if (sipsCache && cacheTimestamp && (now - cacheTimestamp < CACHE_DURATION) && !forceRefresh) {
-    console.log("getAllSips: Returning cached data.");
-    return sipsCache;
+/**
+ * Folds `currentSip` into `existingSip`, applying the source precedence rules. Records are
+ * expected in the order: PR placeholders, PR files, main folder, withdrawn folder.
+ */
+function mergeSipRecords(existingSip: SIP, currentSip: SIP): SIP {
+  let mergedSip = { ...existingSip };
+
+  if (currentSip.title && !currentSip.title.startsWith(`PR #${currentSip.prNumber} Discussion`)) {
+      mergedSip.title = currentSip.title;
+  } else if (!mergedSip.title.startsWith(`PR #${mergedSip.prNumber} Discussion`) && existingSip.title) {
+      // keep existing
+  } else {
+       mergedSip.title = currentSip.title || existingSip.title;
   }
-  if (forceRefresh) {
-    console.log("getAllSips: Forcing refresh of SIPs data.");
+  
+  if (currentSip.cleanTitle && currentSip.cleanTitle !== currentSip.title) {
+      mergedSip.cleanTitle = currentSip.cleanTitle;
+  } else if (mergedSip.title !== existingSip.title) { 
+       mergedSip.cleanTitle = mergedSip.title;
+  } else { 
+      mergedSip.cleanTitle = currentSip.cleanTitle || existingSip.cleanTitle || mergedSip.title;
+  }
+  
+  if (currentSip.body && currentSip.body.trim() !== "") {
+      mergedSip.body = currentSip.body;
   }
 
-  try {
-    const prSipsPromises = [];
-    for (let i = 1; i <= MAX_PR_PAGES_TO_FETCH; i++) {
-        console.log(`getAllSips: Queuing fetch for PR page ${i}.`);
-        prSipsPromises.push(fetchSipsFromPullRequests(i));
-    }
+  if (currentSip.summary && currentSip.summary !== INSUFFICIENT_DETAIL_MESSAGE_FOR_SUMMARY_FIELD) {
+      mergedSip.summary = currentSip.summary;
+  } else if (existingSip.summary === INSUFFICIENT_DETAIL_MESSAGE_FOR_SUMMARY_FIELD && currentSip.summary) {
+      mergedSip.summary = currentSip.summary;
+  }
+  
+  mergedSip.labels = currentSip.labels && currentSip.labels.length > 0 ? currentSip.labels : existingSip.labels;
+  mergedSip.reviews = currentSip.reviews !== undefined ? currentSip.reviews : existingSip.reviews;
+  mergedSip.lintIssues = currentSip.lintIssues !== undefined ? currentSip.lintIssues : existingSip.lintIssues; // Follows `body`: the last file read wins
+  mergedSip.references = dedupeReferences([...(existingSip.references || []), ...(currentSip.references || [])]);
+  
+  // Date merging logic
+  const validExistingCreatedAt = existingSip.createdAt && existingSip.createdAt !== FALLBACK_CREATED_AT_DATE;
+  const validCurrentCreatedAt = currentSip.createdAt && currentSip.createdAt !== FALLBACK_CREATED_AT_DATE;
+  if (validCurrentCreatedAt && (!validExistingCreatedAt || new Date(currentSip.createdAt!) < new Date(existingSip.createdAt!))) {
+      mergedSip.createdAt = currentSip.createdAt!;
+  } else if (validExistingCreatedAt && !validCurrentCreatedAt) {
+       mergedSip.createdAt = existingSip.createdAt!;
+  } else if (validCurrentCreatedAt && validExistingCreatedAt) {
+       mergedSip.createdAt = new Date(currentSip.createdAt!) < new Date(existingSip.createdAt!) ? currentSip.createdAt! : existingSip.createdAt!;
+  } else { 
+      mergedSip.createdAt = currentSip.createdAt || existingSip.createdAt || FALLBACK_CREATED_AT_DATE;
+  }
 
-    const allFetches = await Promise.all([
-      fetchSipsFromFolder(SIPS_MAIN_BRANCH_PATH, 'Final', 'folder'),
-      fetchSipsFromFolder(SIPS_WITHDRAWN_PATH, 'Withdrawn', 'withdrawn_folder'),
-      ...prSipsPromises,
-    ]);
-    
-    const mainFolderSipsData = allFetches[0];
-    const withdrawnFolderSipsData = allFetches[1];
-    const prSipsResults = allFetches.slice(2).flat();
+  let bestUpdatedAt = mergedSip.createdAt; 
+  const validExistingUpdatedAt = existingSip.updatedAt && existingSip.updatedAt !== FALLBACK_CREATED_AT_DATE && new Date(existingSip.updatedAt) >= new Date(mergedSip.createdAt);
+  const validCurrentUpdatedAt = currentSip.updatedAt && currentSip.updatedAt !== FALLBACK_CREATED_AT_DATE && new Date(currentSip.updatedAt) >= new Date(mergedSip.createdAt);
+
+  if (validExistingUpdatedAt && validCurrentUpdatedAt) {
+      bestUpdatedAt = new Date(existingSip.updatedAt!) > new Date(currentSip.updatedAt!) ? existingSip.updatedAt! : currentSip.updatedAt!;
+  } else if (validExistingUpdatedAt) {
+      bestUpdatedAt = existingSip.updatedAt!;
+  } else if (validCurrentUpdatedAt) {
+      bestUpdatedAt = currentSip.updatedAt!;
+  } else if (mergedSip.createdAt !== FALLBACK_CREATED_AT_DATE) { 
+       bestUpdatedAt = mergedSip.createdAt;
+  } else { 
+      bestUpdatedAt = FALLBACK_CREATED_AT_DATE;
+  }
+  mergedSip.updatedAt = bestUpdatedAt;
 
 
-    console.log(`getAllSips: Fetched ${mainFolderSipsData.length} SIPs from main folder.`);
-    console.log(`getAllSips: Fetched ${withdrawnFolderSipsData.length} SIPs from withdrawn folder.`);
-    console.log(`getAllSips: Total potential SIPs from ${MAX_PR_PAGES_TO_FETCH} PR pages: ${prSipsResults.length}`);
+  mergedSip.mergedAt = currentSip.mergedAt !== undefined ? currentSip.mergedAt : existingSip.mergedAt;
+  if (mergedSip.mergedAt === FALLBACK_CREATED_AT_DATE) mergedSip.mergedAt = undefined;
+  mergedSip.closedAt = currentSip.closedAt !== undefined ? currentSip.closedAt : existingSip.closedAt;
 
-    const combinedSipsMap = new Map<string, SIP>();
-    
-    const allProcessedSips = [
-        ...prSipsResults.filter(s => s.source === 'pull_request_only'),
-        ...prSipsResults.filter(s => s.source === 'pull_request'),
-        ...mainFolderSipsData,
-        ...withdrawnFolderSipsData,
-    ];
-    console.log(`getAllSips: Total SIP entries to process before deduplication: ${allProcessedSips.length}`);
 
-    for (const currentSip of allProcessedSips) {
-      if (!currentSip || !currentSip.id) {
-        console.warn("getAllSips: Skipping SIP with no ID.", currentSip);
-        continue;
-      }
-      const key = currentSip.id.toLowerCase();
-      const existingSip = combinedSipsMap.get(key);
+  mergedSip.prNumber = currentSip.prNumber || existingSip.prNumber;
+  mergedSip.author = currentSip.author || existingSip.author;
+  mergedSip.filePath = currentSip.filePath || existingSip.filePath;
+  mergedSip.prUrl = currentSip.prUrl || existingSip.prUrl;
+  mergedSip.type = currentSip.type || existingSip.type;
+
 
-      if (!existingSip) {
-        combinedSipsMap.set(key, currentSip);
+  if (currentSip.source === 'folder' || currentSip.source === 'withdrawn_folder') {
+      mergedSip.status = currentSip.status;
+  } else if (currentSip.source === 'pull_request' && existingSip.source !== 'pull_request_only') {
+      mergedSip.status = currentSip.status;
+  } else if (currentSip.source === 'pull_request_only' && existingSip.source !== 'pull_request_only') {
+      if (existingSip.source === 'folder' || existingSip.source === 'withdrawn_folder') {
+           mergedSip.status = existingSip.status;
       } else {
-        let mergedSip = { ...existingSip };
+           mergedSip.status = currentSip.status;
+      }
+  } else {
+      mergedSip.status = currentSip.status;
+  }
+  
+  mergedSip.source = currentSip.source === 'pull_request_only' && existingSip.source !== 'pull_request_only' ? existingSip.source : currentSip.source;
+
+
+  const statusBeforeOverrides = mergedSip.status;
+  let statusOverride: Parameters<typeof mergeProvenance>[3];
+  if (mergedSip.source === 'withdrawn_folder' || isInWithdrawnFolder(repositoryOf(mergedSip), mergedSip.filePath)) {
+      mergedSip.status = 'Withdrawn';
+      statusOverride = { rule: 'file is in the withdrawn folder', field: 'filePath' };
+  } else if (mergedSip.mergedAt && !['Final', 'Live', 'Archived', 'Withdrawn', 'Rejected'].includes(mergedSip.status)) {
+       mergedSip.status = 'Accepted';
+       statusOverride = { rule: 'PR was merged', field: 'mergedAt' };
+  } else if (mergedSip.status === 'Draft (no file)' && mergedSip.body && mergedSip.body.trim().length > 0) {
+      mergedSip.status = 'Draft';
+      statusOverride = { rule: 'PR has a description', field: 'body' };
+  }
+  
+  // Retain AI summaries if existingSip had a better one
+  if(existingSip.aiSummary && existingSip.aiSummary.whatItIs !== USER_REQUESTED_FALLBACK_AI_SUMMARY.whatItIs &&
+     (!currentSip.aiSummary || currentSip.aiSummary.whatItIs === USER_REQUESTED_FALLBACK_AI_SUMMARY.whatItIs)) {
+      mergedSip.aiSummary = existingSip.aiSummary;
+  } else if (currentSip.aiSummary) {
+      mergedSip.aiSummary = currentSip.aiSummary;
+  }
 
-        if (currentSip.title && !currentSip.title.startsWith(`PR #${currentSip.prNumber} Discussion`)) {
-            mergedSip.title = currentSip.title;
-        } else if (!mergedSip.title.startsWith(`PR #${mergedSip.prNumber} Discussion`) && existingSip.title) {
-            // keep existing
-        } else {
-             mergedSip.title = currentSip.title || existingSip.title;
-        }
-        
-        if (currentSip.cleanTitle && currentSip.cleanTitle !== currentSip.title) {
-            mergedSip.cleanTitle = currentSip.cleanTitle;
-        } else if (mergedSip.title !== existingSip.title) { 
-             mergedSip.cleanTitle = mergedSip.title;
-        } else { 
-            mergedSip.cleanTitle = currentSip.cleanTitle || existingSip.cleanTitle || mergedSip.title;
-        }
-        
-        if (currentSip.body && currentSip.body.trim() !== "") {
-            mergedSip.body = currentSip.body;
-        }
+  mergedSip.provenance = mergeProvenance(existingSip, currentSip, mergedSip, mergedSip.status !== statusBeforeOverrides ? statusOverride : undefined);
+  return mergedSip;
+}
 
-        if (currentSip.summary && currentSip.summary !== INSUFFICIENT_DETAIL_MESSAGE_FOR_SUMMARY_FIELD) {
-            mergedSip.summary = currentSip.summary;
-        } else if (existingSip.summary === INSUFFICIENT_DETAIL_MESSAGE_FOR_SUMMARY_FIELD && currentSip.summary) {
-            mergedSip.summary = currentSip.summary;
-        }
-        
-        mergedSip.labels = currentSip.labels && currentSip.labels.length > 0 ? currentSip.labels : existingSip.labels;
-        
-        // Date merging logic
-        const validExistingCreatedAt = existingSip.createdAt && existingSip.createdAt !== FALLBACK_CREATED_AT_DATE;
-        const validCurrentCreatedAt = currentSip.createdAt && currentSip.createdAt !== FALLBACK_CREATED_AT_DATE;
-        if (validCurrentCreatedAt && (!validExistingCreatedAt || new Date(currentSip.createdAt!) < new Date(existingSip.createdAt!))) {
-            mergedSip.createdAt = currentSip.createdAt!;
-        } else if (validExistingCreatedAt && !validCurrentCreatedAt) {
-             mergedSip.createdAt = existingSip.createdAt!;
-        } else if (validCurrentCreatedAt && validExistingCreatedAt) {
-             mergedSip.createdAt = new Date(currentSip.createdAt!) < new Date(existingSip.createdAt!) ? currentSip.createdAt! : existingSip.createdAt!;
-        } else { 
-            mergedSip.createdAt = currentSip.createdAt || existingSip.createdAt || FALLBACK_CREATED_AT_DATE;
-        }
+/**
+ * Splits the records that share an ID into the proposals competing for it. A folder file is a claim
+ * keyed by its file name (moving it to the withdrawn folder keeps the name); a PR's file records
+ * join the claim of the file they touch, otherwise they form a claim of their own. Records without
+ * a file (PR placeholders) join the claim of their PR, or the primary claim. The primary claim is
+ * the one with a file on the default branch, else the earliest one. Records keep their order.
+ */
+function splitCompetingClaims(records: SIP[]): SIP[][] {
+  const fileNameOf = (sip: SIP) => sip.filePath?.split('/').pop() || sip.filePath;
+  const isFolderRecord = (sip: SIP) => sip.source === 'folder' || sip.source === 'withdrawn_folder';
+  const folderFileNames = new Set(records.filter(isFolderRecord).map(fileNameOf));
+
+  const claimKeyByRecord = new Map<SIP, string>();
+  for (const record of records) {
+    if (isFolderRecord(record)) {
+      claimKeyByRecord.set(record, `file:${fileNameOf(record)}`);
+    } else if (record.filePath) {
+      const fileName = fileNameOf(record);
+      claimKeyByRecord.set(record, folderFileNames.has(fileName) ? `file:${fileName}` : `pr:${record.prNumber}`);
+    }
+  }
+  const claimKeys = Array.from(new Set(claimKeyByRecord.values()));
+  if (claimKeys.length <= 1) {
+    return [records];
+  }
 
-        let bestUpdatedAt = mergedSip.createdAt; 
-        const validExistingUpdatedAt = existingSip.updatedAt && existingSip.updatedAt !== FALLBACK_CREATED_AT_DATE && new Date(existingSip.updatedAt) >= new Date(mergedSip.createdAt);
-        const validCurrentUpdatedAt = currentSip.updatedAt && currentSip.updatedAt !== FALLBACK_CREATED_AT_DATE && new Date(currentSip.updatedAt) >= new Date(mergedSip.createdAt);
-
-        if (validExistingUpdatedAt && validCurrentUpdatedAt) {
-            bestUpdatedAt = new Date(existingSip.updatedAt!) > new Date(currentSip.updatedAt!) ? existingSip.updatedAt! : currentSip.updatedAt!;
-        } else if (validExistingUpdatedAt) {
-            bestUpdatedAt = existingSip.updatedAt!;
-        } else if (validCurrentUpdatedAt) {
-            bestUpdatedAt = currentSip.updatedAt!;
-        } else if (mergedSip.createdAt !== FALLBACK_CREATED_AT_DATE) { 
-             bestUpdatedAt = mergedSip.createdAt;
-        } else { 
-            bestUpdatedAt = FALLBACK_CREATED_AT_DATE;
-        }
-        mergedSip.updatedAt = bestUpdatedAt;
+  const claims = claimKeys.map(key => records.filter(record => claimKeyByRecord.get(record) === key));
+  const earliestCreatedAt = (claim: SIP[]) => Math.min(...claim.map(record => new Date(record.createdAt).getTime()));
+  claims.sort((a, b) =>
+    Number(b.some(isFolderRecord)) - Number(a.some(isFolderRecord)) || earliestCreatedAt(a) - earliestCreatedAt(b)
+  );
+  for (const placeholder of records.filter(record => !claimKeyByRecord.has(record))) {
+    const prClaim = claims.find(claim => claim.some(record => record.prNumber === placeholder.prNumber && !isFolderRecord(record)));
+    (prClaim || claims[0]).unshift(placeholder); // Placeholders merge first, as in the unsplit record order
+  }
+  return claims;
+}
 
+function sortSips(sips: SIP[]): SIP[] {
+  return sips.sort((a, b) => {
+    const numA = proposalNumberFromId(a.id);
+    const numB = proposalNumberFromId(b.id);
+
+    if (!isNaN(numA) && !isNaN(numB)) {
+      if (numA !== numB) return numB - numA;
+    } else if (!isNaN(numA)) {
+      return -1;
+    } else if (!isNaN(numB)) {
+      return 1;
+    }
 
-        mergedSip.mergedAt = currentSip.mergedAt !== undefined ? currentSip.mergedAt : existingSip.mergedAt;
-        if (mergedSip.mergedAt === FALLBACK_CREATED_AT_DATE) mergedSip.mergedAt = undefined;
+    const statusOrder: SipStatus[] = ["Live", "Final", "Accepted", "Proposed", "Draft", "Draft (no file)", "Closed (unmerged)", "Withdrawn", "Rejected", "Archived"];
+    const statusAIndex = statusOrder.indexOf(a.status);
+    const statusBIndex = statusOrder.indexOf(b.status);
+    if (statusAIndex !== statusBIndex) {
+      return statusAIndex - statusBIndex;
+    }
 
+    const dateA = a.mergedAt || a.updatedAt || a.createdAt;
+    const dateB = b.mergedAt || b.updatedAt || b.createdAt;
+    const timeA = dateA ? new Date(dateA).getTime() : 0;
+    const timeB = dateB ? new Date(dateB).getTime() : 0;
+    if (timeA !== timeB) {
+      return timeB - timeA;
+    }
 
-        mergedSip.prNumber = currentSip.prNumber || existingSip.prNumber;
-        mergedSip.author = currentSip.author || existingSip.author;
-        mergedSip.filePath = currentSip.filePath || existingSip.filePath;
-        mergedSip.prUrl = currentSip.prUrl || existingSip.prUrl;
-        mergedSip.type = currentSip.type || existingSip.type;
+    return a.id.localeCompare(b.id);
+  });
+}
 
+async function hydrateFromSipStore(): Promise<void> {
+  if (sipsCache) return;
+  const storedDataset = await loadSipDataset();
+  if (storedDataset) {
+    const defaultRepositoryId = sipRepositories[0].config.id;
+    sipsCache = sortSips(storedDataset.sips.map(sip => sip.repository ? sip : { ...sip, repository: defaultRepositoryId }));
+    cacheTimestamp = storedDataset.syncedAt;
+    mergeInputHashes = storedDataset.mergeInputHashes;
+    // The stored sync state belongs to the stored dataset, so it replaces whatever the cache directory holds.
+    for (const repository of sipRepositories) {
+      const syncState = storedDataset.syncStates.get(syncStateKey(repository));
+      if (syncState) await syncStateStore.set(syncStateKey(repository), syncState);
+    }
+    console.log(`hydrateFromSipStore: Hydrated ${sipsCache.length} SIPs from the durable store (synced ${new Date(storedDataset.syncedAt).toISOString()}).`);
+  }
+}
 
-        if (currentSip.source === 'folder' || currentSip.source === 'withdrawn_folder') {
-            mergedSip.status = currentSip.status;
-        } else if (currentSip.source === 'pull_request' && existingSip.source !== 'pull_request_only') {
-            mergedSip.status = currentSip.status;
-        } else if (currentSip.source === 'pull_request_only' && existingSip.source !== 'pull_request_only') {
-            if (existingSip.source === 'folder' || existingSip.source === 'withdrawn_folder') {
-                 mergedSip.status = existingSip.status;
-            } else {
-                 mergedSip.status = currentSip.status;
-            }
-        } else {
-            mergedSip.status = currentSip.status;
-        }
-        
-        mergedSip.source = currentSip.source === 'pull_request_only' && existingSip.source !== 'pull_request_only' ? existingSip.source : currentSip.source;
+/**
+ * Runs `task` once every refresh queued before it has settled. Crawls and webhook updates all
+ * read and write the sync state and the dataset, so they must never overlap. The queue orders
+ * refreshes within a process; when the durable store is configured, the task also needs the
+ * store's refresh lease, renewed while it runs, so refreshes of separate instances do not overlap
+ * either. While another instance holds the lease, `whenLeaseHeld` runs instead of `task`, or with
+ * 'wait', the lease is polled until it is free.
+ */
+function withRefreshLock<T>(task: () => Promise<T>, whenLeaseHeld: (() => Promise<T>) | 'wait'): Promise<T> {
+  const leasedTask = async () => {
+    while (!(await acquireRefreshLease(REFRESH_LEASE_HOLDER, REFRESH_LEASE_DURATION))) {
+      if (whenLeaseHeld !== 'wait') return whenLeaseHeld();
+      await new Promise(resolve => setTimeout(resolve, REFRESH_LEASE_POLL_INTERVAL));
+    }
+    const renewal = setInterval(() => {
+      acquireRefreshLease(REFRESH_LEASE_HOLDER, REFRESH_LEASE_DURATION).then(held => {
+        if (!held) console.warn('withRefreshLock: Another instance took over the refresh lease while this refresh was running.');
+      });
+    }, REFRESH_LEASE_RENEW_INTERVAL);
+    try {
+      return await task();
+    } finally {
+      clearInterval(renewal);
+      await releaseRefreshLease(REFRESH_LEASE_HOLDER);
+    }
+  };
+  const run = refreshQueue.then(leasedTask, leasedTask);
+  refreshQueue = run.catch(() => undefined);
+  return run;
+}
 
+/**
+ * Runs `task` under the refresh lock after `REFRESH_FOLLOW_UP_DELAY`, and again for as long as
+ * another instance holds the lease. For webhook refreshes, which must not hold up their caller
+ * while another instance refreshes; resolves to `deferredResult` right away.
+ */
+function refreshLater<T>(label: string, task: () => Promise<T>, deferredResult: T): Promise<T> {
+  console.log(`${label}: Another instance is refreshing the dataset. Trying again in ${REFRESH_FOLLOW_UP_DELAY / 1000}s.`);
+  setTimeout(() => {
+    withRefreshLock(task, () => refreshLater(label, task, deferredResult))
+      .catch(error => console.error(`${label}: Follow-up refresh failed.`, error));
+  }, REFRESH_FOLLOW_UP_DELAY);
+  return Promise.resolve(deferredResult);
+}
 
-        if (mergedSip.source === 'withdrawn_folder' || (mergedSip.filePath && mergedSip.filePath.includes(SIPS_WITHDRAWN_PATH))) {
-            mergedSip.status = 'Withdrawn';
-        } else if (mergedSip.mergedAt && !['Final', 'Live', 'Archived', 'Withdrawn', 'Rejected'].includes(mergedSip.status)) {
-             mergedSip.status = 'Accepted';
-        } else if (mergedSip.status === 'Draft (no file)' && mergedSip.body && mergedSip.body.trim().length > 0) {
-            mergedSip.status = 'Draft';
-        }
-        
-        // Retain AI summaries if existingSip had a better one
-        if(existingSip.aiSummary && existingSip.aiSummary.whatItIs !== USER_REQUESTED_FALLBACK_AI_SUMMARY.whatItIs &&
-           (!currentSip.aiSummary || currentSip.aiSummary.whatItIs === USER_REQUESTED_FALLBACK_AI_SUMMARY.whatItIs)) {
-            mergedSip.aiSummary = existingSip.aiSummary;
-        } else if (currentSip.aiSummary) {
-            mergedSip.aiSummary = currentSip.aiSummary;
-        }
+/**
+ * Starts a full refresh unless one is already running, and returns the running one. While another
+ * instance refreshes, the current dataset is kept and the next stale read tries again; a process
+ * without any data waits for the lease instead, then syncs on from the dataset that instance stored.
+ */
+function startSipDatasetRefresh(): Promise<{ sips: SIP[]; changedSipIds: string[] }> {
+  if (!backgroundRefresh) {
+    backgroundRefresh = withRefreshLock(
+      () => refreshSipDataset(),
+      sipsCache ? async () => ({ sips: sipsCache || [], changedSipIds: [] }) : 'wait',
+    ).finally(() => { backgroundRefresh = null; });
+  }
+  return backgroundRefresh;
+}
 
+/**
+ * Kicks off a background refresh when the cached dataset is older than `CACHE_DURATION`, without
+ * waiting for it. After a failed refresh, the next attempt waits `FAILED_REFRESH_RETRY_DELAY`.
+ */
+function refreshSipsIfStale(now: number): void {
+  const cacheIsFresh = cacheTimestamp && now - cacheTimestamp < CACHE_DURATION;
+  const recentlyFailed = lastFailedRefreshAt && now - lastFailedRefreshAt < FAILED_REFRESH_RETRY_DELAY;
+  if (cacheIsFresh || recentlyFailed || backgroundRefresh) return;
+  console.log("getAllSips: Cached data is stale. Refreshing in the background.");
+  startSipDatasetRefresh().catch(error => console.error("getAllSips: Background refresh failed.", error));
+}
 
-        combinedSipsMap.set(key, mergedSip);
+/**
+ * Returns the SIP dataset. Stale data is served immediately while a single background refresh
+ * brings it up to date; only a process without any data yet, or `forceRefresh`, waits for the crawl.
+ */
+export async function getAllSips(forceRefresh: boolean = false): Promise<SIP[]> {
+  console.log("getAllSips: Execution started.");
+  await hydrateFromSipStore();
+  if (sipsCache && !forceRefresh) {
+    refreshSipsIfStale(Date.now());
+    console.log("getAllSips: Returning cached data.");
+    return sipsCache;
+  }
+  console.log(forceRefresh ? "getAllSips: Forcing refresh of SIPs data." : "getAllSips: No data yet. Waiting for the first refresh.");
+  const { sips } = await startSipDatasetRefresh();
+  return sips;
+}
+
+/** When the dataset was last synced with its sources, and whether a refresh is running now. */
+export async function getSipSyncStatus(): Promise<SipSyncStatus> {
+  await hydrateFromSipStore();
+  return {
+    syncedAt: cacheTimestamp ? new Date(cacheTimestamp).toISOString() : null,
+    refreshing: backgroundRefresh !== null,
+  };
+}
+
+/** The repositories SIPs are read from, in configuration order (the first one is the default). */
+export async function getSipRepositories(): Promise<SipRepositoryInfo[]> {
+  return sipRepositories.map(({ config: { localPath, gitPath, fixturePath, ...info } }) => info);
+}
+
+async function loadSyncState(repository: SipRepository): Promise<SipSyncState> {
+  return (await syncStateStore.get(syncStateKey(repository))) || { cursor: null, pullRequests: {} };
+}
+
+/** What a refresh re-reads from a repository; everything else comes from its stored sync state. */
+interface RepositorySyncOptions {
+  folders: 'all' | string[]; // Folder paths to re-read; a folder without stored records is always read
+  revalidateFolders?: boolean; // Folder listings and files bypass the response store's freshness window
+  walkPullRequests: boolean; // Reprocess PRs updated since the cursor
+}
+
+const FULL_REPOSITORY_SYNC: RepositorySyncOptions = { folders: 'all', walkPullRequests: true };
+const STORED_RECORDS_ONLY: RepositorySyncOptions = { folders: [], walkPullRequests: false };
+
+interface RefreshSipDatasetOptions {
+  now?: number;
+  syncOptionsFor?: (repository: SipRepository) => RepositorySyncOptions; // Defaults to a full sync of every repository
+}
+
+/**
+ * Syncs what `options` asks for of one repository and returns its raw records, in the order
+ * `mergeSipRecords` expects. Records of folders and PRs that are not re-read come from the sync state.
+ */
+async function fetchRepositoryRecords(repository: SipRepository, options: RepositorySyncOptions): Promise<SIP[]> {
+  const { id: repositoryId, proposalsPath, withdrawnPath } = repository.config;
+  const syncState = await loadSyncState(repository);
+  const storedFolders = syncState.folders || {};
+  const folderRequestOptions: SipSourceRequestOptions = { revalidate: options.revalidateFolders };
+  const readFolder = async (folderPath: string, defaultStatus: SipStatus, source: 'folder' | 'withdrawn_folder'): Promise<SIP[]> => {
+    const stored = storedFolders[folderPath];
+    if (stored && options.folders !== 'all' && !options.folders.includes(folderPath)) return stored;
+    return fetchSipsFromFolder(repository, folderPath, defaultStatus, source, folderRequestOptions);
+  };
+
+  const [mainFolderSipsData, withdrawnFolderSipsData, changedPrNumbers] = await Promise.all([
+    readFolder(proposalsPath, 'Final', 'folder'),
+    withdrawnPath ? readFolder(withdrawnPath, 'Withdrawn', 'withdrawn_folder') : Promise.resolve([]),
+    options.walkPullRequests ? syncPullRequests(repository, syncState) : Promise.resolve([] as number[]),
+  ]);
+  syncState.folders = { [proposalsPath]: mainFolderSipsData, ...(withdrawnPath ? { [withdrawnPath]: withdrawnFolderSipsData } : {}) };
+  await syncStateStore.set(syncStateKey(repository), syncState);
+
+  const prSipsResults = Object.values(syncState.pullRequests)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+    .flatMap(record => record.sips);
+
+  console.log(`getAllSips(${repositoryId}): Fetched ${mainFolderSipsData.length} SIPs from main folder.`);
+  console.log(`getAllSips(${repositoryId}): Fetched ${withdrawnFolderSipsData.length} SIPs from withdrawn folder.`);
+  console.log(`getAllSips(${repositoryId}): ${changedPrNumbers.length} PRs changed since last sync. Total potential SIPs from ${Object.keys(syncState.pullRequests).length} known PRs: ${prSipsResults.length}`);
+
+  return [
+    ...prSipsResults.filter(s => s.source === 'pull_request_only'),
+    ...prSipsResults.filter(s => s.source === 'pull_request'),
+    ...mainFolderSipsData,
+    ...withdrawnFolderSipsData,
+  ];
+}
+
+/**
+ * Syncs PRs and folders of every repository (or only what `syncOptionsFor` asks for), re-merges the
+ * SIPs whose raw records changed and replaces the cache. Only a full sync counts as the dataset's
+ * sync time. Returns the new dataset plus the IDs of SIPs that were added, changed or removed.
+ */
+async function refreshSipDataset({ now = Date.now(), syncOptionsFor }: RefreshSipDatasetOptions = {}): Promise<{ sips: SIP[]; changedSipIds: string[] }> {
+  await hydrateFromSipStore();
+  const isFullSync = !syncOptionsFor;
+  try {
+    const recordsByRepository = await Promise.all(sipRepositories.map(repository =>
+      fetchRepositoryRecords(repository, syncOptionsFor ? syncOptionsFor(repository) : FULL_REPOSITORY_SYNC)
+    ));
+    // Records are namespaced by repository ID, so repositories never merge into each other.
+    const allProcessedSips = recordsByRepository.flat();
+    console.log(`getAllSips: Total SIP entries to process before deduplication: ${allProcessedSips.length}`);
+
+    const recordsBySipKey = new Map<string, SIP[]>();
+    for (const currentSip of allProcessedSips) {
+      if (!currentSip || !currentSip.id) {
+        console.warn("getAllSips: Skipping SIP with no ID.", currentSip);
+        continue;
+      }
+      const key = currentSip.id.toLowerCase();
+      const records = recordsBySipKey.get(key);
+      if (records) {
+        records.push(currentSip);
+      } else {
+        recordsBySipKey.set(key, [currentSip]);
+      }
+    }
+
+    // Proposals competing for the same number stay separate: the primary one keeps the ID, the
+    // others get an ID suffixed with their PR number. All of them record the conflict.
+    const claimsBySipKey = new Map<string, { records: SIP[]; conflict?: SipNumberConflict }>();
+    for (const [claimedKey, records] of recordsBySipKey) {
+      const claims = splitCompetingClaims(records);
+      const keys = claims.map((claim, index) => index === 0
+        ? claimedKey
+        : competingProposalId(claimedKey, claim.find(record => record.prNumber)?.prNumber, String(index)));
+      if (claims.length > 1) {
+        console.warn(`getAllSips: ${claims.length} proposals claim ${claimedKey}: ${keys.join(', ')}.`);
+      }
+      claims.forEach((claim, index) => claimsBySipKey.set(keys[index], {
+        records: claim,
+        conflict: claims.length > 1 ? { claimedId: claimedKey, competingIds: keys.filter(key => key !== keys[index]) } : undefined,
+      }));
+    }
+
+    // Only SIPs whose contributing records changed are re-merged and re-enriched; the rest keep
+    // their previously merged (and AI-enriched) entry from the existing dataset.
+    const previousSipsByKey = new Map((sipsCache || []).map(sip => [sip.id.toLowerCase(), sip] as const));
+    const nextMergeInputHashes = new Map<string, string>();
+    const unchangedSips: SIP[] = [];
+    const sipsNoAi: SIP[] = [];
+    for (const [key, { records, conflict }] of claimsBySipKey) {
+      const mergeInputHash = createHash('sha1').update(JSON.stringify({ records, conflict })).digest('hex');
+      nextMergeInputHashes.set(key, mergeInputHash);
+      const previousSip = previousSipsByKey.get(key);
+      if (previousSip && mergeInputHashes.get(key) === mergeInputHash) {
+        unchangedSips.push(previousSip);
+      } else {
+        sipsNoAi.push({ ...records.reduce(mergeSipRecords), id: key, conflict });
       }
     }
+    console.log(`getAllSips: ${sipsNoAi.length} SIPs changed and will be re-merged, ${unchangedSips.length} reused from the existing dataset.`);
 
-    let sipsNoAi = Array.from(combinedSipsMap.values());
 
     const enrichedSipsPromises = sipsNoAi.map(async (sip) => {
       try {
-        const sipToEnrich = { ...sip, cleanTitle: sip.cleanTitle || sip.title };
+        // No requests per SIP here: the history replays the revisions already loaded for the file, if
+        // any, plus PR events. `getSipById` rebuilds it from fresh revisions when the SIP is opened.
+        const previousSip = previousSipsByKey.get(sip.id.toLowerCase());
+        const knownRevisions = previousSip?.filePath === sip.filePath ? previousSip?.revisions || [] : [];
+        const sipToEnrich = {
+          ...sip,
+          statusHistory: buildStatusHistory(sip, knownRevisions),
+          references: withCommentReferences(sip.references, previousSip?.references?.filter(reference => reference.origin === 'comment') || []), // Only known once the discussion is loaded
+          cleanTitle: sip.cleanTitle || sip.title,
+        };
         return await enrichSipWithAiData(sipToEnrich);
       } catch (enrichError) {
         console.error(`Error enriching SIP ${sip.id} with AI data:`, enrichError);
         return { ...sip, aiSummary: USER_REQUESTED_FALLBACK_AI_SUMMARY, cleanTitle: sip.cleanTitle || sip.title };
       }
     });
-    let sips = await Promise.all(enrichedSipsPromises);
+    const enrichedSips = await Promise.all(enrichedSipsPromises);
+    const sips = sortSips([...unchangedSips, ...enrichedSips]);
+    const removedKeys = Array.from(previousSipsByKey.keys()).filter(key => !claimsBySipKey.has(key));
+    const syncedAt = isFullSync ? now : cacheTimestamp ?? 0; // A partial refresh leaves a stale dataset stale
+    const syncStates = new Map(await Promise.all(sipRepositories.map(async repository =>
+      [syncStateKey(repository), await loadSyncState(repository)] as const)));
+    await saveSipDataset(enrichedSips, nextMergeInputHashes, removedKeys, syncedAt, syncStates);
 
+    sipsCache = sips;
+    cacheTimestamp = syncedAt;
+    mergeInputHashes = nextMergeInputHashes;
+    if (isFullSync) lastFailedRefreshAt = null;
+    // Not awaited: embedding changed SIPs must not hold up serving the new dataset
+    updateSipSearchIndex(sips).catch(error => console.warn(`getAllSips: Updating the search index failed: ${error?.message}`));
+    console.log(`getAllSips: Successfully processed. Final unique SIP count: ${sips.length}. Execution finished.`);
+    return { sips, changedSipIds: [...enrichedSips.map(sip => sip.id), ...removedKeys] };
+  } catch (error: any) {
+    if (isFullSync) lastFailedRefreshAt = Date.now();
+    if (sipsCache) {
+      // Stale data beats an empty dataset, or one built from whatever loaded before a rate limit hit.
+      const detail = isGitHubRateLimitError(error) ? error.message : `${error.message}\n${error.stack}`;
+      console.warn(`getAllSips: Refresh failed. Keeping the previous dataset. ${detail}`);
+      return { sips: sipsCache, changedSipIds: [] };
+    }
+    console.error("Critical error in getAllSips pipeline. Error:", error.message, error.stack);
+    return { sips: [], changedSipIds: [] };
+  }
+}
 
-    sips.sort((a, b) => {
-      const numA = parseInt(a.id.replace(/^sip-(?:generic-|sip-)?0*/, ''), 10);
-      const numB = parseInt(b.id.replace(/^sip-(?:generic-|sip-)?0*/, ''), 10);
-
-      if (!isNaN(numA) && !isNaN(numB)) {
-        if (numA !== numB) return numB - numA;
-      } else if (!isNaN(numA)) {
-        return -1;
-      } else if (!isNaN(numB)) {
-        return 1;
-      }
+/**
+ * Re-fetches a single PR (bypassing the response store's freshness window), replaces the records
+ * it contributes and re-merges only the SIPs those records belong to; every other record comes
+ * from the stored sync state. Used by the GitHub webhook route, which only passes the repository
+ * ID and PR number so the PR data itself always comes from GitHub. Returns the IDs of SIPs
+ * affected by the PR, or none when another instance is refreshing and the update runs later.
+ */
+export async function refreshSipsForPullRequest(prNumber: number, repositoryId?: string): Promise<string[]> {
+  const repository = findRepository(repositoryId);
+  if (!repository) {
+    console.warn(`refreshSipsForPullRequest(${prNumber}): Unknown repository '${repositoryId}'.`);
+    return [];
+  }
+  let pr: GitHubPullRequest | null;
+  try {
+    pr = await repository.source.getPullRequest(prNumber, { revalidate: true });
+  } catch (error: any) {
+    console.error(`refreshSipsForPullRequest(${prNumber}): Failed to fetch pull request: ${error?.message}`);
+    return [];
+  }
+  if (!pr) {
+    console.warn(`refreshSipsForPullRequest(${prNumber}): Pull request not available from source '${repository.source.kind}' of '${repository.config.id}'.`);
+    return [];
+  }
 
-      const statusOrder: SipStatus[] = ["Live", "Final", "Accepted", "Proposed", "Draft", "Draft (no file)", "Closed (unmerged)", "Withdrawn", "Rejected", "Archived"];
-      const statusAIndex = statusOrder.indexOf(a.status);
-      const statusBIndex = statusOrder.indexOf(b.status);
-      if (statusAIndex !== statusBIndex) {
-        return statusAIndex - statusBIndex;
-      }
+  const refresh = async () => {
+    const syncState = await loadSyncState(repository);
+    const previousRecord = syncState.pullRequests[String(pr.number)];
+    let sipsFromPr: SIP[];
+    await prefetchPullRequestFiles(repository, [pr.number]);
+    try {
+      sipsFromPr = await processPullRequest(repository, pr, { revalidate: true });
+    } catch (error: any) {
+      console.error(`refreshSipsForPullRequest(${prNumber}): Failed to process pull request, keeping its previous records: ${error?.message}`);
+      return [];
+    }
+    syncState.pullRequests[String(pr.number)] = { updatedAt: pr.updated_at, sips: sipsFromPr };
+    await syncStateStore.set(syncStateKey(repository), syncState);
 
-      const dateA = a.mergedAt || a.updatedAt || a.createdAt;
-      const dateB = b.mergedAt || b.updatedAt || b.createdAt;
-      const timeA = dateA ? new Date(dateA).getTime() : 0;
-      const timeB = dateB ? new Date(dateB).getTime() : 0;
-      if (timeA !== timeB) {
-        return timeB - timeA;
-      }
+    const { changedSipIds } = await refreshSipDataset({ syncOptionsFor: () => STORED_RECORDS_ONLY });
+    // A PR that stops touching a SIP file still affects the page of the SIP it used to produce.
+    const prSipIds = [...(previousRecord?.sips || []), ...sipsFromPr].map(sip => sip.id);
+    return Array.from(new Set([...changedSipIds, ...prSipIds]));
+  };
+  return withRefreshLock(refresh, () => refreshLater(`refreshSipsForPullRequest(${prNumber})`, refresh, []));
+}
 
-      return a.id.localeCompare(b.id);
-    });
+/**
+ * Re-reads SIP folders of a repository on its default branch (bypassing the response store's
+ * freshness window) and re-merges the SIPs whose records changed, without walking PRs. Used by the
+ * GitHub webhook route for pushes; `folderPaths` narrows the read to the folders a push touched.
+ * Returns the IDs of SIPs that were added, changed or removed, or none when another instance is
+ * refreshing and the update runs later.
+ */
+export async function refreshSipFolders(repositoryId?: string, folderPaths?: string[]): Promise<string[]> {
+  const repository = findRepository(repositoryId);
+  if (!repository) {
+    console.warn(`refreshSipFolders: Unknown repository '${repositoryId}'.`);
+    return [];
+  }
+  const refresh = async () => (await refreshSipDataset({
+    syncOptionsFor: candidate => candidate === repository
+      ? { folders: folderPaths || 'all', revalidateFolders: true, walkPullRequests: false }
+      : STORED_RECORDS_ONLY,
+  })).changedSipIds;
+  return withRefreshLock(refresh, () => refreshLater(`refreshSipFolders(${repository.config.id})`, refresh, []));
+}
 
-    sipsCache = sips;
-    cacheTimestamp = now;
-    console.log(`getAllSips: Successfully processed. Final unique SIP count: ${sips.length}. Execution finished.`);
-    return sips;
-  } catch (error: any) {
-    console.error("Critical error in getAllSips pipeline. Error:", error.message, error.stack);
-    sipsCache = null;
+/**
+ * Drops the comment snapshot of every SIP discussed in `prNumber` of the repository, so the next
+ * detail request re-fetches comments and regenerates the discussion summary. Returns the affected SIP IDs.
+ */
+export async function invalidateSipComments(prNumber: number, repositoryId?: string): Promise<string[]> {
+  await hydrateFromSipStore();
+  const repository = findRepository(repositoryId);
+  if (!repository) {
+    console.warn(`invalidateSipComments(${prNumber}): Unknown repository '${repositoryId}'.`);
     return [];
   }
+  const affectedSips = (sipsCache || []).filter(sip => sip.prNumber === prNumber && repositoryOf(sip) === repository);
+  for (const sip of affectedSips) {
+    sip.comments = undefined;
+    sip.discussionSummary = undefined;
+    sip._commentsFetchedAt = undefined;
+  }
+  await Promise.all([
+    deleteSipComments(affectedSips.map(sip => sip.id.toLowerCase())),
+    discussionStore.delete(discussionKey(repository, prNumber)),
+  ]);
+  console.log(`invalidateSipComments(${prNumber}): Invalidated comments for ${affectedSips.length} SIPs.`);
+  return affectedSips.map(sip => sip.id);
 }
 
-export async function getSipById(id: string, forceRefresh: boolean = false): Promise<SIP | null> {
-  let sipsToSearch = sipsCache;
-  const now = Date.now();
-  const COMMENTS_PER_PAGE = 15; // Max comments to show inline, more available via GitHub link.
+interface PullRequestDiscussion {
+  comments: Comment[]; // Issue and review comments, oldest first
+  issueCommentCount: number;
+  reviewCommentCount: number;
+}
 
-  if (!sipsToSearch || !cacheTimestamp || (now - cacheTimestamp >= CACHE_DURATION) || forceRefresh) {
-    console.log(`getSipById(${id}): Cache miss or forced refresh. Calling getAllSips.`);
-    sipsToSearch = await getAllSips(true);
-  } else {
-    console.log(`getSipById(${id}): Using cached SIP list.`);
+interface StoredPullRequestDiscussion extends PullRequestDiscussion {
+  fetchedAt: number; // epoch ms
+}
+
+const discussionStore = createFileStore<StoredPullRequestDiscussion>('pr-discussions'); // Keyed by "owner/repo#number"
+
+function discussionKey(repository: SipRepository, prNumber: number): string {
+  return `${syncStateKey(repository)}#${prNumber}`;
+}
+
+/** Fetches the whole discussion of a PR, following pagination for both comment kinds. */
+async function fetchPullRequestDiscussion(repository: SipRepository, prNumber: number, requestOptions?: SipSourceRequestOptions): Promise<PullRequestDiscussion> {
+  const sipSource = repository.source;
+  const [rawIssueComments, rawReviewComments] = await Promise.all([
+    sipSource.listIssueComments(prNumber, requestOptions).catch(e => { console.error(`Error fetching issue comments for PR #${prNumber}: ${e.message}`); return [] as GitHubIssueComment[]; }),
+    sipSource.listReviewComments(prNumber, requestOptions).catch(e => { console.error(`Error fetching review comments for PR #${prNumber}: ${e.message}`); return [] as GitHubReviewComment[]; })
+  ]);
+
+  const mapComment = (comment: GitHubIssueComment | GitHubReviewComment): Comment => ({
+    id: comment.id,
+    author: comment.user?.login || 'Unknown User',
+    avatar: comment.user?.avatar_url || `https://placehold.co/40x40.png?text=${(comment.user?.login || 'U').charAt(0).toUpperCase()}`,
+    body: comment.body,
+    createdAt: comment.created_at,
+    htmlUrl: comment.html_url,
+  });
+  const mapReviewComment = (comment: GitHubReviewComment): Comment => ({
+    ...mapComment(comment),
+    filePath: comment.path,
+    diffHunk: comment.diff_hunk,
+    commitId: comment.original_commit_id,
+    line: comment.line ?? comment.original_line ?? undefined,
+    inReplyToId: comment.in_reply_to_id,
+  });
+
+  const comments = [
+    ...rawIssueComments.map(mapComment),
+    ...rawReviewComments.map(mapReviewComment),
+  ];
+  comments.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  return { comments, issueCommentCount: rawIssueComments.length, reviewCommentCount: rawReviewComments.length };
+}
+
+/**
+ * The whole discussion of a PR as last fetched, re-fetched once it is older than `CACHE_DURATION`.
+ * `revalidate` skips the stored copy and the response store's freshness window.
+ */
+async function getPullRequestDiscussion(repository: SipRepository, prNumber: number, { revalidate = false }: SipSourceRequestOptions = {}): Promise<PullRequestDiscussion> {
+  const key = discussionKey(repository, prNumber);
+  const stored = revalidate ? undefined : await discussionStore.get(key);
+  if (stored && Date.now() - stored.fetchedAt < CACHE_DURATION) {
+    return stored;
   }
+  const discussion = await fetchPullRequestDiscussion(repository, prNumber, { revalidate });
+  await discussionStore.set(key, { ...discussion, fetchedAt: Date.now() });
+  return discussion;
+}
+
+/**
+ * Returns one page of a SIP's PR discussion (issue and review comments, oldest first), paged from
+ * the stored discussion. Page 1 matches the comments embedded by `getSipById`; the detail page
+ * loads later pages on demand.
+ */
+export async function getSipComments(id: string, page: number = 1, perPage: number = COMMENTS_PER_PAGE): Promise<SipCommentPage | null> {
+  const normalizedId = normalizeProposalId(sipRepositories, id);
+  if (!normalizedId) return null;
+  const sip = (await getAllSips()).find(candidate => normalizeProposalId(sipRepositories, candidate.id) === normalizedId);
+  if (!sip) return null;
+
+  const safePage = Math.max(1, Math.floor(page) || 1);
+  const safePerPage = Math.min(MAX_COMMENTS_PER_PAGE, Math.max(1, Math.floor(perPage) || COMMENTS_PER_PAGE));
+  const { comments } = sip.prNumber
+    ? await getPullRequestDiscussion(repositoryOf(sip), sip.prNumber)
+    : { comments: [] as Comment[] };
+  const start = (safePage - 1) * safePerPage;
+  return {
+    comments: comments.slice(start, start + safePerPage),
+    page: safePage,
+    perPage: safePerPage,
+    total: comments.length,
+    hasMore: start + safePerPage < comments.length,
+  };
+}
 
-  if (!sipsToSearch || sipsToSearch.length === 0) {
-    console.warn(`getSipById(${id}): No SIPs available in sipsToSearch.`);
+/**
+ * Ranks SIPs by semantic similarity of their summaries and body sections to `query`, best first,
+ * each with the passage that matched. Finds proposals that describe the idea in other words.
+ * `indexing` is set while SIPs are still being embedded, e.g. on the first search of an instance.
+ */
+export async function searchSips(query: string, limit: number = 20): Promise<SipSearchResponse> {
+  const trimmedQuery = query.trim().slice(0, MAX_QUESTION_LENGTH);
+  if (!trimmedQuery) return { results: [], indexing: false };
+  const sips = await getAllSips();
+  return searchSipIndex(sips, trimmedQuery, Math.min(MAX_SEARCH_RESULTS, Math.max(1, Math.floor(limit) || 20)));
+}
+
+/**
+ * Answers a question about a SIP from its body sections, PR description and full discussion, with
+ * citations of the passages the answer is based on. Returns null when the SIP does not exist.
+ */
+export async function answerQuestionAboutSip(id: string, question: string): Promise<SipAnswer | null> {
+  const sip = await getSipById(id);
+  if (!sip) return null;
+
+  const trimmedQuestion = question.trim().slice(0, MAX_QUESTION_LENGTH);
+  const repository = repositoryOf(sip);
+  const [prDescription, { comments }] = await Promise.all([
+    sip.prNumber && sip.source !== 'pull_request_only' // PR-only SIPs already use the description as their body
+      ? repository.source.getPullRequest(sip.prNumber)
+          .then(pr => pr?.body || null)
+          .catch(e => { console.error(`Error fetching the description of PR #${sip.prNumber}: ${e.message}`); return null; })
+      : Promise.resolve(null),
+    sip.prNumber
+      ? getPullRequestDiscussion(repository, sip.prNumber)
+      : Promise.resolve({ comments: [] as Comment[] }),
+  ]);
+  const passages = buildSipPassages(sip, prDescription, comments);
+
+  const result = await cachedAiOutput('answerSipQuestion', {
+    sipTitle: sip.cleanTitle || sip.title,
+    question: trimmedQuestion,
+    passages: passages.map(({ id: passageId, label, text }) => ({ id: passageId, label, text })),
+  }, input => {
+    const answerTimeoutPromise = new Promise<AnswerSipQuestionOutput>((_, reject) =>
+      setTimeout(() => reject(new Error(`Answering a question about SIP ${sip.id} timed out after ${AI_ANSWER_TIMEOUT_MS / 1000}s`)), AI_ANSWER_TIMEOUT_MS)
+    );
+    return Promise.race([answerSipQuestion(input), answerTimeoutPromise]);
+  }, output => output.answer.startsWith(FAILED_ANSWER_PREFIX));
+
+  const passagesById = new Map(passages.map(passage => [passage.id, passage]));
+  return {
+    question: trimmedQuestion,
+    answer: result.answer,
+    answered: result.answered,
+    citations: result.citedPassageIds.flatMap(passageId => {
+      const passage = passagesById.get(passageId);
+      return passage ? [{ kind: passage.kind, label: passage.label, url: passage.url }] : [];
+    }),
+  };
+}
+
+export async function getSipById(id: string, forceRefresh: boolean = false): Promise<SIP | null> {
+  const now = Date.now();
+
+  const normalizedIdInput = normalizeProposalId(sipRepositories, id);
+  if (!normalizedIdInput) {
+    console.warn(`getSipById(${id}): No repository matches this ID.`);
     return null;
   }
+  
+  const cacheIsFresh = sipsCache && cacheTimestamp && (now - cacheTimestamp < CACHE_DURATION);
+  let foundSipInitial: SIP | null | undefined = null;
+
+  if (!cacheIsFresh && !forceRefresh) {
+    await hydrateFromSipStore();
+    refreshSipsIfStale(now); // The stored copy is served right away, like stale data in getAllSips
+    foundSipInitial = await loadStoredSip(normalizedIdInput);
+    if (foundSipInitial) {
+      console.log(`getSipById(${id}): Found SIP ${foundSipInitial.id} in the durable store.`);
+    }
+  }
 
-  let normalizedIdInput = id.toLowerCase();
-  const numericMatch = normalizedIdInput.match(/^(?:sip-)?0*(\d+)$/);
+  if (!foundSipInitial) {
+    let sipsToSearch = sipsCache;
+    if (!cacheIsFresh || forceRefresh) {
+      // Serves stale data unless there is none yet; a SIP created since the last sync shows up once the background refresh lands.
+      console.log(`getSipById(${id}): Cache stale, empty or forced refresh. Calling getAllSips.`);
+      sipsToSearch = await getAllSips(forceRefresh);
+    } else {
+      console.log(`getSipById(${id}): Using cached SIP list.`);
+    }
 
-  if (numericMatch && numericMatch[1]) {
-    normalizedIdInput = formatSipId(numericMatch[1]).toLowerCase();
-  } else if (!normalizedIdInput.startsWith('sip-')) {
-    if (!normalizedIdInput.startsWith('sip-generic-')) {
-        normalizedIdInput = `sip-generic-${normalizedIdInput}`;
+    if (!sipsToSearch || sipsToSearch.length === 0) {
+      console.warn(`getSipById(${id}): No SIPs available in sipsToSearch.`);
+      return null;
     }
+
+    foundSipInitial = sipsToSearch.find(sip => sip.id && normalizeProposalId(sipRepositories, sip.id) === normalizedIdInput);
   }
-  
-  const foundSipInitial = sipsToSearch.find(sip => {
-    if (!sip.id) return false;
-    const existingSipNumericMatch = sip.id.toLowerCase().match(/^(?:sip-)?0*(\d+)$/);
-    let comparableExistingId = sip.id.toLowerCase();
-    if (existingSipNumericMatch && existingSipNumericMatch[1]) {
-        comparableExistingId = formatSipId(existingSipNumericMatch[1]).toLowerCase();
-    }
-    return comparableExistingId === normalizedIdInput;
-  });
 
   if (!foundSipInitial) {
     console.log(`getSipById(${id}): SIP with normalized ID '${normalizedIdInput}' not found.`);
     return null;
   }
   
-  let foundSip = {...foundSipInitial}; // Work with a copy for potential enrichments
+  let foundSip = { ...foundSipInitial, repository: repositoryOf(foundSipInitial).config.id }; // Work with a copy for potential enrichments
+  let detailChanged = false;
   console.log(`getSipById(${id}): Found SIP: ${foundSip.id}, PR: ${foundSip.prNumber}`);
 
   const sipRequiresEnrichment = !foundSip.cleanTitle ||
@@ -979,65 +1630,51 @@ export async function getSipById(id: string, forceRefresh: boolean = false): Pro
       try {
           const reEnrichedSip = await enrichSipWithAiData(foundSip); // Pass the copy
           foundSip = reEnrichedSip; // Update our working copy
+          detailChanged = true;
       } catch (e: any) {
           console.warn(`getSipById(${id}): Error during on-demand AI enrichment for SIP ${foundSip.id}: ${e.message}`);
       }
   }
 
 
-  if (foundSip.prNumber && (!foundSip.comments || foundSip.comments.length === 0 || !foundSip.discussionSummary || forceRefresh)) {
+  const commentsAreStale = !foundSip._commentsFetchedAt || (now - new Date(foundSip._commentsFetchedAt).getTime() >= CACHE_DURATION);
+  if (foundSip.prNumber && (!foundSip.comments || foundSip.comments.length === 0 || !foundSip.discussionSummary || commentsAreStale || forceRefresh)) {
+    detailChanged = true;
     try {
       console.log(`getSipById(${id}): Fetching comments for PR #${foundSip.prNumber}`);
-      const issueCommentsUrl = `${GITHUB_API_URL}/repos/${SIPS_REPO_OWNER}/${SIPS_REPO_NAME}/issues/${foundSip.prNumber}/comments?sort=created&direction=asc&per_page=${COMMENTS_PER_PAGE}`;
-      const reviewCommentsUrl = `${GITHUB_API_URL}/repos/${SIPS_REPO_OWNER}/${SIPS_REPO_NAME}/pulls/${foundSip.prNumber}/comments?sort=created&direction=asc&per_page=${COMMENTS_PER_PAGE}`;
-
-      const results = await Promise.all([
-        fetchFromGitHubAPI(issueCommentsUrl, 60).catch(e => { console.error(`Error fetching issue comments for PR #${foundSip.prNumber}: ${e.message}`); return [] as GitHubIssueComment[]; }),
-        fetchFromGitHubAPI(reviewCommentsUrl, 60).catch(e => { console.error(`Error fetching review comments for PR #${foundSip.prNumber}: ${e.message}`); return [] as GitHubReviewComment[]; })
-      ]);
-      const rawIssueComments: GitHubIssueComment[] = results[0] || [];
-      const rawReviewComments: GitHubReviewComment[] = results[1] || [];
-
-      console.log(`getSipById(${id}): Fetched ${rawIssueComments.length} issue comments and ${rawReviewComments.length} review comments for PR #${foundSip.prNumber}.`);
-
-      const mapComment = (comment: GitHubIssueComment | GitHubReviewComment, filePath?: string): Comment => ({
-        id: comment.id,
-        author: comment.user?.login || 'Unknown User',
-        avatar: comment.user?.avatar_url || `https://placehold.co/40x40.png?text=${(comment.user?.login || 'U').charAt(0).toUpperCase()}`,
-        body: comment.body,
-        createdAt: comment.created_at,
-        htmlUrl: comment.html_url,
-        filePath: filePath,
-      });
-
-      const mappedIssueComments = rawIssueComments.map(c => mapComment(c));
-      const mappedReviewComments = rawReviewComments.map(c => mapComment(c, (c as GitHubReviewComment).path));
-
-      const allComments = [...mappedIssueComments, ...mappedReviewComments];
-      allComments.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
-
-      foundSip.comments = allComments;
-      foundSip._rawIssueCommentCount = rawIssueComments.length;
-      foundSip._rawReviewCommentCount = rawReviewComments.length;
+      // Comments that were never fetched (or were invalidated by a webhook) skip the response store's freshness window.
+      const discussion = await getPullRequestDiscussion(repositoryOf(foundSip), foundSip.prNumber, { revalidate: !foundSip._commentsFetchedAt });
+      const allComments = discussion.comments;
+
+      console.log(`getSipById(${id}): Fetched ${discussion.issueCommentCount} issue comments and ${discussion.reviewCommentCount} review comments for PR #${foundSip.prNumber}.`);
+
+      // Only the first page is embedded; the full thread feeds the discussion summary below and the
+      // references, which are stored with the SIP so they also show up as backlinks on other SIPs.
+      foundSip.comments = allComments.slice(0, COMMENTS_PER_PAGE);
+      foundSip.references = withCommentReferences(foundSip.references, allComments.flatMap(comment => extractTextReferences(comment.body, repositoryOf(foundSip), 'comment')));
+      foundSip._rawIssueCommentCount = discussion.issueCommentCount;
+      foundSip._rawReviewCommentCount = discussion.reviewCommentCount;
       foundSip._commentFetchLimit = COMMENTS_PER_PAGE;
+      foundSip._commentsFetchedAt = new Date(now).toISOString();
 
       // Generate discussion summary if comments were fetched
-      if (foundSip.comments && foundSip.comments.length > 0) {
+      if (allComments.length > 0) {
         console.log(`getSipById(${id}): Generating discussion summary for SIP ${foundSip.id}`);
         try {
-          const commentsForSummaryInput = foundSip.comments.map(c => ({
+          const commentsForSummaryInput = allComments.map(c => ({
             author: c.author,
             body: c.body.length > 350 ? c.body.substring(0, 350) + "..." : c.body, // Truncate for AI
           }));
 
-          const discussionSummaryPromise = summarizeDiscussion({
+          const discussionSummaryResult = await cachedAiOutput('summarizeDiscussion', {
             sipTitle: foundSip.cleanTitle || foundSip.title,
             comments: commentsForSummaryInput,
-          });
-          const discussionTimeoutPromise = new Promise<SummarizeDiscussionOutput>((_, reject) =>
-            setTimeout(() => reject(new Error(`Discussion summary generation timed out for SIP ${foundSip.id} after ${AI_DISCUSSION_SUMMARY_TIMEOUT_MS / 1000}s`)), AI_DISCUSSION_SUMMARY_TIMEOUT_MS)
-          );
-          const discussionSummaryResult = await Promise.race([discussionSummaryPromise, discussionTimeoutPromise]);
+          }, input => {
+            const discussionTimeoutPromise = new Promise<SummarizeDiscussionOutput>((_, reject) =>
+              setTimeout(() => reject(new Error(`Discussion summary generation timed out for SIP ${foundSip.id} after ${AI_DISCUSSION_SUMMARY_TIMEOUT_MS / 1000}s`)), AI_DISCUSSION_SUMMARY_TIMEOUT_MS)
+            );
+            return Promise.race([summarizeDiscussion(input), discussionTimeoutPromise]);
+          }, result => isFailedDiscussionSummary(result.summary));
           foundSip.discussionSummary = discussionSummaryResult.summary;
           
           if (foundSip.discussionSummary && foundSip.discussionSummary.trim() === "") {
@@ -1074,6 +1711,22 @@ export async function getSipById(id: string, forceRefresh: boolean = false): Pro
       foundSip.discussionSummary = "No comments available to summarize.";
   }
   
+  const revisionsAreStale = !foundSip._revisionsFetchedAt || (now - new Date(foundSip._revisionsFetchedAt).getTime() >= CACHE_DURATION);
+  if (foundSip.filePath && (!foundSip.revisions || revisionsAreStale || forceRefresh)) {
+    try {
+      foundSip.revisions = await fetchSipRevisions(foundSip);
+      foundSip._revisionsFetchedAt = new Date(now).toISOString();
+      detailChanged = true;
+      console.log(`getSipById(${id}): Loaded ${foundSip.revisions.length} revisions of ${foundSip.filePath}.`);
+    } catch (revisionError: any) {
+      console.error(`getSipById(${id}): Error fetching revision history for ${foundSip.filePath}: ${revisionError?.message}`);
+      foundSip.revisions = foundSip.revisions || [];
+    }
+  }
+  if (foundSip.revisions && foundSip.revisions.length > 0) {
+    foundSip.statusHistory = buildStatusHistory(foundSip, foundSip.revisions); // The crawl may only have had PR events
+  }
+
   // Update the main cache with the potentially enriched SIP (especially with comments and discussionSummary)
   if (sipsCache && foundSip) {
       const indexInCache = sipsCache.findIndex(s => s.id.toLowerCase() === foundSip.id.toLowerCase());
@@ -1081,7 +1734,12 @@ export async function getSipById(id: string, forceRefresh: boolean = false): Pro
           sipsCache[indexInCache] = {...sipsCache[indexInCache], ...foundSip}; // Merge changes into cache
       }
   }
+  if (detailChanged) {
+      await saveSipDetail(foundSip);
+  }
 
-  return foundSip;
+  // Relations are resolved on every read so backlinks follow changes to the other SIPs.
+  await hydrateFromSipStore();
+  return { ...foundSip, relatedProposals: findRelatedProposals(foundSip, sipsCache || [foundSip]) };
 }
 
@@ -0,0 +1,639 @@
+
+import { promises as fs } from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import type { GitHubFile, GitHubPullRequest, GitHubIssueComment, GitHubReviewComment, GitHubCommit, GitHubReview } from '@/types/github';
+import { fetchFromGitHubAPI, fetchAllPagesFromGitHubAPI, fetchRawContent, fetchFromGitHubGraphQL, GITHUB_API_URL } from '@/lib/github_api';
+import {
+  PULL_REQUESTS_PAGE_QUERY,
+  PULL_REQUEST_QUERY,
+  FOLDER_QUERY,
+  PULL_REQUEST_DISCUSSION_QUERY,
+  buildBlobsQuery,
+  isCompleteTextBlob,
+  toGitHubPullRequest,
+  toGitHubPullRequestFile,
+  toGitHubReview,
+  toGitHubIssueComment,
+  toGitHubReviewComments,
+  type GraphQLBlob,
+  type GraphQLPullRequest,
+  type GraphQLTreeEntry,
+  type GraphQLPullRequestDiscussion,
+} from '@/lib/github_graphql';
+import { createTaskLimiter } from '@/lib/task_limiter';
+
+export const PR_PAGE_SIZE = 30;
+const MAX_FILE_COMMIT_PAGES = 10; // 100 commits per page
+const MAX_COMMENT_PAGES = 10; // 100 comments per page
+const IMMUTABLE_CONTENT_REVALIDATE_SECONDS = 60 * 60 * 24 * 365; // Content at a commit SHA never changes
+const MAX_CONCURRENT_GIT_COMMANDS = 4;
+const GIT_MAX_BUFFER_BYTES = 32 * 1024 * 1024;
+const GRAPHQL_BLOBS_PER_QUERY = 50;
+const COMMENTS_REVALIDATE_SECONDS = 60;
+
+const execFileAsync = promisify(execFile);
+
+export interface SipSourceRequestOptions {
+  revalidate?: boolean; // Skip the response store's freshness window and always revalidate with GitHub
+}
+
+/** Dates of a file on the default branch, taken from the repository history. */
+export interface SipFileDates {
+  createdAt: string; // Author date of the first commit that touched the file
+  updatedAt: string; // Committer date of the last commit that touched the file, or `mergedAt` if later
+  mergedAt: string; // Committer date of the first-parent commit that brought the file onto the branch
+}
+
+/**
+ * Where SIP data is read from. Every source returns GitHub-shaped records so the
+ * parsing and merge logic in `sips.ts` stays identical regardless of origin.
+ */
+
+export interface SipSource {
+  readonly kind: 'github' | 'github-graphql' | 'local' | 'git' | 'fixture';
+  listFolder(folderPath: string, options?: SipSourceRequestOptions): Promise<GitHubFile[]>;
+  readFile(file: GitHubFile, options?: SipSourceRequestOptions): Promise<string>;
+  listPullRequests(page: number): Promise<GitHubPullRequest[]>;
+  getPullRequest(prNumber: number, options?: SipSourceRequestOptions): Promise<GitHubPullRequest | null>;
+  listPullRequestFiles(prNumber: number, options?: SipSourceRequestOptions): Promise<GitHubFile[]>;
+  /** Every comment on the PR conversation, oldest first. */
+  listIssueComments(prNumber: number, options?: SipSourceRequestOptions): Promise<GitHubIssueComment[]>;
+  /** Every inline review comment on the PR, oldest first. */
+  listReviewComments(prNumber: number, options?: SipSourceRequestOptions): Promise<GitHubReviewComment[]>;
+  listReviews(prNumber: number, options?: SipSourceRequestOptions): Promise<GitHubReview[]>;
+  /** Commits touching `filePath`, newest first. With `prNumber`, walks the PR's head instead of the default branch. */
+  listFileCommits(filePath: string, prNumber?: number): Promise<GitHubCommit[]>;
+  readFileAtCommit(filePath: string, sha: string): Promise<string>;
+  /** History-derived dates of a file on the default branch, or null when the source cannot provide them without a request per file. */
+  getFileDates(filePath: string): Promise<SipFileDates | null>;
+  /** Reads the files of these listed PRs ahead of `readFile` in as few requests as possible, where the source can batch reads. */
+  prefetchPullRequestFiles?(prNumbers: number[]): Promise<void>;
+}
+
+export interface GitHubSipSourceOptions {
+  owner: string;
+  repo: string;
+  branch: string;
+}
+
+/**
+ * Recorded snapshot of the GitHub responses SipView consumes. Folder listings are keyed
+ * by folder path, PR data by PR number and file contents by the file's download/raw URL.
+ */
+export interface SipFixtureSnapshot {
+  folders: Record<string, GitHubFile[]>;
+  pullRequests: GitHubPullRequest[];
+  pullRequestFiles: Record<string, GitHubFile[]>;
+  fileContents: Record<string, string>;
+  issueComments?: Record<string, GitHubIssueComment[]>;
+  reviewComments?: Record<string, GitHubReviewComment[]>;
+  reviews?: Record<string, GitHubReview[]>;
+  fileCommits?: Record<string, GitHubCommit[]>; // Keyed by file path, newest first
+  revisionContents?: Record<string, string>; // Keyed by `${sha}:${filePath}`
+}
+
+function fileContentKey(file: GitHubFile): string {
+  return file.download_url || file.raw_url || file.filename || file.path;
+}
+
+export function createGitHubSipSource({ owner, repo, branch }: GitHubSipSourceOptions): SipSource {
+  const repoUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}`;
+  const revalidateTime = (options: SipSourceRequestOptions | undefined, defaultSeconds: number) =>
+    options?.revalidate ? 0 : defaultSeconds;
+  return {
+    kind: 'github',
+    async listFolder(folderPath, options) {
+      const contentsUrl = `${repoUrl}/contents/${folderPath}?ref=${branch}`;
+      const filesOrDirs = await fetchFromGitHubAPI(contentsUrl, revalidateTime(options, 300));
+      if (!Array.isArray(filesOrDirs)) {
+        console.warn(`Expected array of files from ${contentsUrl}, got:`, filesOrDirs);
+        return [];
+      }
+      return filesOrDirs;
+    },
+    async readFile(file, options) {
+      const url = file.download_url || file.raw_url;
+      if (!url) {
+        throw new Error(`No download URL available for file ${file.filename || file.path}.`);
+      }
+      return fetchRawContent(url, revalidateTime(options, 300));
+    },
+    async listPullRequests(page) {
+      return fetchFromGitHubAPI(`${repoUrl}/pulls?state=all&sort=updated&direction=desc&per_page=${PR_PAGE_SIZE}&page=${page}`);
+    },
+    async getPullRequest(prNumber, options) {
+      return fetchFromGitHubAPI(`${repoUrl}/pulls/${prNumber}`, revalidateTime(options, 60));
+    },
+    async listPullRequestFiles(prNumber, options) {
+      return fetchFromGitHubAPI(`${repoUrl}/pulls/${prNumber}/files?per_page=100`, revalidateTime(options, 60 * 5));
+    },
+    async listIssueComments(prNumber, options) {
+      return fetchAllPagesFromGitHubAPI(`${repoUrl}/issues/${prNumber}/comments?sort=created&direction=asc&per_page=100`, revalidateTime(options, COMMENTS_REVALIDATE_SECONDS), MAX_COMMENT_PAGES);
+    },
+    async listReviewComments(prNumber, options) {
+      return fetchAllPagesFromGitHubAPI(`${repoUrl}/pulls/${prNumber}/comments?sort=created&direction=asc&per_page=100`, revalidateTime(options, COMMENTS_REVALIDATE_SECONDS), MAX_COMMENT_PAGES);
+    },
+    async listReviews(prNumber, options) {
+      return fetchFromGitHubAPI(`${repoUrl}/pulls/${prNumber}/reviews?per_page=100`, revalidateTime(options, 60 * 5));
+    },
+    async listFileCommits(filePath, prNumber) {
+      const ref = prNumber ? `refs/pull/${prNumber}/head` : branch;
+      return fetchAllPagesFromGitHubAPI(`${repoUrl}/commits?path=${encodeURIComponent(filePath)}&sha=${encodeURIComponent(ref)}&per_page=100`, 60 * 5, MAX_FILE_COMMIT_PAGES);
+    },
+    async readFileAtCommit(filePath, sha) {
+      return fetchRawContent(`https://raw.githubusercontent.com/${owner}/${repo}/${sha}/${filePath}`, IMMUTABLE_CONTENT_REVALIDATE_SECONDS);
+    },
+    async getFileDates() {
+      return null;
+    },
+  };
+}
+
+/** What the GraphQL source learned about a PR alongside the PR itself. Null lists were truncated. */
+interface GraphQLPullRequestDetails {
+  headOid: string;
+  files: GitHubFile[] | null;
+  reviews: GitHubReview[] | null;
+  commentCount: number;
+  reviewThreadCount: number;
+  capturedAt: number;
+}
+
+/**
+ * Reads the same data as {@link createGitHubSipSource} through the GitHub GraphQL API. One query
+ * returns a page of PRs with their labels, files, reviews and comment counts, one a whole folder
+ * with its file contents, and the file contents of the PRs a sync will process are read in one
+ * batched query per page, replacing a REST call per PR and per file. Files, reviews and contents are captured together with the PR or folder they
+ * belong to, so they are exactly as fresh as the records callers hold. Lists GraphQL truncates and
+ * file histories fall back to REST. GraphQL only accepts authenticated requests.
+ */
+export function createGitHubGraphQLSipSource(options: GitHubSipSourceOptions): SipSource {
+  const { owner, repo, branch } = options;
+  const rest = createGitHubSipSource(options);
+  const webUrl = `https://github.com/${owner}/${repo}`;
+  const revalidateTime = (requestOptions: SipSourceRequestOptions | undefined, defaultSeconds: number) =>
+    requestOptions?.revalidate ? 0 : defaultSeconds;
+  const query = async <T>(queryText: string, variables: Record<string, unknown>, revalidateSeconds: number): Promise<T> => {
+    const data = await fetchFromGitHubGraphQL(queryText, { owner, repo, ...variables }, revalidateSeconds);
+    if (!data?.repository) {
+      throw new Error(`GitHub GraphQL API did not return repository ${owner}/${repo}.`);
+    }
+    return data.repository;
+  };
+
+  const details = new Map<number, GraphQLPullRequestDetails>(); // One entry per PR, replaced on every capture
+  const contents = new Map<string, string>(); // Keyed by `fileContentKey`
+  const contentKeysByCapture = new Map<string, string[]>(); // Content keys of each PR (`#n`) or folder at its last capture
+
+  // Drops the contents a PR or folder no longer lists, so pushes do not pile up contents of old heads.
+  const recaptureContents = (captureKey: string, files: GitHubFile[]) => {
+    const keys = files.map(fileContentKey);
+    const kept = new Set(keys);
+    for (const key of contentKeysByCapture.get(captureKey) ?? []) {
+      if (!kept.has(key)) contents.delete(key);
+    }
+    contentKeysByCapture.set(captureKey, keys);
+  };
+  const pageCursors = new Map<number, string | null>(); // `after` cursor of each page; null once past the last page
+
+  const prefetchPullRequestFiles = async (prNumbers: number[]) => {
+    const wanted = prNumbers.flatMap(prNumber => {
+      const known = details.get(prNumber);
+      return (known?.files || [])
+        .filter(file => file.status !== 'removed' && file.path.endsWith('.md') && !contents.has(fileContentKey(file)))
+        .map(file => ({ file, expression: `${known!.headOid}:${file.path}` }));
+    });
+    for (let start = 0; start < wanted.length; start += GRAPHQL_BLOBS_PER_QUERY) {
+      const batch = wanted.slice(start, start + GRAPHQL_BLOBS_PER_QUERY);
+      const { query: blobsQuery, variables } = buildBlobsQuery(batch.map(({ expression }) => expression));
+      const blobs = await query<Record<string, GraphQLBlob | null>>(blobsQuery, variables, IMMUTABLE_CONTENT_REVALIDATE_SECONDS);
+      batch.forEach(({ file }, index) => {
+        const blob = blobs[`file${index}`];
+        if (isCompleteTextBlob(blob)) contents.set(fileContentKey(file), blob.text);
+      });
+    }
+  };
+
+  const capturePullRequest = (node: GraphQLPullRequest): GitHubPullRequest => {
+    const files = node.files.pageInfo?.hasNextPage ? null : node.files.nodes.map(file => toGitHubPullRequestFile(file, webUrl, node.headRefOid));
+    details.set(node.number, {
+      headOid: node.headRefOid,
+      files,
+      reviews: node.reviews.pageInfo?.hasNextPage ? null : node.reviews.nodes.map(toGitHubReview),
+      commentCount: node.comments.totalCount,
+      reviewThreadCount: node.reviewThreads.totalCount,
+      capturedAt: Date.now(),
+    });
+    recaptureContents(`#${node.number}`, files ?? []);
+    return toGitHubPullRequest(node);
+  };
+
+  const getPullRequest = async (prNumber: number, requestOptions?: SipSourceRequestOptions) => {
+    const { pullRequest } = await query<{ pullRequest: GraphQLPullRequest | null }>(PULL_REQUEST_QUERY, { number: prNumber }, revalidateTime(requestOptions, 60));
+    return pullRequest ? capturePullRequest(pullRequest) : null;
+  };
+
+  const detailsFor = async (prNumber: number, requestOptions?: SipSourceRequestOptions) => {
+    if (!details.has(prNumber)) {
+      await getPullRequest(prNumber, requestOptions);
+    }
+    return details.get(prNumber);
+  };
+
+  const listPullRequests = async (page: number): Promise<GitHubPullRequest[]> => {
+    if (page > 1 && !pageCursors.has(page)) {
+      await listPullRequests(page - 1); // GraphQL pages by cursor, so the previous page locates this one
+    }
+    const after = page > 1 ? pageCursors.get(page) : null;
+    if (page > 1 && !after) {
+      return [];
+    }
+    const { pullRequests } = await query<{ pullRequests: { pageInfo: { hasNextPage: boolean; endCursor: string | null }; nodes: GraphQLPullRequest[] } }>(
+      PULL_REQUESTS_PAGE_QUERY, { first: PR_PAGE_SIZE, after }, 300);
+    pageCursors.set(page + 1, pullRequests.pageInfo.hasNextPage ? pullRequests.pageInfo.endCursor : null);
+    return pullRequests.nodes.map(capturePullRequest);
+  };
+
+  const fetchDiscussion = async (prNumber: number, requestOptions?: SipSourceRequestOptions) => {
+    const known = details.get(prNumber);
+    if (!requestOptions?.revalidate && known && known.commentCount === 0 && known.reviewThreadCount === 0 &&
+        Date.now() - known.capturedAt < COMMENTS_REVALIDATE_SECONDS * 1000) {
+      return { issueComments: [], reviewComments: [] };
+    }
+    const { pullRequest } = await query<{ pullRequest: GraphQLPullRequestDiscussion | null }>(
+      PULL_REQUEST_DISCUSSION_QUERY, { number: prNumber }, revalidateTime(requestOptions, COMMENTS_REVALIDATE_SECONDS));
+    if (!pullRequest) {
+      throw new Error(`Pull request #${prNumber} not found in ${owner}/${repo}.`);
+    }
+    const threadsTruncated = pullRequest.reviewThreads.pageInfo?.hasNextPage || pullRequest.reviewThreads.nodes.some(thread => thread.comments.pageInfo?.hasNextPage);
+    return {
+      issueComments: pullRequest.comments.pageInfo?.hasNextPage ? null : pullRequest.comments.nodes.map(toGitHubIssueComment),
+      reviewComments: threadsTruncated ? null : toGitHubReviewComments(pullRequest.reviewThreads.nodes),
+    };
+  };
+
+  return {
+    ...rest,
+    kind: 'github-graphql',
+    async listFolder(folderPath, requestOptions) {
+      const { object } = await query<{ object: { entries?: GraphQLTreeEntry[] } | null }>(
+        FOLDER_QUERY, { expression: `${branch}:${folderPath}` }, revalidateTime(requestOptions, 300));
+      if (!object?.entries) {
+        console.warn(`Folder ${folderPath} does not exist on ${branch} of ${owner}/${repo}.`);
+        return [];
+      }
+      const files = object.entries.map((entry): GitHubFile => {
+        const isFile = entry.type === 'blob';
+        const file: GitHubFile = {
+          name: entry.name,
+          path: entry.path,
+          sha: entry.oid,
+          size: isFile && entry.object && 'byteSize' in entry.object ? entry.object.byteSize || 0 : 0,
+          url: '',
+          html_url: `${webUrl}/${isFile ? 'blob' : 'tree'}/${branch}/${entry.path}`,
+          git_url: '',
+          download_url: isFile ? `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${entry.path}` : null,
+          type: isFile ? 'file' : 'dir',
+        };
+        if (isFile && isCompleteTextBlob(entry.object)) {
+          contents.set(fileContentKey(file), entry.object.text);
+        }
+        return file;
+      });
+      recaptureContents(folderPath, files.filter(file => file.type === 'file'));
+      return files;
+    },
+    async readFile(file, requestOptions) {
+      return contents.get(fileContentKey(file)) ?? rest.readFile(file, requestOptions);
+    },
+    listPullRequests,
+    getPullRequest,
+    prefetchPullRequestFiles,
+    async listPullRequestFiles(prNumber, requestOptions) {
+      return (await detailsFor(prNumber, requestOptions))?.files ?? rest.listPullRequestFiles(prNumber, requestOptions);
+    },
+    async listReviews(prNumber, requestOptions) {
+      return (await detailsFor(prNumber, requestOptions))?.reviews ?? rest.listReviews(prNumber, requestOptions);
+    },
+    async listIssueComments(prNumber, requestOptions) {
+      return (await fetchDiscussion(prNumber, requestOptions)).issueComments ?? rest.listIssueComments(prNumber, requestOptions);
+    },
+    async listReviewComments(prNumber, requestOptions) {
+      return (await fetchDiscussion(prNumber, requestOptions)).reviewComments ?? rest.listReviewComments(prNumber, requestOptions);
+    },
+  };
+}
+
+/**
+ * The GitHub source for repositories without a local source configured: GraphQL when a
+ * `GITHUB_TOKEN` is set, REST otherwise. `SIPS_GITHUB_API=rest` forces REST.
+ */
+export function createDefaultGitHubSipSource(options: GitHubSipSourceOptions): SipSource {
+  const api = (process.env.SIPS_GITHUB_API || '').toLowerCase();
+  if (api === 'rest' || !process.env.GITHUB_TOKEN) {
+    return createGitHubSipSource(options);
+  }
+  return createGitHubGraphQLSipSource(options);
+}
+
+/**
+ * Reads SIP markdown straight from a checked-out clone of the SIPs repository.
+ * A plain directory has no pull requests or comments, so those lists are always empty.
+ */
+export function createLocalDirectorySipSource(rootDir: string): SipSource {
+  const root = path.resolve(rootDir);
+  return {
+    kind: 'local',
+    async listFolder(folderPath) {
+      const absoluteFolder = path.join(root, folderPath);
+      let entries;
+      try {
+        entries = await fs.readdir(absoluteFolder, { withFileTypes: true });
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+          console.warn(`Local SIP folder ${absoluteFolder} does not exist.`);
+          return [];
+        }
+        throw error;
+      }
+      return Promise.all(entries.map(async (entry): Promise<GitHubFile> => {
+        const relativePath = path.posix.join(folderPath, entry.name);
+        const absolutePath = path.join(absoluteFolder, entry.name);
+        const isFile = entry.isFile();
+        const size = isFile ? (await fs.stat(absolutePath)).size : 0;
+        return {
+          name: entry.name,
+          path: relativePath,
+          sha: '',
+          size,
+          url: '',
+          html_url: '',
+          git_url: '',
+          download_url: isFile ? `file://${absolutePath}` : null,
+          type: isFile ? 'file' : 'dir',
+        };
+      }));
+    },
+    async readFile(file) {
+      return fs.readFile(path.join(root, file.filename || file.path), 'utf8');
+    },
+    async listPullRequests() {
+      return [];
+    },
+    async getPullRequest() {
+      return null;
+    },
+    async listPullRequestFiles() {
+      return [];
+    },
+    async listIssueComments() {
+      return [];
+    },
+    async listReviewComments() {
+      return [];
+    },
+    async listReviews() {
+      return [];
+    },
+    async listFileCommits() {
+      return [];
+    },
+    async readFileAtCommit(filePath) {
+      throw new Error(`Revision history for ${filePath} is not available from a local directory.`);
+    },
+    async getFileDates() {
+      return null;
+    },
+  };
+}
+
+const GIT_LOG_FORMAT = ['%H', '%an', '%ae', '%aI', '%cn', '%ce', '%cI', '%s'].join('%x1f') + '%x1e';
+
+function parseGitLog(output: string, webUrl: string): GitHubCommit[] {
+  return output.split('\x1e').map(record => record.trim()).filter(Boolean).map(record => {
+    const [sha, authorName, authorEmail, authorDate, committerName, committerEmail, committerDate, subject] = record.split('\x1f');
+    return {
+      sha,
+      html_url: `${webUrl}/commit/${sha}`,
+      author: null, // A clone knows commit identities, not GitHub accounts
+      commit: {
+        message: subject,
+        author: { name: authorName, email: authorEmail, date: authorDate },
+        committer: { name: committerName, email: committerEmail, date: committerDate },
+      },
+    };
+  });
+}
+
+/**
+ * Reads SIPs from a git clone of the SIPs repository through `git` itself: folders and files come
+ * from `branch` (or `origin/<branch>`) rather than the working tree, and file history from
+ * `git log`, so dates are exact and nothing needs the network. Pull request heads are only found
+ * when the clone has fetched `refs/pull/*`; PR metadata and comments are never available.
+ */
+export function createGitCloneSipSource(rootDir: string, { owner, repo, branch }: GitHubSipSourceOptions): SipSource {
+  const root = path.resolve(rootDir);
+  const webUrl = `https://github.com/${owner}/${repo}`;
+  const limit = createTaskLimiter(MAX_CONCURRENT_GIT_COMMANDS);
+  const git = (args: string[]) =>
+    limit(async () => (await execFileAsync('git', ['-C', root, ...args], { maxBuffer: GIT_MAX_BUFFER_BYTES })).stdout);
+
+  const refExists = (ref: string) => git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]).then(() => true, () => false);
+  let branchRefPromise: Promise<string> | null = null;
+  const resolveBranchRef = () => {
+    if (!branchRefPromise) {
+      branchRefPromise = (async () => {
+        for (const candidate of [branch, `origin/${branch}`]) {
+          if (await refExists(candidate)) return candidate;
+        }
+        throw new Error(`Git clone ${root} has neither a '${branch}' nor an 'origin/${branch}' branch.`);
+      })().catch(error => {
+        branchRefPromise = null; // Retry on the next call, e.g. once the clone has been fetched
+        throw error;
+      });
+    }
+    return branchRefPromise;
+  };
+
+  return {
+    kind: 'git',
+    async listFolder(folderPath) {
+      const ref = await resolveBranchRef();
+      const output = await git(['ls-tree', '-l', '-z', ref, '--', `${folderPath}/`]);
+      const entries = output.split('\0').filter(Boolean);
+      if (entries.length === 0) {
+        console.warn(`Folder ${folderPath} does not exist on ${ref} in git clone ${root}.`);
+      }
+      return entries.map((entry): GitHubFile => {
+        const [meta, filePath] = entry.split('\t');
+        const [, objectType, sha, size] = meta.split(/\s+/);
+        const isFile = objectType === 'blob';
+        return {
+          name: path.posix.basename(filePath),
+          path: filePath,
+          sha,
+          size: isFile ? parseInt(size, 10) : 0,
+          url: '',
+          html_url: `${webUrl}/${isFile ? 'blob' : 'tree'}/${branch}/${filePath}`,
+          git_url: '',
+          download_url: isFile ? `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${filePath}` : null,
+          type: isFile ? 'file' : 'dir',
+        };
+      });
+    },
+    async readFile(file) {
+      const ref = await resolveBranchRef();
+      return git(['show', `${ref}:${file.filename || file.path}`]);
+    },
+    async listPullRequests() {
+      return [];
+    },
+    async getPullRequest() {
+      return null;
+    },
+    async listPullRequestFiles() {
+      return [];
+    },
+    async listIssueComments() {
+      return [];
+    },
+    async listReviewComments() {
+      return [];
+    },
+    async listReviews() {
+      return [];
+    },
+    async listFileCommits(filePath, prNumber) {
+      const ref = prNumber ? `refs/pull/${prNumber}/head` : await resolveBranchRef();
+      if (prNumber && !(await refExists(ref))) {
+        return [];
+      }
+      const output = await git(['log', `--max-count=${MAX_FILE_COMMIT_PAGES * 100}`, `--format=${GIT_LOG_FORMAT}`, ref, '--', filePath]);
+      return parseGitLog(output, webUrl);
+    },
+    async readFileAtCommit(filePath, sha) {
+      return git(['show', `${sha}:${filePath}`]);
+    },
+    async getFileDates(filePath) {
+      const ref = await resolveBranchRef();
+      // `--follow` reaches past renames, e.g. a move into the withdrawn folder, to the file's first commit.
+      const history = (await git(['log', '--follow', '--format=%aI %cI', ref, '--', filePath])).trim().split('\n').filter(Boolean);
+      if (history.length === 0) {
+        return null;
+      }
+      const landings = (await git(['log', '--first-parent', '--format=%cI', ref, '--', filePath])).trim().split('\n').filter(Boolean);
+      const toISOString = (gitDate: string) => new Date(gitDate).toISOString();
+      const createdAt = toISOString(history[history.length - 1].split(' ')[0]);
+      const mergedAt = landings.length > 0 ? toISOString(landings[landings.length - 1]) : createdAt;
+      const lastCommitAt = toISOString(history[0].split(' ')[1]);
+      return { createdAt, updatedAt: lastCommitAt > mergedAt ? lastCommitAt : mergedAt, mergedAt };
+    },
+  };
+}
+
+/**
+ * Serves a recorded {@link SipFixtureSnapshot} from disk. The snapshot is loaded lazily
+ * once per process.
+ */
+export function createFixtureSipSource(fixturePath: string): SipSource {
+  let snapshotPromise: Promise<SipFixtureSnapshot> | null = null;
+  const loadSnapshot = () => {
+    if (!snapshotPromise) {
+      snapshotPromise = fs.readFile(path.resolve(fixturePath), 'utf8').then(raw => JSON.parse(raw) as SipFixtureSnapshot);
+    }
+    return snapshotPromise;
+  };
+
+  return {
+    kind: 'fixture',
+    async listFolder(folderPath) {
+      const snapshot = await loadSnapshot();
+      return snapshot.folders[folderPath] || [];
+    },
+    async readFile(file) {
+      const snapshot = await loadSnapshot();
+      const key = fileContentKey(file);
+      const content = snapshot.fileContents[key];
+      if (content === undefined) {
+        throw new Error(`Fixture ${fixturePath} has no content recorded for ${key}.`);
+      }
+      return content;
+    },
+    async listPullRequests(page) {
+      const snapshot = await loadSnapshot();
+      return snapshot.pullRequests.slice((page - 1) * PR_PAGE_SIZE, page * PR_PAGE_SIZE);
+    },
+    async getPullRequest(prNumber) {
+      const snapshot = await loadSnapshot();
+      return snapshot.pullRequests.find(pr => pr.number === prNumber) || null;
+    },
+    async listPullRequestFiles(prNumber) {
+      const snapshot = await loadSnapshot();
+      return snapshot.pullRequestFiles[String(prNumber)] || [];
+    },
+    async listIssueComments(prNumber) {
+      const snapshot = await loadSnapshot();
+      return snapshot.issueComments?.[String(prNumber)] || [];
+    },
+    async listReviewComments(prNumber) {
+      const snapshot = await loadSnapshot();
+      return snapshot.reviewComments?.[String(prNumber)] || [];
+    },
+    async listReviews(prNumber) {
+      const snapshot = await loadSnapshot();
+      return snapshot.reviews?.[String(prNumber)] || [];
+    },
+    async listFileCommits(filePath) {
+      const snapshot = await loadSnapshot();
+      return snapshot.fileCommits?.[filePath] || [];
+    },
+    async readFileAtCommit(filePath, sha) {
+      const snapshot = await loadSnapshot();
+      const content = snapshot.revisionContents?.[`${sha}:${filePath}`];
+      if (content === undefined) {
+        throw new Error(`Fixture ${fixturePath} has no content recorded for ${filePath} at ${sha}.`);
+      }
+      return content;
+    },
+    async getFileDates() {
+      return null;
+    },
+  };
+}
+
+/**
+ * Picks the data source from the environment:
+ * - `SIPS_SOURCE=local` with `SIPS_LOCAL_PATH` pointing at a clone of the SIPs repository.
+ * - `SIPS_SOURCE=git` with `SIPS_GIT_PATH` pointing at a git clone, read through `git` including its history.
+ * - `SIPS_SOURCE=fixture` with `SIPS_FIXTURE_PATH` pointing at a snapshot JSON file.
+ * - anything else (the default) reads from GitHub, see {@link createDefaultGitHubSipSource}.
+ */
+export function getConfiguredSipSource(githubOptions: GitHubSipSourceOptions): SipSource {
+  const sourceKind = (process.env.SIPS_SOURCE || 'github').toLowerCase();
+
+  if (sourceKind === 'local') {
+    const localPath = process.env.SIPS_LOCAL_PATH;
+    if (localPath) {
+      return createLocalDirectorySipSource(localPath);
+    }
+    console.warn("SIPS_SOURCE is 'local' but SIPS_LOCAL_PATH is not set. Falling back to GitHub.");
+  } else if (sourceKind === 'git') {
+    const gitPath = process.env.SIPS_GIT_PATH;
+    if (gitPath) {
+      return createGitCloneSipSource(gitPath, githubOptions);
+    }
+    console.warn("SIPS_SOURCE is 'git' but SIPS_GIT_PATH is not set. Falling back to GitHub.");
+  } else if (sourceKind === 'fixture') {
+    const fixturePath = process.env.SIPS_FIXTURE_PATH;
+    if (fixturePath) {
+      return createFixtureSipSource(fixturePath);
+    }
+    console.warn("SIPS_SOURCE is 'fixture' but SIPS_FIXTURE_PATH is not set. Falling back to GitHub.");
+  } else if (sourceKind !== 'github') {
+    console.warn(`Unknown SIPS_SOURCE '${sourceKind}'. Falling back to GitHub.`);
+  }
+
+  return createDefaultGitHubSipSource(githubOptions);
+}
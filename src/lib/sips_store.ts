@@ -0,0 +1,363 @@
+
+import { createHash } from 'crypto';
+import { collection, deleteDoc, doc, getDoc, getDocs, runTransaction, setDoc, writeBatch, type DocumentData } from 'firebase/firestore';
+import { db, isFirestoreConfigured } from '@/lib/firebase';
+import type { KeyValueStore } from '@/lib/file_store';
+import type { SIP } from '@/types/sip';
+
+/**
+ * Durable SIP store in Firestore. Each SIP is split across four collections so the parts
+ * can be refreshed independently:
+ * - `sips`: the merged record, plus a hash of the raw records it was merged from.
+ * - `sipEnrichments`: AI output (summary, clean title, discussion summary).
+ * - `sipComments`: the last fetched comment snapshot for the SIP's PR.
+ * - `sipRevisions`: the last fetched revision history of the SIP's file.
+ * A single `sipDatasets/current` document records when the full dataset was last synced, and
+ * `sipDatasets/refreshLease` names the instance currently allowed to refresh the dataset.
+ * `sipSyncStates/{owner:repo}` holds each repository's PR sync cursor, with the records each PR
+ * produced in its `pullRequests` subcollection; they are written with the dataset they produced.
+ * {@link createFirestoreStore} keeps other durable key-value data (e.g. `aiOutputs`) alongside.
+ *
+ * Every call is a no-op (or a miss) when Firestore is not configured, and store failures
+ * are logged rather than thrown so GitHub remains the fallback.
+ */
+
+const SIPS_COLLECTION = 'sips';
+const ENRICHMENTS_COLLECTION = 'sipEnrichments';
+const COMMENTS_COLLECTION = 'sipComments';
+const REVISIONS_COLLECTION = 'sipRevisions';
+const DATASETS_COLLECTION = 'sipDatasets';
+const CURRENT_DATASET_DOC = 'current';
+const REFRESH_LEASE_DOC = 'refreshLease';
+const SYNC_STATES_COLLECTION = 'sipSyncStates';
+const SYNC_PULL_REQUESTS_SUBCOLLECTION = 'pullRequests';
+const STORE_TIMEOUT_MS = 5000;
+const MAX_SIPS_PER_BATCH = 200; // Two writes per SIP, well under Firestore's 500-write batch limit.
+const MAX_PULL_REQUESTS_PER_BATCH = 400; // One write per PR record
+
+type EnrichmentFields = Pick<SIP, 'aiSummary' | 'cleanTitle' | 'discussionSummary'>;
+type CommentFields = Pick<SIP, 'comments' | '_rawIssueCommentCount' | '_rawReviewCommentCount' | '_commentFetchLimit' | '_commentsFetchedAt'>;
+type RevisionFields = Pick<SIP, 'revisions' | '_revisionsFetchedAt'>;
+type RecordFields = Omit<SIP, keyof EnrichmentFields | keyof CommentFields | keyof RevisionFields>;
+
+interface StoredSipRecord {
+  sip: RecordFields;
+  mergeInputHash: string;
+}
+
+/** A repository's PR sync cursor and the records each PR produced, as the sync keeps them. */
+export interface StoredSyncState {
+  cursor: string | null;
+  pullRequests: Record<string, { updatedAt: string; sips: SIP[] }>; // Keyed by PR number
+}
+
+export interface StoredSipDataset {
+  sips: SIP[];
+  mergeInputHashes: Map<string, string>; // SIP key -> hash of the raw records it was merged from
+  syncedAt: number; // epoch ms
+  syncStates: Map<string, StoredSyncState>; // Keyed by "owner/repo"
+}
+
+export const isSipStoreEnabled = isFirestoreConfigured;
+
+// PR record path -> hash of the record as last read from or written to Firestore; only changed records are written.
+const persistedPullRequestHashes = new Map<string, string>();
+
+function syncStateDocId(repositoryKey: string): string {
+  return repositoryKey.replace(/\//g, ':');
+}
+
+function pullRequestRecordPath(repositoryKey: string, prNumber: string): string {
+  return `${SYNC_STATES_COLLECTION}/${syncStateDocId(repositoryKey)}/${SYNC_PULL_REQUESTS_SUBCOLLECTION}/${prNumber}`;
+}
+
+function hashRecord(record: unknown): string {
+  return createHash('sha1').update(JSON.stringify(record)).digest('hex');
+}
+
+function sipKey(sip: SIP): string {
+  return sip.id.toLowerCase();
+}
+
+function splitSip(sip: SIP): { record: RecordFields; enrichment: EnrichmentFields; comments: CommentFields; revisions: RevisionFields } {
+  const {
+    aiSummary, cleanTitle, discussionSummary,
+    comments, _rawIssueCommentCount, _rawReviewCommentCount, _commentFetchLimit, _commentsFetchedAt,
+    revisions, _revisionsFetchedAt,
+    ...record
+  } = sip;
+  return {
+    record,
+    enrichment: { aiSummary, cleanTitle, discussionSummary },
+    comments: { comments, _rawIssueCommentCount, _rawReviewCommentCount, _commentFetchLimit, _commentsFetchedAt },
+    revisions: { revisions, _revisionsFetchedAt },
+  };
+}
+
+async function withStoreTimeout<T>(operation: Promise<T>, label: string): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(`Firestore ${label} timed out after ${STORE_TIMEOUT_MS / 1000}s`)), STORE_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([operation, timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export async function loadSipDataset(): Promise<StoredSipDataset | null> {
+  if (!isSipStoreEnabled) return null;
+  try {
+    const [datasetSnap, recordsSnap, enrichmentsSnap] = await withStoreTimeout(Promise.all([
+      getDoc(doc(db, DATASETS_COLLECTION, CURRENT_DATASET_DOC)),
+      getDocs(collection(db, SIPS_COLLECTION)),
+      getDocs(collection(db, ENRICHMENTS_COLLECTION)),
+    ]), 'dataset load');
+
+    if (!datasetSnap.exists() || recordsSnap.empty) {
+      return null;
+    }
+
+    const enrichmentsByKey = new Map<string, DocumentData>();
+    enrichmentsSnap.forEach(snap => enrichmentsByKey.set(snap.id, snap.data()));
+
+    const sips: SIP[] = [];
+    const mergeInputHashes = new Map<string, string>();
+    recordsSnap.forEach(snap => {
+      const stored = snap.data() as StoredSipRecord;
+      if (!stored.sip?.id) {
+        console.warn(`loadSipDataset: Skipping stored SIP ${snap.id} without an ID.`);
+        return;
+      }
+      sips.push({ ...stored.sip, ...(enrichmentsByKey.get(snap.id) as EnrichmentFields | undefined) } as SIP);
+      mergeInputHashes.set(snap.id, stored.mergeInputHash);
+    });
+
+    const syncStates = await loadSyncStates();
+    console.log(`loadSipDataset: Loaded ${sips.length} SIPs and the sync state of ${syncStates.size} repositories from Firestore.`);
+    return { sips, mergeInputHashes, syncedAt: datasetSnap.data().syncedAt, syncStates };
+  } catch (error: any) {
+    console.warn(`loadSipDataset: Could not read SIP dataset from Firestore: ${error?.message}`);
+    return null;
+  }
+}
+
+async function loadSyncStates(): Promise<Map<string, StoredSyncState>> {
+  const syncStates = new Map<string, StoredSyncState>();
+  const statesSnap = await withStoreTimeout(getDocs(collection(db, SYNC_STATES_COLLECTION)), 'sync state load');
+  const recordSnaps = await withStoreTimeout(Promise.all(statesSnap.docs.map(stateSnap =>
+    getDocs(collection(db, SYNC_STATES_COLLECTION, stateSnap.id, SYNC_PULL_REQUESTS_SUBCOLLECTION)))), 'sync state load');
+  statesSnap.docs.forEach((stateSnap, index) => {
+    const { repository, cursor } = stateSnap.data() as { repository: string; cursor: string | null };
+    const pullRequests: StoredSyncState['pullRequests'] = {};
+    recordSnaps[index].forEach(recordSnap => {
+      const record = recordSnap.data() as StoredSyncState['pullRequests'][string];
+      pullRequests[recordSnap.id] = record;
+      persistedPullRequestHashes.set(pullRequestRecordPath(repository, recordSnap.id), hashRecord(record));
+    });
+    syncStates.set(repository, { cursor, pullRequests });
+  });
+  return syncStates;
+}
+
+/**
+ * Persists the SIPs that changed in the latest sync (record, AI summary and clean title), removes SIPs that
+ * no longer exist, and stamps the dataset with `syncedAt`. The PR records that changed are written
+ * first and the sync cursors in the same batch as the stamp, so a stored cursor never runs ahead of
+ * the stored dataset.
+ */
+export async function saveSipDataset(
+  changedSips: SIP[],
+  mergeInputHashes: Map<string, string>,
+  removedKeys: string[],
+  syncedAt: number,
+  syncStates: Map<string, StoredSyncState>,
+): Promise<void> {
+  if (!isSipStoreEnabled) return;
+  try {
+    for (let i = 0; i < changedSips.length; i += MAX_SIPS_PER_BATCH) {
+      const batch = writeBatch(db);
+      for (const sip of changedSips.slice(i, i + MAX_SIPS_PER_BATCH)) {
+        const key = sipKey(sip);
+        const { record, enrichment: { aiSummary, cleanTitle } } = splitSip(sip);
+        const stored: StoredSipRecord = { sip: record, mergeInputHash: mergeInputHashes.get(key) || '' };
+        batch.set(doc(db, SIPS_COLLECTION, key), stored);
+        // Merged, so the discussion summary written by `saveSipDetail` survives dataset saves.
+        batch.set(doc(db, ENRICHMENTS_COLLECTION, key), { aiSummary, cleanTitle }, { merge: true });
+      }
+      await withStoreTimeout(batch.commit(), 'dataset write');
+    }
+
+    const changedPullRequests = [...syncStates].flatMap(([repositoryKey, state]) => Object.entries(state.pullRequests)
+      .map(([prNumber, record]) => ({ path: pullRequestRecordPath(repositoryKey, prNumber), record, hash: hashRecord(record) }))
+      .filter(({ path, hash }) => persistedPullRequestHashes.get(path) !== hash));
+    for (let i = 0; i < changedPullRequests.length; i += MAX_PULL_REQUESTS_PER_BATCH) {
+      const batch = writeBatch(db);
+      for (const { path, record } of changedPullRequests.slice(i, i + MAX_PULL_REQUESTS_PER_BATCH)) {
+        batch.set(doc(db, path), record);
+      }
+      await withStoreTimeout(batch.commit(), 'sync state write');
+    }
+
+    const finalBatch = writeBatch(db);
+    for (const key of removedKeys) {
+      finalBatch.delete(doc(db, SIPS_COLLECTION, key));
+      finalBatch.delete(doc(db, ENRICHMENTS_COLLECTION, key));
+      finalBatch.delete(doc(db, COMMENTS_COLLECTION, key));
+      finalBatch.delete(doc(db, REVISIONS_COLLECTION, key));
+    }
+    for (const [repositoryKey, { cursor }] of syncStates) {
+      finalBatch.set(doc(db, SYNC_STATES_COLLECTION, syncStateDocId(repositoryKey)), { repository: repositoryKey, cursor });
+    }
+    finalBatch.set(doc(db, DATASETS_COLLECTION, CURRENT_DATASET_DOC), { syncedAt });
+    await withStoreTimeout(finalBatch.commit(), 'dataset write');
+    changedPullRequests.forEach(({ path, hash }) => persistedPullRequestHashes.set(path, hash));
+    console.log(`saveSipDataset: Stored ${changedSips.length} changed SIPs and ${changedPullRequests.length} changed PR records, and removed ${removedKeys.length} SIPs in Firestore.`);
+  } catch (error: any) {
+    console.warn(`saveSipDataset: Could not write SIP dataset to Firestore: ${error?.message}`);
+  }
+}
+
+/** Reads a single SIP (record, enrichment, comment snapshot and revisions) by its lower-cased ID. */
+export async function loadStoredSip(key: string): Promise<SIP | null> {
+  if (!isSipStoreEnabled) return null;
+  try {
+    const [recordSnap, enrichmentSnap, commentsSnap, revisionsSnap] = await withStoreTimeout(Promise.all([
+      getDoc(doc(db, SIPS_COLLECTION, key)),
+      getDoc(doc(db, ENRICHMENTS_COLLECTION, key)),
+      getDoc(doc(db, COMMENTS_COLLECTION, key)),
+      getDoc(doc(db, REVISIONS_COLLECTION, key)),
+    ]), `read of SIP ${key}`);
+    if (!recordSnap.exists()) {
+      return null;
+    }
+    const stored = recordSnap.data() as StoredSipRecord;
+    return {
+      ...stored.sip,
+      ...(enrichmentSnap.exists() ? enrichmentSnap.data() as EnrichmentFields : {}),
+      ...(commentsSnap.exists() ? commentsSnap.data() as CommentFields : {}),
+      ...(revisionsSnap.exists() ? revisionsSnap.data() as RevisionFields : {}),
+    } as SIP;
+  } catch (error: any) {
+    console.warn(`loadStoredSip(${key}): Could not read SIP from Firestore: ${error?.message}`);
+    return null;
+  }
+}
+
+/**
+ * Persists the AI enrichment, comment snapshot and revisions of a SIP after an on-demand detail
+ * fetch, plus its references, which gain the ones found in the discussion. References are only
+ * patched into a stored record; a SIP the dataset no longer holds never gets a partial record.
+ */
+export async function saveSipDetail(sip: SIP): Promise<void> {
+  if (!isSipStoreEnabled) return;
+  try {
+    const key = sipKey(sip);
+    const { enrichment, comments, revisions } = splitSip(sip);
+    const recordRef = doc(db, SIPS_COLLECTION, key);
+    await withStoreTimeout(runTransaction(db, async transaction => {
+      const recordSnap = await transaction.get(recordRef);
+      transaction.set(doc(db, ENRICHMENTS_COLLECTION, key), enrichment);
+      if (recordSnap.exists()) {
+        transaction.update(recordRef, { 'sip.references': sip.references || [] });
+      }
+      if (comments._commentsFetchedAt) {
+        transaction.set(doc(db, COMMENTS_COLLECTION, key), comments);
+      }
+      if (revisions._revisionsFetchedAt) {
+        transaction.set(doc(db, REVISIONS_COLLECTION, key), revisions);
+      }
+    }), `write of SIP ${key}`);
+  } catch (error: any) {
+    console.warn(`saveSipDetail(${sip.id}): Could not write SIP detail to Firestore: ${error?.message}`);
+  }
+}
+
+/** Removes stored comment snapshots (e.g. after a webhook reports new comments) so they are re-fetched. */
+export async function deleteSipComments(keys: string[]): Promise<void> {
+  if (!isSipStoreEnabled || keys.length === 0) return;
+  try {
+    const batch = writeBatch(db);
+    for (const key of keys) {
+      batch.delete(doc(db, COMMENTS_COLLECTION, key));
+    }
+    await withStoreTimeout(batch.commit(), 'comment snapshot delete');
+  } catch (error: any) {
+    console.warn(`deleteSipComments: Could not delete comment snapshots from Firestore: ${error?.message}`);
+  }
+}
+
+/**
+ * Takes the refresh lease for `holder` unless another holder's lease has not expired yet. Leases
+ * expire after `durationMs`, so a crashed instance cannot block refreshes for good. Returns true
+ * when the lease is held, and also when Firestore is not configured or fails, so a store outage
+ * never stops refreshes.
+ */
+export async function acquireRefreshLease(holder: string, durationMs: number): Promise<boolean> {
+  if (!isSipStoreEnabled) return true;
+  const leaseRef = doc(db, DATASETS_COLLECTION, REFRESH_LEASE_DOC);
+  try {
+    return await withStoreTimeout(runTransaction(db, async transaction => {
+      const lease = (await transaction.get(leaseRef)).data();
+      const now = Date.now();
+      if (lease && lease.holder !== holder && lease.expiresAt > now) return false;
+      transaction.set(leaseRef, { holder, expiresAt: now + durationMs });
+      return true;
+    }), 'refresh lease');
+  } catch (error: any) {
+    console.warn(`acquireRefreshLease: Could not take the refresh lease in Firestore, refreshing without it: ${error?.message}`);
+    return true;
+  }
+}
+
+/** Gives up the refresh lease if `holder` still holds it. */
+export async function releaseRefreshLease(holder: string): Promise<void> {
+  if (!isSipStoreEnabled) return;
+  const leaseRef = doc(db, DATASETS_COLLECTION, REFRESH_LEASE_DOC);
+  try {
+    await withStoreTimeout(runTransaction(db, async transaction => {
+      if ((await transaction.get(leaseRef)).data()?.holder === holder) {
+        transaction.delete(leaseRef);
+      }
+    }), 'refresh lease release');
+  } catch (error: any) {
+    console.warn(`releaseRefreshLease: Could not release the refresh lease in Firestore: ${error?.message}`);
+  }
+}
+
+/**
+ * Key-value store over a Firestore collection, with the contract of `createFileStore`: one document
+ * per key, named by the SHA-1 of the key (keys may contain `/`), and failures logged as misses.
+ * Unlike the cache directory, its entries are shared by every instance and survive restarts.
+ */
+export function createFirestoreStore<T>(collectionName: string): KeyValueStore<T> {
+  const docForKey = (key: string) => doc(db, collectionName, createHash('sha1').update(key).digest('hex'));
+
+  return {
+    async get(key) {
+      try {
+        const snap = await withStoreTimeout(getDoc(docForKey(key)), `read of ${collectionName} entry`);
+        const record = snap.exists() ? snap.data() as { key: string; value: T } : undefined;
+        return record?.key === key ? record.value : undefined;
+      } catch (error: any) {
+        console.warn(`createFirestoreStore(${collectionName}): Failed to read entry for ${key}: ${error?.message}`);
+        return undefined;
+      }
+    },
+    async set(key, value) {
+      try {
+        await withStoreTimeout(setDoc(docForKey(key), { key, value }), `write of ${collectionName} entry`);
+      } catch (error: any) {
+        console.warn(`createFirestoreStore(${collectionName}): Failed to write entry for ${key}: ${error?.message}`);
+      }
+    },
+    async delete(key) {
+      try {
+        await withStoreTimeout(deleteDoc(docForKey(key)), `delete of ${collectionName} entry`);
+      } catch (error: any) {
+        console.warn(`createFirestoreStore(${collectionName}): Failed to delete entry for ${key}: ${error?.message}`);
+      }
+    },
+  };
+}
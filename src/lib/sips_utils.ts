@@ -1,5 +1,5 @@
 
-import type { SipStatus } from '@/types/sip';
+import type { SIP, SipStatus, SipReview, SipReviewState, Comment } from '@/types/sip';
 
 /**
  * Maps a raw SIP status to a user-friendly display label.
@@ -26,3 +26,88 @@ export function getFriendlySipStatusLabel(status: SipStatus): string {
       return status; // Fallback to the original status if unmapped
   }
 }
+
+/**
+ * When the SIP entered its current status, according to its `statusHistory`: the last transition
+ * into that status. Merge overrides (e.g. a merged PR making a Draft file Accepted) can leave later
+ * transitions to other statuses in the history. Undefined when the history never reaches the status.
+ */
+export function getCurrentStatusSince(sip: SIP): string | undefined {
+  const transitions = sip.statusHistory || [];
+  for (let index = transitions.length - 1; index >= 0; index--) {
+    if (transitions[index].to === sip.status) return transitions[index].at;
+  }
+  return undefined;
+}
+
+export interface SipReviewSummary {
+  latestByReviewer: SipReview[]; // Each reviewer's most recent review that counts towards approval
+  approvedBy: string[];
+  changesRequestedBy: string[];
+  awaitingReview: boolean; // Open PR with no standing approval or change request
+}
+
+const DECISIVE_REVIEW_STATES: SipReviewState[] = ['APPROVED', 'CHANGES_REQUESTED', 'DISMISSED'];
+
+/**
+ * Reduces a SIP's reviews to each reviewer's standing verdict, the way GitHub does: a reviewer's
+ * latest approval, change request or dismissal wins, and plain comments only count for reviewers
+ * who never gave a verdict.
+ */
+export function getSipReviewSummary(sip: SIP): SipReviewSummary {
+  const latestByReviewer = new Map<string, SipReview>();
+  for (const review of sip.reviews || []) {
+    const previous = latestByReviewer.get(review.reviewer);
+    const previousIsDecisive = previous && DECISIVE_REVIEW_STATES.includes(previous.state);
+    if (!previous || DECISIVE_REVIEW_STATES.includes(review.state) || !previousIsDecisive) {
+      latestByReviewer.set(review.reviewer, review);
+    }
+  }
+  const standingReviews = Array.from(latestByReviewer.values());
+  const approvedBy = standingReviews.filter(review => review.state === 'APPROVED').map(review => review.reviewer);
+  const changesRequestedBy = standingReviews.filter(review => review.state === 'CHANGES_REQUESTED').map(review => review.reviewer);
+  const prIsOpen = Boolean(sip.prNumber) && sip.reviews !== undefined && !sip.mergedAt && !sip.closedAt;
+
+  return {
+    latestByReviewer: standingReviews,
+    approvedBy,
+    changesRequestedBy,
+    awaitingReview: prIsOpen && approvedBy.length === 0 && changesRequestedBy.length === 0,
+  };
+}
+
+export interface ReviewThread {
+  root: Comment; // First comment of the thread; carries the diff hunk
+  replies: Comment[]; // Oldest first
+}
+
+export type DiscussionItem =
+  | { kind: 'comment'; comment: Comment }
+  | { kind: 'thread'; thread: ReviewThread };
+
+/**
+ * Groups review comments into threads via `inReplyToId` and interleaves them with conversation
+ * comments by the time each thread started. Replies whose thread root is not loaded (e.g. it is
+ * on a later page) start a thread of their own.
+ */
+export function buildDiscussionItems(comments: Comment[]): DiscussionItem[] {
+  const threadsByRootId = new Map<number, ReviewThread>();
+  const items: DiscussionItem[] = [];
+  const sortedComments = [...comments].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  for (const comment of sortedComments) {
+    if (!comment.diffHunk && !comment.filePath) {
+      items.push({ kind: 'comment', comment });
+      continue;
+    }
+    const existingThread = comment.inReplyToId !== undefined ? threadsByRootId.get(comment.inReplyToId) : undefined;
+    if (existingThread) {
+      existingThread.replies.push(comment);
+      continue;
+    }
+    const thread: ReviewThread = { root: comment, replies: [] };
+    threadsByRootId.set(comment.inReplyToId ?? comment.id, thread);
+    items.push({ kind: 'thread', thread });
+  }
+  return items;
+}
@@ -0,0 +1,111 @@
+
+import { refreshSipsForPullRequest, refreshSipFolders, invalidateSipComments, getSipRepositories } from '@/lib/sips';
+import type { SipRepositoryInfo } from '@/types/sip';
+
+/**
+ * What a webhook delivery calls for. Deciding is cheap, so the route can answer GitHub before
+ * running `apply`, the refresh itself, which resolves to the SIPs whose detail pages are affected.
+ * `datasetChanged` is set when SIP records are re-synced, so list pages need revalidating too.
+ */
+export interface GitHubWebhookPlan {
+  handled: boolean;
+  reason?: string;
+  datasetChanged: boolean;
+  apply: () => Promise<string[]>;
+}
+
+/** The SIP folders of the repository that a push adds, modifies or removes files in. */
+function foldersTouchedByPush(repository: SipRepositoryInfo, payload: any): string[] {
+  const folders = [repository.proposalsPath, repository.withdrawnPath].filter((folder): folder is string => Boolean(folder));
+  const commits: any[] = Array.isArray(payload?.commits) ? payload.commits : [];
+  const touchedPaths: unknown[] = commits.flatMap(commit => [...(commit.added || []), ...(commit.modified || []), ...(commit.removed || [])]);
+  return folders.filter(folder => touchedPaths.some(filePath => typeof filePath === 'string' && filePath.startsWith(`${folder}/`)));
+}
+
+function ignored(reason: string): GitHubWebhookPlan {
+  return { handled: false, reason, datasetChanged: false, apply: async () => [] };
+}
+
+function handled(datasetChanged: boolean, apply: () => Promise<string[]>): GitHubWebhookPlan {
+  return { handled: true, datasetChanged, apply };
+}
+
+async function findConfiguredRepository(payload: any): Promise<SipRepositoryInfo | undefined> {
+  const fullName = typeof payload?.repository?.full_name === 'string' ? payload.repository.full_name.toLowerCase() : null;
+  if (!fullName) return undefined;
+  const repositories = await getSipRepositories();
+  return repositories.find(repository => `${repository.owner}/${repository.repo}`.toLowerCase() === fullName);
+}
+
+/**
+ * Maps a verified delivery to the narrowest refresh that covers it. Only identifiers (repository
+ * name, PR numbers, touched folders) are taken from the payload; SIP data itself is always
+ * re-fetched from the configured source.
+ */
+export async function planGitHubWebhook(event: string, payload: any): Promise<GitHubWebhookPlan> {
+  if (event === 'ping') {
+    return ignored('ping');
+  }
+  const repository = await findConfiguredRepository(payload);
+  if (!repository) {
+    return ignored(`repository ${payload?.repository?.full_name || 'unknown'} is not configured`);
+  }
+
+  switch (event) {
+
+    case 'push': {
+      const defaultBranch = payload?.repository?.default_branch;
+      if (!defaultBranch || payload?.ref !== `refs/heads/${defaultBranch}`) {
+        return ignored(`push to ${payload?.ref || 'unknown ref'} is not on the default branch`);
+      }
+      const folders = foldersTouchedByPush(repository, payload);
+      if (folders.length === 0) {
+        return ignored('push does not touch SIP files');
+      }
+      return handled(true, () => refreshSipFolders(repository.id, folders));
+    }
+
+    case 'pull_request': {
+      const prNumber = Number(payload?.pull_request?.number ?? payload?.number);
+      if (!Number.isInteger(prNumber)) {
+        return ignored('pull_request payload has no PR number');
+      }
+      return handled(true, () => refreshSipsForPullRequest(prNumber, repository.id));
+    }
+
+    case 'issue_comment': {
+      // Issue comments fire for plain issues too; only PR conversations feed SIP discussions.
+      if (!payload?.issue?.pull_request) {
+        return ignored('comment is not on a pull request');
+      }
+      const prNumber = Number(payload.issue.number);
+      if (!Number.isInteger(prNumber)) {
+        return ignored('issue_comment payload has no issue number');
+      }
+      return handled(false, () => invalidateSipComments(prNumber, repository.id));
+    }
+
+    case 'pull_request_review': {
+      // Reviews are part of the SIP record; inline comments submitted with a review also need re-fetching.
+      const prNumber = Number(payload?.pull_request?.number);
+      if (!Number.isInteger(prNumber)) {
+        return ignored('pull_request_review payload has no PR number');
+      }
+      return handled(true, async () => Array.from(new Set([
+        ...await refreshSipsForPullRequest(prNumber, repository.id),
+        ...await invalidateSipComments(prNumber, repository.id),
+      ])));
+    }
+
+    case 'pull_request_review_comment': {
+      const prNumber = Number(payload?.pull_request?.number);
+      if (!Number.isInteger(prNumber)) {
+        return ignored(`${event} payload has no PR number`);
+      }
+      return handled(false, () => invalidateSipComments(prNumber, repository.id));
+    }
+
+    default:
+      return ignored(`unsupported event '${event}'`);
+  }
+}
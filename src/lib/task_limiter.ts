@@ -0,0 +1,22 @@
+
+export type TaskLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/** Runs at most `maxConcurrent` tasks at once; the rest wait in call order. */
+export function createTaskLimiter(maxConcurrent: number): TaskLimiter {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (active < maxConcurrent) {
+      active++;
+    } else {
+      await new Promise<void>(resolve => waiting.push(resolve)); // The finishing task hands over its slot
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
@@ -0,0 +1,124 @@
+
+export interface DiffLine {
+  lineNumber: number;
+  text: string;
+}
+
+/**
+ * One row of a side-by-side diff. `changed` rows pair a removed line with the added line that
+ * replaced it; `added`/`removed` rows only have one side. `collapsed` rows stand in for a run of
+ * `hiddenLineCount` unchanged lines.
+ */
+export interface SideBySideDiffRow {
+  kind: 'unchanged' | 'added' | 'removed' | 'changed' | 'collapsed';
+  left?: DiffLine;
+  right?: DiffLine;
+  hiddenLineCount?: number;
+}
+
+type LineOp = { kind: 'unchanged' | 'added' | 'removed'; text: string };
+
+/** Line-level diff from the longest common subsequence of both line lists. */
+function diffLineOps(oldLines: string[], newLines: string[]): LineOp[] {
+  // Trim the common prefix and suffix first; revisions usually differ in a few places only.
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+  const rows = oldMiddle.length;
+  const cols = newMiddle.length;
+  // lcs[i * (cols + 1) + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+  const lcs = new Uint32Array((rows + 1) * (cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * (cols + 1) + j] = oldMiddle[i] === newMiddle[j]
+        ? lcs[(i + 1) * (cols + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (cols + 1) + j], lcs[i * (cols + 1) + j + 1]);
+    }
+  }
+
+  const ops: LineOp[] = oldLines.slice(0, start).map(text => ({ kind: 'unchanged' as const, text }));
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldMiddle[i] === newMiddle[j]) {
+      ops.push({ kind: 'unchanged', text: oldMiddle[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (cols + 1) + j] >= lcs[i * (cols + 1) + j + 1]) {
+      ops.push({ kind: 'removed', text: oldMiddle[i++] });
+    } else {
+      ops.push({ kind: 'added', text: newMiddle[j++] });
+    }
+  }
+  while (i < rows) ops.push({ kind: 'removed', text: oldMiddle[i++] });
+  while (j < cols) ops.push({ kind: 'added', text: newMiddle[j++] });
+  oldLines.slice(oldEnd).forEach(text => ops.push({ kind: 'unchanged', text }));
+  return ops;
+}
+
+/**
+ * Builds side-by-side rows for `oldText` -> `newText`. Runs of unchanged lines longer than
+ * twice `contextLines` are collapsed, keeping `contextLines` on either side of each change.
+ */
+export function diffSideBySide(oldText: string, newText: string, contextLines: number = 3): SideBySideDiffRow[] {
+  const ops = diffLineOps(oldText.split('\n'), newText.split('\n'));
+
+  const rows: SideBySideDiffRow[] = [];
+  let leftLineNumber = 1;
+  let rightLineNumber = 1;
+  for (let index = 0; index < ops.length;) {
+    if (ops[index].kind === 'unchanged') {
+      const text = ops[index].text;
+      rows.push({ kind: 'unchanged', left: { lineNumber: leftLineNumber++, text }, right: { lineNumber: rightLineNumber++, text } });
+      index++;
+      continue;
+    }
+    // Pair a block of removals with the additions that directly follow it.
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < ops.length && ops[index].kind === 'removed') removed.push(ops[index++].text);
+    while (index < ops.length && ops[index].kind === 'added') added.push(ops[index++].text);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = k < removed.length ? { lineNumber: leftLineNumber++, text: removed[k] } : undefined;
+      const right = k < added.length ? { lineNumber: rightLineNumber++, text: added[k] } : undefined;
+      rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+
+  return collapseUnchangedRows(rows, contextLines);
+}
+
+function collapseUnchangedRows(rows: SideBySideDiffRow[], contextLines: number): SideBySideDiffRow[] {
+  const collapsed: SideBySideDiffRow[] = [];
+  for (let index = 0; index < rows.length;) {
+    if (rows[index].kind !== 'unchanged') {
+      collapsed.push(rows[index++]);
+      continue;
+    }
+    let runEnd = index;
+    while (runEnd < rows.length && rows[runEnd].kind === 'unchanged') runEnd++;
+
+    const keepBefore = index === 0 ? 0 : contextLines; // No change above the first run
+    const keepAfter = runEnd === rows.length ? 0 : contextLines; // No change below the last run
+    const hiddenLineCount = runEnd - index - keepBefore - keepAfter;
+    if (hiddenLineCount > 1) {
+      collapsed.push(...rows.slice(index, index + keepBefore));
+      collapsed.push({ kind: 'collapsed', hiddenLineCount });
+      collapsed.push(...rows.slice(runEnd - keepAfter, runEnd));
+    } else {
+      collapsed.push(...rows.slice(index, runEnd));
+    }
+    index = runEnd;
+  }
+  return collapsed;
+}
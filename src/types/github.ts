@@ -0,0 +1,89 @@
+
+export interface GitHubFile {
+  name: string;
+  path: string;
+  filename?: string;
+  sha: string;
+  size: number;
+  url: string;
+  html_url: string;
+  git_url: string;
+  download_url: string | null;
+  raw_url?: string;
+  type: 'file' | 'dir';
+  status?: 'added' | 'modified' | 'removed' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+}
+
+export interface GitHubLabel {
+  id: number;
+  node_id: string;
+  url: string;
+  name: string;
+  color: string;
+  default: boolean;
+  description: string | null;
+}
+
+export interface GitHubUser {
+    login: string;
+    avatar_url: string;
+    html_url: string;
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  title: string;
+  user: GitHubUser | null;
+  created_at: string;
+  updated_at: string;
+  merged_at: string | null;
+  closed_at: string | null;
+  state: 'open' | 'closed';
+  head: { sha: string };
+  body: string | null;
+  labels: GitHubLabel[];
+}
+
+export interface GitHubIssueComment {
+  id: number;
+  user: GitHubUser | null;
+  body: string;
+  created_at: string;
+  html_url: string;
+}
+
+export interface GitHubReviewComment {
+  id: number;
+  user: GitHubUser | null;
+  body: string;
+  created_at: string;
+  html_url: string;
+  path: string;
+  diff_hunk: string;
+  original_commit_id: string;
+  in_reply_to_id?: number; // Set on replies; always the ID of the thread's first comment
+  line?: number | null; // Line in the current diff, null when outdated
+  original_line?: number | null; // Line in the diff the comment was made on
+}
+
+export interface GitHubReview {
+  id: number;
+  user: GitHubUser | null;
+  body: string | null;
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+  submitted_at?: string; // Absent for pending reviews
+  html_url: string;
+  commit_id: string | null;
+}
+
+export interface GitHubCommit {
+  sha: string;
+  html_url: string;
+  author: GitHubUser | null; // Linked GitHub account, if any
+  commit: {
+    message: string;
+    author: { name: string; email: string; date: string };
+    committer: { name: string; email: string; date: string };
+  };
+}
@@ -15,10 +15,164 @@ export interface Comment {
   createdAt: string; // ISO date string
   htmlUrl: string; // Link to the comment on GitHub
   filePath?: string; // For review comments, the path to the file commented on
+  diffHunk?: string; // For review comments, the diff context the comment refers to
+  commitId?: string; // For review comments, the commit the comment was made on
+  line?: number; // For review comments, the commented line in that commit's diff
+  inReplyToId?: number; // For review comment replies, the ID of the thread's first comment
+}
+
+export type SipReviewState = 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED';
+
+export interface SipReview {
+  id: number;
+  reviewer: string; // GitHub login
+  avatar: string;
+  state: SipReviewState;
+  submittedAt: string; // ISO date string
+  htmlUrl: string; // Link to the review on GitHub
+  commitId?: string; // Head commit the review was submitted against
+}
+
+export interface SipCommentPage {
+  comments: Comment[];
+  page: number; // 1-based
+  perPage: number;
+  total: number; // Comments in the whole discussion
+  hasMore: boolean;
+}
+
+export interface SipRevision {
+  sha: string; // Commit that produced this revision
+  committedAt: string; // ISO date string
+  author: string; // GitHub login, or the commit author's name
+  message: string; // First line of the commit message
+  htmlUrl: string; // Link to the commit on GitHub
+  frontmatter: Record<string, unknown>;
+  body: string;
+}
+
+export type SipLintSeverity = 'error' | 'warning';
+
+/** A problem found in a SIP file's frontmatter. */
+export interface SipLintIssue {
+  field: string; // Frontmatter key, e.g. "created"
+  code: string; // e.g. "missing_field", "unknown_status"
+  severity: SipLintSeverity;
+  message: string;
+  value?: string; // The offending value, JSON-encoded and truncated
+}
+
+/** Set on every record of a SIP number claimed by more than one proposal. */
+export interface SipNumberConflict {
+  claimedId: string; // The ID all competing proposals claim, e.g. "sip-042"
+  competingIds: string[]; // IDs of the other proposals claiming it
+}
+
+export type SipRelationType = 'requires' | 'replaces' | 'superseded_by' | 'mentions';
+export type SipRelationOrigin = 'frontmatter' | 'body' | 'pr_body' | 'comment';
+
+/** A reference from a SIP to another proposal, as found in its frontmatter or text. */
+export interface SipReference {
+  type: SipRelationType;
+  targetId?: string; // Proposal ID, for references such as "SIP-15" or `requires: 15`
+  targetPrNumber?: number; // PR number, for references such as "#42"; resolved against the SIP list
+  origin: SipRelationOrigin;
+  excerpt: string; // The text around the reference
+}
+
+/** Another proposal related to a SIP, resolved from the references of either one. */
+export interface SipRelatedProposal {
+  id: string;
+  title: string;
+  status: SipStatus;
+  type: SipRelationType;
+  direction: 'outgoing' | 'incoming'; // Outgoing: this SIP references the other; incoming: a backlink
+  origins: SipRelationOrigin[];
+  excerpt?: string;
+  depth: number; // 1 for direct relations; more for requirements of requirements
+  via?: string; // For indirect requirements, the requirement that references this one
+}
+
+/** A relation between two SIPs in the dependency graph. Supersession is stored as `replaces`, from the newer proposal. */
+export interface SipRelationEdge {
+  from: string; // ID of the referencing SIP
+  to: string; // ID of the referenced SIP
+  type: Exclude<SipRelationType, 'superseded_by'>;
+}
+
+export type SipProvenanceField = 'title' | 'status' | 'summary' | 'body' | 'createdAt' | 'updatedAt' | 'mergedAt' | 'closedAt' | 'author' | 'prNumber' | 'prUrl' | 'filePath' | 'labels' | 'type';
+
+/** Which record supplied a field of a merged SIP. */
+export interface SipFieldOrigin {
+  source: SIP['source']; // Source of the record the value came from
+  prNumber?: number; // PR the record was read from
+  filePath?: string; // File the record was parsed from; undefined for PR placeholders
+  rule?: string; // Why this value was chosen, e.g. "frontmatter status"
+}
+
+export interface SipStatusTransition {
+  from?: SipStatus; // Undefined for the first known status
+  to: SipStatus;
+  at: string; // ISO date string
+  cause: 'commit' | 'pr_opened' | 'pr_merged' | 'pr_closed';
+  ref: string; // Commit SHA, or PR reference such as "#42"
+  url: string; // Commit or PR link on GitHub
+}
+
+/** Freshness of the SIP dataset, shown as "last synced" in the UI. */
+export interface SipSyncStatus {
+  syncedAt: string | null; // ISO date string of the last completed sync; null before the first one
+  refreshing: boolean; // A background refresh is running
+}
+
+export type SipAnswerSourceKind = 'section' | 'pr_description' | 'comment';
+
+/** A part of the SIP an answer was grounded in. */
+export interface SipAnswerCitation {
+  kind: SipAnswerSourceKind;
+  label: string; // Section heading, "PR description" or "Comment by <author>"
+  url?: string; // "#<heading anchor>" on the detail page, or the PR or comment link on GitHub
+}
+
+/** An AI answer to a question about one SIP, grounded in its text and discussion. */
+export interface SipAnswer {
+  question: string;
+  answer: string;
+  answered: boolean; // False when the SIP does not say; the answer then explains what is missing
+  citations: SipAnswerCitation[];
+}
+
+/** A SIP matched by semantic search, with the passage closest to the query. */
+export interface SipSearchResult {
+  id: string;
+  score: number; // Cosine similarity of the best-matching passage, higher is closer
+  passage: {
+    label: string; // "Summary", "AI summary", a section heading or "PR description"
+    anchor?: string; // Heading anchor on the detail page, for body sections
+    excerpt: string;
+  };
+}
+
+export interface SipSearchResponse {
+  results: SipSearchResult[];
+  indexing: boolean; // Some SIPs are not embedded yet, so results may be missing matches
+}
+
+/** Public description of a repository SipView reads proposals from. */
+export interface SipRepositoryInfo {
+  id: string; // Namespace of the repository's records
+  label: string;
+  owner: string;
+  repo: string;
+  branch: string;
+  proposalsPath: string; // Folder of proposals on `branch`
+  withdrawnPath?: string; // Folder of withdrawn proposals, if the repository has one
+  idPrefix: string; // Proposal prefix in IDs and titles, e.g. "sip"
 }
 
 export interface SIP {
-  id: string; // e.g., "sip-001"
+  id: string; // e.g., "sip-001"; IDs from repositories other than the default are namespaced, e.g. "fork.sip-001"
+  repository: string; // ID of the configured repository the proposal was read from
   title: string;
   cleanTitle?: string; // AI-generated shorter, cleaner title
   status: SipStatus;
@@ -28,19 +182,30 @@ export interface SIP {
   prUrl: string;
   source: 'folder' | 'pull_request' | 'pull_request_only' | 'withdrawn_folder' | 'folder+pr'; // Indicates origin
   mergedAt?: string; // ISO date string, optional if not merged
+  closedAt?: string; // ISO date string, set when the PR was closed (merged or not)
   createdAt: string; // ISO date string
   updatedAt?: string; // ISO date string, now optional
   author?: string; // GitHub username of PR author or from frontmatter
   prNumber?: number; // GitHub PR number or from frontmatter
   filePath?: string; // The path of the file from which this SIP was parsed
   comments?: Comment[];
+  reviews?: SipReview[]; // Submitted reviews on the SIP's PR, oldest first. Undefined when not loaded.
   labels?: string[]; // GitHub labels from the PR
   type?: string; // Proposal type from frontmatter, e.g., "Standard Track"
   discussionSummary?: string; // AI-generated summary of discussion points
+  revisions?: SipRevision[]; // Revisions of `filePath`, oldest first
+  statusHistory?: SipStatusTransition[]; // Status changes derived from revisions and PR events, oldest first
+  conflict?: SipNumberConflict; // Undefined unless another proposal claims the same number
+  lintIssues?: SipLintIssue[]; // Frontmatter problems in the file at `filePath`. Undefined for SIPs without a file.
+  references?: SipReference[]; // References to other proposals from the frontmatter, body, PR description and (once loaded) the discussion
+  relatedProposals?: SipRelatedProposal[]; // Resolved relations and backlinks. Only set on the SIP returned by getSipById.
+  provenance?: Partial<Record<SipProvenanceField, SipFieldOrigin>>; // Where each merged field came from. Undefined for sample data.
 
   // Internal fields, not strictly part of the "public" SIP type but used for rendering logic
   _rawIssueCommentCount?: number;
   _rawReviewCommentCount?: number;
-  _commentFetchLimit?: number;
+  _commentFetchLimit?: number; // Comments embedded in `comments`; the rest are loaded page by page
+  _commentsFetchedAt?: string; // ISO date string of the last comment fetch
+  _revisionsFetchedAt?: string; // ISO date string of the last revision history fetch
 }
 